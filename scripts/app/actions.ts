@@ -1,10 +1,16 @@
 import type { SortDir, SortKey } from "../search.ts";
 import type {
   Connection,
+  DeviceStatusUpdate,
   DeviceType,
   NetworkDevice,
   TrafficUpdate,
 } from "../domain/types.ts";
+import type { TrafficHistoryRange } from "./trafficHistory.ts";
+import type { Alert } from "./alerts.ts";
+import type { AppEventInput } from "./events.ts";
+import type { TrafficPlaybackState } from "./types.ts";
+import type { TrafficDiagnostics } from "./trafficDiagnostics.ts";
 
 export type Action =
   | { type: "setNetworkId"; networkId: string }
@@ -29,7 +35,19 @@ export type Action =
   | { type: "nextPage" }
   | { type: "setPageSize"; pageSize: number }
   | { type: "setTraffic"; traffic: TrafficUpdate[] }
+  | { type: "setDeviceStatus"; deviceStatus: DeviceStatusUpdate[] }
   | { type: "resetTraffic" }
+  | { type: "setTrafficHistoryRange"; range: TrafficHistoryRange | null }
+  | { type: "setTrafficScrub"; atMs: number | null }
+  | { type: "setTrafficRecording"; recording: boolean }
+  | { type: "setTrafficPlayback"; playback: TrafficPlaybackState | null }
+  | { type: "setAlerts"; alerts: Alert[] }
+  | { type: "setTrafficDiagnostics"; diagnostics: TrafficDiagnostics }
+  | { type: "logEvents"; events: AppEventInput[] }
   | { type: "setTrafficSourceKind"; kind: string }
   | { type: "setTrafficVizKind"; kind: string }
-  | { type: "setLayoutKind"; kind: string };
+  | { type: "setLayoutKind"; kind: string }
+  | { type: "setBlastRadiusRoot"; root: string }
+  | { type: "setResilienceOverlay"; enabled: boolean }
+  | { type: "toggleFailure"; kind: "device" | "connection"; id: string }
+  | { type: "clearFailures" };
@@ -0,0 +1,297 @@
+import type { TrafficUpdate } from "../domain/types.ts";
+import { peakRateMbps, peakUtilization } from "../domain/traffic.ts";
+import { TRAFFIC_STYLE } from "../config.ts";
+
+export type AlertSeverity = "critical" | "warning" | "info";
+
+type AlertRuleBase = {
+  id: string;
+  severity: AlertSeverity;
+  // Limit the rule to these links; all links when omitted.
+  connectionIds?: string[];
+};
+
+export type AlertRule =
+  | AlertRuleBase & {
+    kind: "utilization";
+    abovePercent: number;
+    forSeconds: number;
+  }
+  | AlertRuleBase & { kind: "down"; forSeconds: number }
+  | AlertRuleBase & { kind: "rateZero"; forSeconds: number }
+  | AlertRuleBase & {
+    kind: "flapping";
+    changes: number;
+    withinSeconds: number;
+  };
+
+export type AlertRuleKind = AlertRule["kind"];
+
+export const ALERT_RULE_KINDS: readonly AlertRuleKind[] = [
+  "utilization",
+  "down",
+  "rateZero",
+  "flapping",
+];
+
+export const ALERT_SEVERITIES: readonly AlertSeverity[] = [
+  "critical",
+  "warning",
+  "info",
+];
+
+export type Alert = {
+  id: string;
+  ruleId: string;
+  kind: AlertRuleKind;
+  severity: AlertSeverity;
+  connectionId: string;
+  message: string;
+  startedAt: number;
+  resolvedAt: number | null;
+};
+
+// Used when a network has no alerts.json.
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  { id: "link-down", kind: "down", forSeconds: 0, severity: "critical" },
+  {
+    id: "high-utilization",
+    kind: "utilization",
+    abovePercent: 90,
+    forSeconds: 30,
+    severity: "warning",
+  },
+];
+
+type Rec = Record<string, unknown>;
+
+const isRecord = (v: unknown): v is Rec =>
+  v != null && typeof v === "object" && !Array.isArray(v);
+
+const nonNegative = (v: unknown, fallback: number) =>
+  typeof v === "number" && Number.isFinite(v) && v >= 0 ? v : fallback;
+
+const parseSeverity = (v: unknown, fallback: AlertSeverity) =>
+  ALERT_SEVERITIES.includes(v as AlertSeverity) ? v as AlertSeverity : fallback;
+
+const parseRule = (raw: unknown, index: number): AlertRule | null => {
+  if (!isRecord(raw)) return null;
+  const kind = raw.kind as AlertRuleKind;
+  if (!ALERT_RULE_KINDS.includes(kind)) return null;
+
+  const id = typeof raw.id === "string" && raw.id.trim()
+    ? raw.id.trim()
+    : `${kind}-${index + 1}`;
+  const connectionIds = Array.isArray(raw.connectionIds)
+    ? raw.connectionIds.map((v) => String(v).trim()).filter(Boolean)
+    : undefined;
+  const base = {
+    id,
+    ...(connectionIds?.length ? { connectionIds } : {}),
+  };
+
+  switch (kind) {
+    case "utilization":
+      if (typeof raw.abovePercent !== "number") return null;
+      return {
+        ...base,
+        kind,
+        abovePercent: raw.abovePercent,
+        forSeconds: nonNegative(raw.forSeconds, 0),
+        severity: parseSeverity(raw.severity, "warning"),
+      };
+    case "down":
+    case "rateZero":
+      return {
+        ...base,
+        kind,
+        forSeconds: nonNegative(raw.forSeconds, 0),
+        severity: parseSeverity(
+          raw.severity,
+          kind === "down" ? "critical" : "warning",
+        ),
+      };
+    case "flapping":
+      return {
+        ...base,
+        kind,
+        changes: Math.max(2, Math.floor(nonNegative(raw.changes, 3))),
+        withinSeconds: nonNegative(raw.withinSeconds, 60),
+        severity: parseSeverity(raw.severity, "warning"),
+      };
+  }
+};
+
+// Reads `alerts.json` ({ "rules": [...] } or a bare array). Malformed rules
+// are skipped here; `tools/validate_fixtures.ts` reports them. Returns null
+// when there is no rules file so callers can fall back to the defaults.
+export const parseAlertRules = (raw: unknown): AlertRule[] | null => {
+  if (raw == null) return null;
+  const list = Array.isArray(raw)
+    ? raw
+    : (isRecord(raw) && Array.isArray(raw.rules) ? raw.rules : null);
+  if (!list) return null;
+  return list
+    .map((r, idx) => parseRule(r, idx))
+    .filter((r): r is AlertRule => !!r);
+};
+
+const SEVERITY_RANK: Record<AlertSeverity, number> = {
+  critical: 3,
+  warning: 2,
+  info: 1,
+};
+
+// Worst active severity per connection, for link styling.
+export const activeAlertSeverityByConnection = (
+  alerts: Alert[],
+): Map<string, AlertSeverity> => {
+  const out = new Map<string, AlertSeverity>();
+  alerts.forEach((a) => {
+    if (a.resolvedAt != null) return;
+    const prev = out.get(a.connectionId);
+    if (!prev || SEVERITY_RANK[a.severity] > SEVERITY_RANK[prev]) {
+      out.set(a.connectionId, a.severity);
+    }
+  });
+  return out;
+};
+
+export type AlertEngine = {
+  // Feeds the merged state of every known link; returns true when the alert
+  // list changed. Links left out are not checked, so their holds stall.
+  evaluate: (traffic: TrafficUpdate[], at: number) => boolean;
+  // True while some condition holds but has not lasted `forSeconds` yet.
+  pending: () => boolean;
+  // Active alerts (newest first) followed by recently resolved ones.
+  list: () => Alert[];
+};
+
+export const createAlertEngine = (
+  { rules, maxResolved = 50 }: { rules: AlertRule[]; maxResolved?: number },
+): AlertEngine => {
+  const active = new Map<string, Alert>();
+  let resolved: Alert[] = [];
+  const pendingSince = new Map<string, number>();
+  const wasDown = new Map<string, boolean>();
+  const statusChanges = new Map<string, number[]>();
+  const hadTraffic = new Set<string>();
+
+  const check = (
+    rule: AlertRule,
+    t: TrafficUpdate,
+    isDown: boolean,
+    at: number,
+  ): string | null => {
+    switch (rule.kind) {
+      case "utilization": {
+        const util = peakUtilization(t);
+        if (typeof util !== "number" || util * 100 <= rule.abovePercent) {
+          return null;
+        }
+        return `Utilization ${
+          Math.round(util * 100)
+        }% above ${rule.abovePercent}%`;
+      }
+      case "down":
+        return isDown ? "Link down" : null;
+      case "rateZero": {
+        const rate = peakRateMbps(t);
+        return !isDown && hadTraffic.has(t.connectionId) && rate === 0
+          ? "Traffic dropped to zero"
+          : null;
+      }
+      case "flapping": {
+        const windowMs = rule.withinSeconds * 1000;
+        const count =
+          (statusChanges.get(t.connectionId) ?? []).filter((ts) =>
+            at - ts <= windowMs
+          ).length;
+        return count >= rule.changes
+          ? `Flapped ${count} times in ${rule.withinSeconds}s`
+          : null;
+      }
+    }
+  };
+
+  const holdMs = (rule: AlertRule) =>
+    rule.kind === "flapping" ? 0 : rule.forSeconds * 1000;
+
+  const flapWindowMs = Math.max(
+    0,
+    ...rules.map((r) => r.kind === "flapping" ? r.withinSeconds * 1000 : 0),
+  );
+
+  const trackLink = (t: TrafficUpdate, isDown: boolean, at: number) => {
+    const id = t.connectionId;
+    const prev = wasDown.get(id);
+    const changes = (statusChanges.get(id) ?? []).filter((ts) =>
+      at - ts <= flapWindowMs
+    );
+    if (prev !== undefined && prev !== isDown) changes.push(at);
+    statusChanges.set(id, changes);
+    wasDown.set(id, isDown);
+
+    const rate = peakRateMbps(t);
+    if (typeof rate === "number" && rate > 0) hadTraffic.add(id);
+  };
+
+  const evaluate = (traffic: TrafficUpdate[], at: number): boolean => {
+    let changed = false;
+    traffic.forEach((t) => {
+      if (!t?.connectionId) return;
+      const isDown = t.status === TRAFFIC_STYLE.downStatus;
+      trackLink(t, isDown, at);
+
+      for (const rule of rules) {
+        if (
+          rule.connectionIds && !rule.connectionIds.includes(t.connectionId)
+        ) {
+          continue;
+        }
+        const key = `${rule.id}:${t.connectionId}`;
+        const message = check(rule, t, isDown, at);
+
+        if (message == null) {
+          pendingSince.delete(key);
+          const alert = active.get(key);
+          if (alert) {
+            active.delete(key);
+            resolved = [{ ...alert, resolvedAt: at }, ...resolved].slice(
+              0,
+              maxResolved,
+            );
+            changed = true;
+          }
+          continue;
+        }
+
+        const since = pendingSince.get(key) ?? at;
+        pendingSince.set(key, since);
+        if (active.has(key) || at - since < holdMs(rule)) continue;
+        active.set(key, {
+          id: key,
+          ruleId: rule.id,
+          kind: rule.kind,
+          severity: rule.severity,
+          connectionId: t.connectionId,
+          message,
+          startedAt: since,
+          resolvedAt: null,
+        });
+        changed = true;
+      }
+    });
+    return changed;
+  };
+
+  const list = () => [
+    ...Array.from(active.values()).sort((a, b) => b.startedAt - a.startedAt),
+    ...resolved,
+  ];
+
+  const pending = () =>
+    Array.from(pendingSince.keys()).some((key) => !active.has(key));
+
+  return { evaluate, list, pending };
+};
@@ -0,0 +1,91 @@
+import { assertEquals } from "@std/assert";
+import {
+  activeAlertSeverityByConnection,
+  createAlertEngine,
+  DEFAULT_ALERT_RULES,
+  parseAlertRules,
+} from "./alerts.ts";
+
+Deno.test("alerts: utilization must hold for forSeconds before firing", () => {
+  const engine = createAlertEngine({
+    rules: [{
+      id: "hot",
+      kind: "utilization",
+      abovePercent: 80,
+      forSeconds: 10,
+      severity: "warning",
+    }],
+  });
+  const hot = [{ connectionId: "c1", utilization: 0.9 }];
+
+  assertEquals(engine.evaluate(hot, 0), false);
+  assertEquals(engine.evaluate(hot, 5000), false);
+  assertEquals(engine.pending(), true);
+  assertEquals(engine.evaluate(hot, 10_000), true);
+  assertEquals(engine.pending(), false);
+  assertEquals(engine.list().map((a) => [a.id, a.startedAt, a.resolvedAt]), [
+    ["hot:c1", 0, null],
+  ]);
+  assertEquals(
+    activeAlertSeverityByConnection(engine.list()).get("c1"),
+    "warning",
+  );
+
+  assertEquals(
+    engine.evaluate([{ connectionId: "c1", utilization: 0.5 }], 12_000),
+    true,
+  );
+  assertEquals(engine.list()[0].resolvedAt, 12_000);
+  assertEquals(activeAlertSeverityByConnection(engine.list()).size, 0);
+});
+
+Deno.test("alerts: flapping counts status changes inside the window", () => {
+  const engine = createAlertEngine({
+    rules: [{
+      id: "flap",
+      kind: "flapping",
+      changes: 3,
+      withinSeconds: 60,
+      severity: "warning",
+    }],
+  });
+  const up = [{ connectionId: "c1", status: "up" }];
+  const down = [{ connectionId: "c1", status: "down" }];
+
+  engine.evaluate(up, 0);
+  engine.evaluate(down, 10_000);
+  engine.evaluate(up, 20_000);
+  assertEquals(engine.list(), []);
+  assertEquals(engine.evaluate(down, 30_000), true);
+  assertEquals(engine.list()[0].message, "Flapped 3 times in 60s");
+
+  // Old changes age out of the window and the alert resolves.
+  assertEquals(engine.evaluate(down, 85_000), true);
+  assertEquals(engine.list()[0].resolvedAt, 85_000);
+});
+
+Deno.test("alerts: parseAlertRules skips bad rules and fills defaults", () => {
+  assertEquals(parseAlertRules(null), null);
+  assertEquals(parseAlertRules({ rules: "nope" }), null);
+  assertEquals(
+    parseAlertRules({
+      rules: [
+        { kind: "down" },
+        { kind: "utilization" },
+        { kind: "unknown" },
+        { id: "f", kind: "flapping", changes: 1, severity: "loud" },
+      ],
+    }),
+    [
+      { id: "down-1", kind: "down", forSeconds: 0, severity: "critical" },
+      {
+        id: "f",
+        kind: "flapping",
+        changes: 2,
+        withinSeconds: 60,
+        severity: "warning",
+      },
+    ],
+  );
+  assertEquals(DEFAULT_ALERT_RULES.length, 2);
+});
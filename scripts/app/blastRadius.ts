@@ -0,0 +1,85 @@
+import { buildAdjacency } from "../lib/graph/adjacency.ts";
+import { computeBlastRadius } from "../lib/graph/blastRadius.ts";
+import {
+  tierDeviceIds,
+  TIERED_TIER_NAMES,
+  type TieredTierName,
+} from "../domain/layoutHints.ts";
+import type { State } from "./types.ts";
+
+// Tiers that can serve as the "must still reach" side of the analysis.
+export const BLAST_RADIUS_ROOT_TIERS: readonly TieredTierName[] =
+  TIERED_TIER_NAMES.filter((t) => t !== "endpoint" && t !== "unknown");
+
+export const isBlastRadiusRootTier = (v: string): v is TieredTierName =>
+  (BLAST_RADIUS_ROOT_TIERS as readonly string[]).includes(v);
+
+export type BlastRadiusResult = {
+  rootTier: TieredTierName;
+  rootIds: string[];
+  // What is assumed to fail: the selected device, or every link directly
+  // between two selected devices.
+  failedDeviceIds: string[];
+  failedConnectionIds: string[];
+  disconnectedIds: string[];
+};
+
+// Blast radius of the current selection against `state.blastRadiusRoot`, or
+// null when the analysis is off or the selection is not one device or one
+// directly connected pair.
+export const selectBlastRadius = (state: State): BlastRadiusResult | null => {
+  const rootTier = state.blastRadiusRoot;
+  if (!isBlastRadiusRootTier(rootTier)) return null;
+
+  const selected = Array.from(state.selected);
+  let failedDeviceIds: string[] = [];
+  let failedConnectionIds: string[] = [];
+  if (selected.length === 1) {
+    failedDeviceIds = selected;
+  } else if (selected.length === 2) {
+    const [a, b] = selected;
+    failedConnectionIds = state.connections
+      .filter((c) =>
+        (c.from.deviceId === a && c.to.deviceId === b) ||
+        (c.from.deviceId === b && c.to.deviceId === a)
+      )
+      .map((c) => c.id);
+    if (!failedConnectionIds.length) return null;
+  } else {
+    return null;
+  }
+
+  const rootIds = tierDeviceIds(state.devices, rootTier);
+  const { disconnected } = computeBlastRadius(
+    buildAdjacency(state.connections),
+    rootIds,
+    { deviceIds: failedDeviceIds, connectionIds: failedConnectionIds },
+  );
+  return {
+    rootTier,
+    rootIds,
+    failedDeviceIds,
+    failedConnectionIds,
+    disconnectedIds: disconnected,
+  };
+};
+
+// `selectBlastRadius` memoized for callers that run on every dispatch. Its
+// inputs are replaced by reference whenever they change.
+export const createBlastRadiusSelector = () => {
+  let lastInput: unknown[] | null = null;
+  let lastResult: BlastRadiusResult | null = null;
+  return (state: State): BlastRadiusResult | null => {
+    const input = [
+      state.devices,
+      state.connections,
+      state.selected,
+      state.blastRadiusRoot,
+    ];
+    if (!lastInput || input.some((v, i) => v !== lastInput![i])) {
+      lastInput = input;
+      lastResult = selectBlastRadius(state);
+    }
+    return lastResult;
+  };
+};
@@ -4,9 +4,15 @@ import { LAYOUTS } from "../layouts/registry.ts";
 import { CUSTOM_NETWORK_ID } from "./customTopology.ts";
 import { createController } from "./controller.ts";
 import { createStore, type State } from "./state.ts";
+import { emptyTrafficDiagnostics } from "./trafficDiagnostics.ts";
 import { BUILDER_DEVICE_DRAG_MIME, createControls } from "../ui/controls.ts";
 import { createSearchPanel } from "../ui/searchPanel.ts";
 import { createSelectedPanel } from "../ui/selectedPanel.ts";
+import { createAlertsPanel } from "../ui/alertsPanel.ts";
+import { createEventLogPanel } from "../ui/eventLogPanel.ts";
+import { createDiagnosticsPanel } from "../ui/diagnosticsPanel.ts";
+import { createPathExplorerPanel } from "../ui/pathExplorerPanel.ts";
+import { createCapacityPanel } from "../ui/capacityPanel.ts";
 import type { SortDir, SortKey } from "../search.ts";
 import { loadData, loadJson } from "../dataLoader.ts";
 import {
@@ -288,10 +294,22 @@ export function bootstrap(doc: Document) {
     devices: [],
     connections: [],
     traffic: [],
+    deviceStatus: [],
+    trafficHistoryRange: null,
+    trafficScrubMs: null,
+    alerts: [],
+    events: [],
     deviceTypes: {},
     trafficSourceKind: "default",
     trafficVizKind: "classic",
     layoutKind: "force",
+    blastRadiusRoot: "",
+    resilienceOverlay: false,
+    failedDeviceIds: new Set<string>(),
+    failedConnectionIds: new Set<string>(),
+    trafficRecording: false,
+    trafficPlayback: null,
+    trafficDiagnostics: emptyTrafficDiagnostics(),
     ...persistedSettings,
   };
 
@@ -326,6 +344,16 @@ export function bootstrap(doc: Document) {
     "flowSpeedMultiplierValue",
   );
   const layoutSelect = mustGetById<HTMLSelectElement>(doc, "layoutSelect");
+  const trafficScrubInput = mustGetById<HTMLInputElement>(doc, "trafficScrub");
+  const trafficScrubValue = mustGetById<HTMLOutputElement>(
+    doc,
+    "trafficScrubValue",
+  );
+  const trafficLiveBtn = mustGetById<HTMLButtonElement>(doc, "trafficLive");
+  const resilienceOverlayToggle = mustGetById<HTMLInputElement>(
+    doc,
+    "resilienceOverlay",
+  );
 
   const searchInput = mustGetById<HTMLInputElement>(doc, "searchInput");
   const searchShell = mustGetById<HTMLElement>(doc, "searchShell");
@@ -475,6 +503,18 @@ export function bootstrap(doc: Document) {
   void controller.setFlowSpeedMultiplier(flowSpeedMultiplier);
   controller.setDisplaySettings(displaySettings);
 
+  const downloadJson = (json: string, filename: string) => {
+    const blob = new Blob([json], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const anchor = doc.createElement("a");
+    anchor.href = url;
+    anchor.download = filename;
+    doc.body.appendChild(anchor);
+    anchor.click();
+    doc.body.removeChild(anchor);
+    URL.revokeObjectURL(url);
+  };
+
   const controls = createControls({
     statusEl,
     networkSelect,
@@ -482,6 +522,40 @@ export function bootstrap(doc: Document) {
     trafficSourceSelect,
     trafficVizSelect,
     layoutSelect,
+    trafficScrubInput,
+    trafficScrubValue,
+    trafficLiveBtn,
+    trafficPlaybackField: mustGetById<HTMLElement>(doc, "trafficPlaybackField"),
+    trafficPlaybackPauseBtn: mustGetById<HTMLButtonElement>(
+      doc,
+      "trafficPlaybackPause",
+    ),
+    trafficPlaybackStepBtn: mustGetById<HTMLButtonElement>(
+      doc,
+      "trafficPlaybackStep",
+    ),
+    trafficPlaybackSeekInput: mustGetById<HTMLInputElement>(
+      doc,
+      "trafficPlaybackSeek",
+    ),
+    trafficPlaybackValue: mustGetById<HTMLOutputElement>(
+      doc,
+      "trafficPlaybackValue",
+    ),
+    trafficRecordBtn: mustGetById<HTMLButtonElement>(doc, "trafficRecord"),
+    trafficReplayOpenBtn: mustGetById<HTMLButtonElement>(
+      doc,
+      "trafficReplayOpen",
+    ),
+    trafficReplayInput: mustGetById<HTMLInputElement>(
+      doc,
+      "trafficReplayInput",
+    ),
+    trafficReplayExitBtn: mustGetById<HTMLButtonElement>(
+      doc,
+      "trafficReplayExit",
+    ),
+    resilienceOverlayToggle,
     builderWorkflowSelect,
     createEditBtn,
     builderOverlay: builderOverlayEl,
@@ -522,6 +596,22 @@ export function bootstrap(doc: Document) {
     onTrafficSourceChanged: (kind) => controller.setTrafficSourceKind(kind),
     onLayoutChanged: (kind) => controller.setLayoutKind(kind),
     onTrafficVizChanged: (kind) => controller.setTrafficVizKind(kind),
+    onTrafficScrub: (atMs) => controller.scrubTraffic(atMs),
+    onTrafficLive: () => controller.scrubTraffic(null),
+    onStartTrafficRecording: () => controller.startTrafficRecording(),
+    onStopTrafficRecording: () => {
+      const json = controller.stopTrafficRecording();
+      if (json) downloadJson(json, "traffic-recording.json");
+    },
+    onReplayTrafficRecording: (text) => controller.replayTrafficRecording(text),
+    onExitTrafficReplay: () => void controller.exitTrafficReplay(),
+    onTrafficPlaybackPaused: (paused) =>
+      void controller.setTrafficPlaybackPaused(paused),
+    onTrafficPlaybackStep: () => controller.stepTrafficPlayback(),
+    onTrafficPlaybackSeek: (positionSec) =>
+      void controller.seekTrafficPlayback(positionSec),
+    onResilienceOverlayChanged: (enabled) =>
+      controller.dispatch({ type: "setResilienceOverlay", enabled }),
     onOpenBuilderMode: async (workflow, sourceNetworkId) => {
       if (workflow === "new") {
         await controller.startBuilderFromBlank();
@@ -587,17 +677,7 @@ export function bootstrap(doc: Document) {
       })();
     },
     onExportTopology: () => {
-      const blob = new Blob([controller.exportTopologyJson()], {
-        type: "application/json",
-      });
-      const url = URL.createObjectURL(blob);
-      const anchor = doc.createElement("a");
-      anchor.href = url;
-      anchor.download = "topology.json";
-      doc.body.appendChild(anchor);
-      anchor.click();
-      doc.body.removeChild(anchor);
-      URL.revokeObjectURL(url);
+      downloadJson(controller.exportTopologyJson(), "topology.json");
     },
     onImportTopology: async (text) => {
       await controller.importCustomTopologyJson(text);
@@ -635,6 +715,52 @@ export function bootstrap(doc: Document) {
     onUpdateDeviceProperties: (deviceId, propertiesJson) =>
       controller.updateCustomDeviceProperties(deviceId, propertiesJson),
     onDeleteDevice: (deviceId) => controller.deleteCustomDevice(deviceId),
+    getConnectionHistory: (connectionId) =>
+      controller.getConnectionHistory(connectionId),
+    blastRadiusRootSelect: mustGetById<HTMLSelectElement>(
+      doc,
+      "blastRadiusRoot",
+    ),
+    onToggleFailure: (kind, id) => controller.toggleFailure(kind, id),
+    onClearFailures: () => controller.clearFailures(),
+  });
+
+  const alertsPanel = createAlertsPanel({
+    alertsList: mustGetById<HTMLElement>(doc, "alertsList"),
+    alertsSummary: mustGetById<HTMLElement>(doc, "alertsSummary"),
+    onSelectConnection: (connectionId) =>
+      controller.selectConnection(connectionId),
+  });
+
+  const pathExplorerPanel = createPathExplorerPanel({
+    panel: mustGetById<HTMLElement>(doc, "pathExplorerPanel"),
+    modeSelect: mustGetById<HTMLSelectElement>(doc, "pathExplorerMode"),
+    prevBtn: mustGetById<HTMLButtonElement>(doc, "pathExplorerPrev"),
+    nextBtn: mustGetById<HTMLButtonElement>(doc, "pathExplorerNext"),
+    summary: mustGetById<HTMLElement>(doc, "pathExplorerSummary"),
+    list: mustGetById<HTMLElement>(doc, "pathExplorerList"),
+    explorePaths: (fromId, toId) => controller.explorePaths(fromId, toId),
+    onFocusPath: (path) => controller.focusPath(path),
+  });
+
+  const capacityPanel = createCapacityPanel({
+    summary: mustGetById<HTMLElement>(doc, "capacitySummary"),
+    list: mustGetById<HTMLElement>(doc, "capacityList"),
+    planCapacity: () => controller.planCapacity(),
+    dispatch: store.dispatch,
+  });
+
+  const eventLogPanel = createEventLogPanel({
+    eventLogList: mustGetById<HTMLElement>(doc, "eventLogList"),
+    eventLogFilter: mustGetById<HTMLSelectElement>(doc, "eventLogFilter"),
+    dispatch: store.dispatch,
+  });
+
+  const diagnosticsPanel = createDiagnosticsPanel({
+    diagnosticsList: mustGetById<HTMLElement>(doc, "diagnosticsList"),
+    diagnosticsSummary: mustGetById<HTMLElement>(doc, "diagnosticsSummary"),
+    diagnosticsCounts: mustGetById<HTMLElement>(doc, "diagnosticsCounts"),
+    dispatch: store.dispatch,
   });
 
   const panelWidths = loadPersistedPanelWidths(storage);
@@ -1021,6 +1147,11 @@ export function bootstrap(doc: Document) {
     controls.render(state);
     searchPanel.render(state);
     selectedPanel.render(state);
+    alertsPanel.render(state);
+    pathExplorerPanel.render(state);
+    capacityPanel.render(state);
+    eventLogPanel.render(state);
+    diagnosticsPanel.render(state);
   };
 
   // Initial paint and subsequent updates.
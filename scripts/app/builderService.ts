@@ -106,6 +106,18 @@ export const createBuilderService = (
     deps.history.pushUndo(deps.createHistorySnapshot(label));
   };
 
+  // Successful edits go to the status line and the event log.
+  const reportEdit = (
+    text: string,
+    ref: { deviceId?: string; connectionId?: string } = {},
+  ) => {
+    deps.dispatch({ type: "setStatusText", text });
+    deps.dispatch({
+      type: "logEvents",
+      events: [{ at: Date.now(), kind: "builder", message: text, ...ref }],
+    });
+  };
+
   const requireCustomMode = (): State | null => {
     const state = deps.getState();
     if (state.networkId === deps.customNetworkId) return state;
@@ -234,7 +246,7 @@ export const createBuilderService = (
     deps.refreshCustomGraph(nextDevices, nextConnections, {
       selectedIds: [device.id],
     });
-    deps.dispatch({ type: "setStatusText", text: statusText });
+    reportEdit(statusText, { deviceId: device.id });
   };
 
   const addCustomDevice = (deviceTypeSlug: string) => {
@@ -275,7 +287,7 @@ export const createBuilderService = (
     deps.refreshCustomGraph([...state.devices, container], state.connections, {
       selectedIds: [containerId],
     });
-    deps.dispatch({ type: "setStatusText", text: `Added ${container.name}.` });
+    reportEdit(`Added ${container.name}.`, { deviceId: containerId });
   };
 
   const groupSelectedDevices = () => {
@@ -361,10 +373,10 @@ export const createBuilderService = (
       state.connections,
       { selectedIds: [containerId] },
     );
-    deps.dispatch({
-      type: "setStatusText",
-      text: `Grouped ${positioned.length} device(s) into ${container.name}.`,
-    });
+    reportEdit(
+      `Grouped ${positioned.length} device(s) into ${container.name}.`,
+      { deviceId: containerId },
+    );
   };
 
   const assignDeviceToContainer = (
@@ -419,12 +431,12 @@ export const createBuilderService = (
     deps.refreshCustomGraph(nextDevices, state.connections, {
       selectedIds: [deviceId],
     });
-    deps.dispatch({
-      type: "setStatusText",
-      text: nextContainerId
+    reportEdit(
+      nextContainerId
         ? `Assigned ${device.name} to container.`
         : `Removed ${device.name} from container.`,
-    });
+      { deviceId },
+    );
   };
 
   const updateContainerGeometry = (
@@ -538,10 +550,7 @@ export const createBuilderService = (
         : "delete selected devices",
     );
     deps.refreshCustomGraph(nextDevices, nextConnections);
-    deps.dispatch({
-      type: "setStatusText",
-      text: `Deleted ${selectedDevices.length} device(s).`,
-    });
+    reportEdit(`Deleted ${selectedDevices.length} device(s).`);
   };
 
   const connectSelectedDevices = () => {
@@ -607,11 +616,10 @@ export const createBuilderService = (
     ];
 
     deps.refreshCustomGraph(state.devices, nextConnections);
-    deps.dispatch({
-      type: "setStatusText",
-      text:
-        `Connected ${fromDevice.name}:${pair.fromInterfaceId} → ${toDevice.name}:${pair.toInterfaceId}.`,
-    });
+    reportEdit(
+      `Connected ${fromDevice.name}:${pair.fromInterfaceId} → ${toDevice.name}:${pair.toInterfaceId}.`,
+      { connectionId },
+    );
   };
 
   const deleteSelectedConnection = () => {
@@ -649,11 +657,9 @@ export const createBuilderService = (
       !removeIds.has(connection.id)
     );
     deps.refreshCustomGraph(state.devices, nextConnections);
-    deps.dispatch({
-      type: "setStatusText",
-      text:
-        `Deleted ${toRemove.length} connection(s) between selected devices.`,
-    });
+    reportEdit(
+      `Deleted ${toRemove.length} connection(s) between selected devices.`,
+    );
   };
 
   const renameCustomDevice = (deviceId: string, nextName: string) => {
@@ -685,10 +691,7 @@ export const createBuilderService = (
       device.id === deviceId ? { ...device, name: trimmed } : device
     );
     deps.refreshCustomGraph(nextDevices, state.connections);
-    deps.dispatch({
-      type: "setStatusText",
-      text: `Renamed device to ${trimmed}.`,
-    });
+    reportEdit(`Renamed device to ${trimmed}.`, { deviceId });
   };
 
   const changeCustomDeviceType = (
@@ -757,12 +760,12 @@ export const createBuilderService = (
 
     const baseText =
       `Updated ${existing.name} to ${nextDeviceType.brand} ${nextDeviceType.model}.`;
-    deps.dispatch({
-      type: "setStatusText",
-      text: removedCount > 0
+    reportEdit(
+      removedCount > 0
         ? `${baseText} Removed ${removedCount} incompatible connection(s).`
         : baseText,
-    });
+      { deviceId },
+    );
   };
 
   const updateCustomDeviceProperties = (
@@ -838,10 +841,7 @@ export const createBuilderService = (
     deps.refreshCustomGraph(nextDevices, state.connections, {
       selectedIds: [deviceId],
     });
-    deps.dispatch({
-      type: "setStatusText",
-      text: `Updated properties for ${existing.name}.`,
-    });
+    reportEdit(`Updated properties for ${existing.name}.`, { deviceId });
   };
 
   const deleteCustomDevice = (deviceId: string) => {
@@ -866,11 +866,9 @@ export const createBuilderService = (
     );
 
     deps.refreshCustomGraph(nextDevices, nextConnections);
-    deps.dispatch({
-      type: "setStatusText",
-      text:
-        `Deleted ${device.name} and ${removedConnections.length} linked connection(s).`,
-    });
+    reportEdit(
+      `Deleted ${device.name} and ${removedConnections.length} linked connection(s).`,
+    );
   };
 
   const exportTopologyJson = () => {
@@ -889,10 +887,7 @@ export const createBuilderService = (
       const parsed = parseImportPayload(text, state.deviceTypes);
       deps.history.clear();
       deps.refreshCustomGraph(parsed.devices, parsed.connections);
-      deps.dispatch({
-        type: "setStatusText",
-        text: "Imported custom topology.",
-      });
+      reportEdit("Imported custom topology.");
     } catch (err) {
       deps.dispatch({
         type: "setStatusText",
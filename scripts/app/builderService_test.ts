@@ -4,6 +4,7 @@ import { DEVICE_KIND_SWITCH } from "../domain/deviceKind.ts";
 import type { DeviceType, NetworkDevice } from "../domain/types.ts";
 import type { Action } from "./actions.ts";
 import type { State } from "./types.ts";
+import { emptyTrafficDiagnostics } from "./trafficDiagnostics.ts";
 
 const createBaseState = (partial?: Partial<State>): State => ({
   networkId: "small-office",
@@ -17,10 +18,22 @@ const createBaseState = (partial?: Partial<State>): State => ({
   devices: [],
   connections: [],
   traffic: [],
+  deviceStatus: [],
+  trafficHistoryRange: null,
+  trafficScrubMs: null,
+  alerts: [],
+  events: [],
   deviceTypes: {},
   trafficSourceKind: "default",
   trafficVizKind: "classic",
   layoutKind: "force",
+  blastRadiusRoot: "",
+  resilienceOverlay: false,
+  failedDeviceIds: new Set<string>(),
+  failedConnectionIds: new Set<string>(),
+  trafficRecording: false,
+  trafficPlayback: null,
+  trafficDiagnostics: emptyTrafficDiagnostics(),
   ...partial,
 });
 
@@ -0,0 +1,182 @@
+import { buildCapacityByConnectionId } from "../traffic/capacity.ts";
+import { interfaceTypeCapacityMbps } from "../domain/interfaceTypes.ts";
+import {
+  TIERED_TIER_NAMES,
+  TIERED_TIER_SWITCH_SENTINEL,
+} from "../domain/layoutHints.ts";
+import { peakUtilization } from "../domain/traffic.ts";
+import type {
+  Connection,
+  ConnectionEnd,
+  DeviceType,
+  NetworkDevice,
+  TrafficUpdate,
+} from "../domain/types.ts";
+import { CAPACITY_PLANNING } from "../config.ts";
+
+// Tiers whose devices aggregate downstream links onto uplinks.
+const PLANNED_TIERS = ["core", "agg"] as const;
+export type PlannedTier = (typeof PLANNED_TIERS)[number];
+
+export type OversubscriptionRow = {
+  deviceId: string;
+  tier: PlannedTier;
+  upstreamMbps: number;
+  downstreamMbps: number;
+  // Downstream over upstream capacity; null without a known uplink capacity.
+  ratio: number | null;
+  // Links of the device whose capacity is unknown (left out of both sums).
+  unknownLinks: number;
+  // Busiest uplink over the recorded traffic (null without traffic).
+  peakUplinkUtilization: number | null;
+};
+
+export type LinkLoad = {
+  connectionId: string;
+  fromId: string;
+  toId: string;
+  capacityMbps: number | null;
+  peakUtilization: number;
+};
+
+export type CapacityPlan = {
+  devices: OversubscriptionRow[];
+  // Links whose peak utilization reached the saturation level, busiest first.
+  saturatedLinks: LinkLoad[];
+  saturationUtilization: number;
+};
+
+// Raises `peaks` to the busier direction of each update.
+export const mergePeakUtilization = (
+  peaks: Map<string, number>,
+  traffic: Iterable<TrafficUpdate>,
+): Map<string, number> => {
+  for (const t of traffic) {
+    const util = peakUtilization(t);
+    if (util == null) continue;
+    peaks.set(t.connectionId, Math.max(peaks.get(t.connectionId) ?? 0, util));
+  }
+  return peaks;
+};
+
+// Capacity of a link: its `connectionType`, or else the slower of the two
+// port speeds known from the device types' `interfaceType`.
+const buildLinkCapacity = (
+  {
+    devices,
+    connections,
+    connectionTypes,
+    deviceTypes,
+  }: {
+    devices: NetworkDevice[];
+    connections: Connection[];
+    connectionTypes: unknown;
+    deviceTypes: Record<string, DeviceType>;
+  },
+): Map<string, number> => {
+  const capacity = buildCapacityByConnectionId(connections, connectionTypes);
+  const slugById = new Map(devices.map((d) => [d.id, d.deviceTypeSlug]));
+
+  const portSpeed = (end: ConnectionEnd): number | null => {
+    const slug = slugById.get(end.deviceId);
+    const port = slug && end.interfaceId
+      ? deviceTypes[slug]?.ports.find((p) => p.id === end.interfaceId)
+      : undefined;
+    return interfaceTypeCapacityMbps(port?.interfaceType);
+  };
+
+  connections.forEach((c) => {
+    if (capacity.has(c.id)) return;
+    const speeds = [portSpeed(c.from), portSpeed(c.to)]
+      .filter((s): s is number => s != null);
+    if (speeds.length) capacity.set(c.id, Math.min(...speeds));
+  });
+  return capacity;
+};
+
+// Devices with a "switch" role hint or no recognizable role sit below any
+// planned tier.
+const tierRank = (hint: unknown): number =>
+  typeof hint !== "number" || hint === TIERED_TIER_SWITCH_SENTINEL
+    ? TIERED_TIER_NAMES.length
+    : hint;
+
+export const planCapacity = (
+  input: {
+    devices: NetworkDevice[];
+    connections: Connection[];
+    connectionTypes: unknown;
+    deviceTypes: Record<string, DeviceType>;
+    peakUtilization: Map<string, number>;
+  },
+  saturationUtilization: number = CAPACITY_PLANNING.saturationUtilization,
+): CapacityPlan => {
+  const { devices, connections, peakUtilization: peaks } = input;
+  const capacityById = buildLinkCapacity(input);
+  const rankById = new Map(
+    devices.map((d) => [d.id, tierRank(d.layoutTierIndexHint)]),
+  );
+
+  const rows: OversubscriptionRow[] = [];
+  devices.forEach((d) => {
+    const rank = rankById.get(d.id)!;
+    const tier = TIERED_TIER_NAMES[rank];
+    if (!PLANNED_TIERS.includes(tier as PlannedTier)) return;
+
+    let upstreamMbps = 0;
+    let downstreamMbps = 0;
+    let unknownLinks = 0;
+    let peakUplinkUtilization: number | null = null;
+    connections.forEach((c) => {
+      if (c.from.deviceId !== d.id && c.to.deviceId !== d.id) return;
+      const otherId = c.from.deviceId === d.id
+        ? c.to.deviceId
+        : c.from.deviceId;
+      const otherRank = rankById.get(otherId) ?? TIERED_TIER_NAMES.length;
+      // Links to peers in the same tier are neither up nor down.
+      if (otherRank === rank) return;
+
+      const cap = capacityById.get(c.id);
+      if (cap == null) {
+        unknownLinks += 1;
+        return;
+      }
+      if (otherRank > rank) {
+        downstreamMbps += cap;
+        return;
+      }
+      upstreamMbps += cap;
+      const peak = peaks.get(c.id);
+      if (peak != null) {
+        peakUplinkUtilization = Math.max(peakUplinkUtilization ?? 0, peak);
+      }
+    });
+
+    rows.push({
+      deviceId: d.id,
+      tier: tier as PlannedTier,
+      upstreamMbps,
+      downstreamMbps,
+      ratio: upstreamMbps > 0 ? downstreamMbps / upstreamMbps : null,
+      unknownLinks,
+      peakUplinkUtilization,
+    });
+  });
+
+  const saturatedLinks: LinkLoad[] = connections
+    .filter((c) => (peaks.get(c.id) ?? 0) >= saturationUtilization)
+    .map((c) => ({
+      connectionId: c.id,
+      fromId: c.from.deviceId,
+      toId: c.to.deviceId,
+      capacityMbps: capacityById.get(c.id) ?? null,
+      peakUtilization: peaks.get(c.id)!,
+    }))
+    .sort((a, b) => b.peakUtilization - a.peakUtilization);
+
+  return {
+    devices: rows.sort((a, b) => (b.ratio ?? 0) - (a.ratio ?? 0)),
+    saturatedLinks,
+    saturationUtilization,
+  };
+};
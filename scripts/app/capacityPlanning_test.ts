@@ -0,0 +1,127 @@
+import { assertEquals } from "@std/assert";
+import { DEVICE_KIND_SWITCH } from "../domain/deviceKind.ts";
+import { TIERED_TIER_NAMES } from "../domain/layoutHints.ts";
+import type { Connection, DeviceType, NetworkDevice } from "../domain/types.ts";
+import { mergePeakUtilization, planCapacity } from "./capacityPlanning.ts";
+
+const mkDevice = (
+  id: string,
+  tier: string,
+  deviceTypeSlug?: string,
+): NetworkDevice => ({
+  id,
+  name: id.toUpperCase(),
+  type: "switch",
+  deviceKind: DEVICE_KIND_SWITCH,
+  layoutTierIndexHint: TIERED_TIER_NAMES.indexOf(
+    tier as (typeof TIERED_TIER_NAMES)[number],
+  ),
+  ...(deviceTypeSlug ? { deviceTypeSlug } : {}),
+});
+
+const mkLink = (
+  id: string,
+  a: string,
+  b: string,
+  connectionType?: string,
+): Connection => ({
+  id,
+  from: { deviceId: a, interfaceId: "p1" },
+  to: { deviceId: b, interfaceId: "p1" },
+  ...(connectionType ? { connectionType } : {}),
+});
+
+const connectionTypes = {
+  "eth-1g": { capacityMbps: 1000 },
+  "eth-10g": { capacityMbps: 10000 },
+};
+
+const deviceTypes: Record<string, DeviceType> = {
+  "acme/sw": {
+    id: "acme/sw",
+    slug: "acme/sw",
+    brand: "Acme",
+    model: "SW",
+    ports: [{ id: "p1", interfaceType: "eth-2.5g" }],
+  },
+};
+
+// edge - core (10G), core - core-b peer (10G), core - agg (10G);
+// agg serves three access switches, one over an untyped 2.5G port pair; core
+// also has an untyped link to a lab device without a device type.
+const devices = [
+  mkDevice("edge", "edge"),
+  mkDevice("core", "core"),
+  mkDevice("core-b", "core"),
+  mkDevice("agg", "agg", "acme/sw"),
+  mkDevice("acc-1", "access"),
+  mkDevice("acc-2", "access"),
+  mkDevice("acc-3", "access", "acme/sw"),
+  mkDevice("lab", "unknown"),
+];
+const connections = [
+  mkLink("e-c", "edge", "core", "eth-10g"),
+  mkLink("c-cb", "core", "core-b", "eth-10g"),
+  mkLink("c-a", "core", "agg", "eth-10g"),
+  mkLink("a-1", "agg", "acc-1", "eth-1g"),
+  mkLink("a-2", "agg", "acc-2", "eth-1g"),
+  mkLink("a-3", "agg", "acc-3"),
+  mkLink("c-lab", "core", "lab"),
+];
+
+Deno.test("capacityPlanning: ratios use connection types and port speeds", () => {
+  const plan = planCapacity({
+    devices,
+    connections,
+    connectionTypes,
+    deviceTypes,
+    peakUtilization: new Map(),
+  });
+
+  const byId = new Map(plan.devices.map((d) => [d.deviceId, d]));
+  assertEquals(byId.get("agg"), {
+    deviceId: "agg",
+    tier: "agg",
+    upstreamMbps: 10000,
+    downstreamMbps: 4500,
+    ratio: 0.45,
+    unknownLinks: 0,
+    peakUplinkUtilization: null,
+  });
+  // The core peer link counts neither way; neither end of the lab link has a
+  // device type, so its speed is unknown.
+  assertEquals(byId.get("core")?.downstreamMbps, 10000);
+  assertEquals(byId.get("core")?.unknownLinks, 1);
+  assertEquals(byId.get("core")?.ratio, 1);
+  assertEquals(byId.get("core-b")?.ratio, null);
+  assertEquals(plan.saturatedLinks, []);
+});
+
+Deno.test("capacityPlanning: flags links whose peak reaches saturation", () => {
+  const peaks = mergePeakUtilization(new Map(), [
+    { connectionId: "c-a", utilization: 0.4 },
+    { connectionId: "a-1", utilization: 0.95 },
+    {
+      connectionId: "c-a",
+      aToB: { utilization: 0.2 },
+      bToA: { utilization: 0.85 },
+    },
+    { connectionId: "a-2", utilization: 0.5 },
+  ]);
+  assertEquals(peaks.get("c-a"), 0.85);
+
+  const plan = planCapacity(
+    {
+      devices,
+      connections,
+      connectionTypes,
+      deviceTypes,
+      peakUtilization: peaks,
+    },
+    0.8,
+  );
+  assertEquals(plan.saturatedLinks.map((l) => l.connectionId), ["a-1", "c-a"]);
+  assertEquals(plan.saturatedLinks[0].capacityMbps, 1000);
+  const agg = plan.devices.find((d) => d.deviceId === "agg");
+  assertEquals(agg?.peakUplinkUtilization, 0.85);
+});
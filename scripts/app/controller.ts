@@ -2,15 +2,15 @@ import {
   loadData as defaultLoadData,
   loadJson as defaultLoadJson,
 } from "../dataLoader.ts";
-import { buildAdjacency } from "../lib/graph/adjacency.ts";
+import { type Adjacency, buildAdjacency } from "../lib/graph/adjacency.ts";
 import { createGraph } from "../graph.ts";
 import {
   createTrafficConnector,
   parseTrafficConnectorSpec,
 } from "../traffic/registry.ts";
+import { parseTrafficRecording } from "../traffic/recording.ts";
 import type { Connection, DeviceType, NetworkDevice } from "../domain/types.ts";
 import { FixtureValidationError } from "../domain/errors.ts";
-import { parseTrafficUpdatesPayload } from "../domain/fixtures.ts";
 import { loadDeviceTypeIndex as defaultLoadDeviceTypeIndex } from "../domain/deviceTypes.ts";
 import {
   CUSTOM_NETWORK_ID,
@@ -28,19 +28,31 @@ import {
 import {
   type Dispatch,
   getFilteredDevices,
+  selectDeviceHealth,
   type State,
   type Store,
 } from "./state.ts";
 import { createBuilderService } from "./builderService.ts";
 import { createCustomHistoryService } from "./historyService.ts";
 import { createTrafficService } from "./trafficService.ts";
+import type { TrafficHistorySample } from "./trafficHistory.ts";
+import { activeAlertSeverityByConnection } from "./alerts.ts";
+import { checkTrafficPayload } from "./trafficDiagnostics.ts";
+import { createBlastRadiusSelector } from "./blastRadius.ts";
+import { createResilienceSelector } from "./resilience.ts";
+import { createWhatIfSelector } from "./whatIf.ts";
+import {
+  type ExploredPath,
+  explorePaths,
+  type PathExploration,
+} from "./pathExplorer.ts";
+import {
+  type CapacityPlan,
+  mergePeakUtilization,
+  planCapacity,
+} from "./capacityPlanning.ts";
 import { GRAPH_DEFAULTS } from "../config.ts";
 
-type Adjacency = Record<
-  string,
-  Array<{ neighbor: string; connectionId: string }>
->;
-
 const formatStatusError = (err: unknown): string => {
   if (err instanceof FixtureValidationError) return err.message;
   if (err instanceof Error) return err.message;
@@ -122,7 +134,23 @@ export type Controller = {
   setDisplaySettings: (settings: ControllerDisplaySettings) => void;
   setLayoutKind: (kind: string) => void;
   setTrafficVizKind: (kind: string) => void;
+  scrubTraffic: (atMs: number | null) => void;
+  startTrafficRecording: () => void;
+  // The recording as a timeline file, or null when nothing was recording.
+  stopTrafficRecording: () => string | null;
+  replayTrafficRecording: (text: string) => void;
+  exitTrafficReplay: () => Promise<void>;
+  setTrafficPlaybackPaused: (paused: boolean) => Promise<void>;
+  stepTrafficPlayback: () => void;
+  seekTrafficPlayback: (positionSec: number) => Promise<void>;
+  getConnectionHistory: (connectionId: string) => TrafficHistorySample[];
   clearSelection: () => void;
+  selectConnection: (connectionId: string) => void;
+  toggleFailure: (kind: "device" | "connection", id: string) => Promise<void>;
+  clearFailures: () => Promise<void>;
+  explorePaths: (fromId: string, toId: string) => PathExploration;
+  focusPath: (path: ExploredPath | null) => void;
+  planCapacity: () => CapacityPlan;
   dispatch: Dispatch;
 };
 
@@ -149,6 +177,7 @@ export function createController(
   const storage = deps?.storage;
 
   let adjacency: Adjacency = {};
+  let connectionTypes: unknown = null;
   let graph: ReturnType<typeof createGraph> | null = null;
   let resizeObserver: ResizeObserver | null = null;
   let trafficSpeedMultiplier = 1;
@@ -206,6 +235,17 @@ export function createController(
     });
   };
 
+  // Link capacities feed the default path cost used for highlighting. A
+  // missing file only loses the weighting, so it falls back to no types.
+  const ensureConnectionTypesLoaded = async () => {
+    if (connectionTypes) return;
+    try {
+      connectionTypes = await loadJson("data/connectionTypes.json");
+    } catch {
+      connectionTypes = {};
+    }
+  };
+
   const persistCustomTopology = (
     devices: NetworkDevice[],
     connections: Connection[],
@@ -294,10 +334,41 @@ export function createController(
     customHistory.clear();
   };
 
+  // Path explorer: the focused path replaces the selection's default
+  // highlight.
+  let focusedPath: ExploredPath | null = null;
+  const selectBlastRadius = createBlastRadiusSelector();
+  const selectResilience = createResilienceSelector();
+  const selectWhatIf = createWhatIfSelector();
+
   const updateGraphFromState = (state: State) => {
     if (!graph) return;
     const filteredIds = new Set(getFilteredDevices(state).map((d) => d.id));
-    graph.update({ filteredIds, selected: state.selected });
+    const resilience = state.resilienceOverlay ? selectResilience(state) : null;
+    const whatIf = selectWhatIf(state);
+    graph.update({
+      filteredIds,
+      selected: state.selected,
+      linkAlerts: activeAlertSeverityByConnection(state.alerts),
+      deviceHealth: new Map(
+        Array.from(selectDeviceHealth(state), ([id, d]) => [id, d.health]),
+      ),
+      blastRadius: new Set(selectBlastRadius(state)?.disconnectedIds),
+      focusedPath: focusedPath
+        ? {
+          nodes: new Set(focusedPath.nodes),
+          links: new Set(focusedPath.links),
+        }
+        : undefined,
+      resilience: resilience
+        ? { devices: resilience.articulationPoints, links: resilience.bridges }
+        : undefined,
+      failures: {
+        devices: state.failedDeviceIds,
+        links: whatIf.failedLinks,
+        unreachable: new Set(whatIf.result?.unreachableIds),
+      },
+    });
   };
 
   store.subscribe((state) => {
@@ -314,7 +385,12 @@ export function createController(
     onGraphRefreshFromState: () => updateGraphFromState(store.getState()),
     createTrafficConnectorFn: createTrafficConnector,
     parseTrafficConnectorSpecFn: parseTrafficConnectorSpec,
-    parseTrafficUpdatesPayloadFn: parseTrafficUpdatesPayload,
+    checkTrafficPayloadFn: checkTrafficPayload,
+    getSimulatedFailures: () => ({
+      deviceIds: store.getState().failedDeviceIds,
+      connectionIds: store.getState().failedConnectionIds,
+    }),
+    getConnections: () => store.getState().connections,
   });
 
   const destroyGraph = () => {
@@ -329,7 +405,7 @@ export function createController(
     connections: Connection[],
     viewportTransform: ZoomTransformSnapshot | null = null,
   ) => {
-    adjacency = buildAdjacency(connections) as Adjacency;
+    adjacency = buildAdjacency(connections, { connectionTypes });
 
     graph = createGraph({
       svg: graphSvg,
@@ -418,6 +494,7 @@ export function createController(
 
     const deviceTypes = await ensureDeviceTypesLoaded();
     hydrateBuilderStatsFromStorage(deviceTypes);
+    await ensureConnectionTypesLoaded();
 
     const nextDevices = cloneDevices(devices);
     const nextConnections = cloneConnections(connections);
@@ -463,6 +540,7 @@ export function createController(
         trafficService.setCurrentPaths(null);
         const deviceTypes = await ensureDeviceTypesLoaded();
         const customTopology = hydrateBuilderStatsFromStorage(deviceTypes);
+        await ensureConnectionTypesLoaded();
 
         dispatch({
           type: "networkLoaded",
@@ -490,6 +568,7 @@ export function createController(
           includeTraffic: false,
         },
       );
+      await ensureConnectionTypesLoaded();
 
       dispatch({
         type: "networkLoaded",
@@ -836,6 +915,7 @@ export function createController(
 
   const setTrafficSourceKind = async (kind: string) => {
     dispatch({ type: "setTrafficSourceKind", kind });
+    trafficService.endReplay();
     await trafficService.restartCurrentSource(kind);
   };
 
@@ -845,6 +925,8 @@ export function createController(
       : 1;
     trafficService.setSpeedMultiplier(trafficSpeedMultiplier);
     graph?.setTrafficSpeedMultiplier(trafficSpeedMultiplier);
+    // Clock-driven sources pick up the new speed as they run.
+    if (store.getState().trafficPlayback) return;
     await trafficService.restartCurrentSource(
       store.getState().trafficSourceKind,
     );
@@ -874,11 +956,116 @@ export function createController(
     updateGraphFromState(store.getState());
   };
 
+  const scrubTraffic = (atMs: number | null) => {
+    trafficService.scrubTo(atMs);
+  };
+
+  const startTrafficRecording = () => {
+    trafficService.startRecording();
+    dispatch({ type: "setStatusText", text: "Recording traffic…" });
+  };
+
+  const stopTrafficRecording = () => {
+    const recording = trafficService.stopRecording();
+    dispatch({ type: "setStatusText", text: "" });
+    return recording ? JSON.stringify(recording, null, 2) : null;
+  };
+
+  // Plays a downloaded recording in place of the traffic source until the
+  // replay is exited or another source is picked.
+  const replayTrafficRecording = (text: string) => {
+    try {
+      const recording = parseTrafficRecording(JSON.parse(text));
+      trafficService.startReplay(recording);
+      dispatch({
+        type: "setStatusText",
+        text: recording.source
+          ? `Replaying ${recording.source} traffic recorded ${recording.recordedAt}.`
+          : "Replaying traffic recording.",
+      });
+    } catch (err) {
+      dispatch({
+        type: "setStatusText",
+        text: `Replay failed: ${formatStatusError(err)}`,
+      });
+    }
+  };
+
+  const exitTrafficReplay = async () => {
+    trafficService.endReplay();
+    await trafficService.restartCurrentSource(
+      store.getState().trafficSourceKind,
+    );
+  };
+
   const clearSelection = () => {
     dispatch({ type: "clearSelection" });
     updateGraphFromState(store.getState());
   };
 
+  // Paths between two devices over the links that are up (what-if failures
+  // included).
+  const explorePathsBetween = (fromId: string, toId: string) => {
+    const state = store.getState();
+    const { failedLinks } = selectWhatIf(state);
+    return explorePaths(
+      {
+        connections: state.connections.filter((c) => !failedLinks.has(c.id)),
+        connectionTypes,
+        traffic: state.traffic,
+      },
+      fromId,
+      toId,
+    );
+  };
+
+  const focusPath = (path: ExploredPath | null) => {
+    focusedPath = path;
+    updateGraphFromState(store.getState());
+  };
+
+  // Oversubscription of core/agg devices, with peaks taken over the recorded
+  // traffic history (and the live traffic, which the scrubber may hide).
+  const planCapacityForState = () => {
+    const state = store.getState();
+    const peaks = mergePeakUtilization(new Map(), state.traffic);
+    state.connections.forEach((c) =>
+      mergePeakUtilization(
+        peaks,
+        trafficService.getConnectionHistory(c.id).map((s) => s.traffic),
+      )
+    );
+    return planCapacity({
+      devices: state.devices,
+      connections: state.connections,
+      connectionTypes,
+      deviceTypes: state.deviceTypes,
+      peakUtilization: peaks,
+    });
+  };
+
+  // What-if failures leave the topology alone; flow traffic is re-simulated
+  // around them.
+  const toggleFailure = async (kind: "device" | "connection", id: string) => {
+    dispatch({ type: "toggleFailure", kind, id });
+    await trafficService.applySimulatedFailures();
+  };
+
+  const clearFailures = async () => {
+    dispatch({ type: "clearFailures" });
+    await trafficService.applySimulatedFailures();
+  };
+
+  // Selects both ends so the link and its path are highlighted.
+  const selectConnection = (connectionId: string) => {
+    const connection = store.getState().connections.find((c) =>
+      c.id === connectionId
+    );
+    if (!connection) return;
+    setSelection([connection.from.deviceId, connection.to.deviceId]);
+    updateGraphFromState(store.getState());
+  };
+
   const start = async () => {
     await loadNetwork(store.getState().networkId);
   };
@@ -916,7 +1103,22 @@ export function createController(
     setDisplaySettings,
     setLayoutKind,
     setTrafficVizKind,
+    scrubTraffic,
+    startTrafficRecording,
+    stopTrafficRecording,
+    replayTrafficRecording,
+    exitTrafficReplay,
+    setTrafficPlaybackPaused: trafficService.pausePlayback,
+    stepTrafficPlayback: () => trafficService.stepPlayback(),
+    seekTrafficPlayback: trafficService.seekPlayback,
+    getConnectionHistory: trafficService.getConnectionHistory,
     clearSelection,
+    selectConnection,
+    toggleFailure,
+    clearFailures,
+    explorePaths: explorePathsBetween,
+    focusPath,
+    planCapacity: planCapacityForState,
     dispatch,
   };
 }
@@ -0,0 +1,117 @@
+import type { DeviceStatusUpdate, TrafficUpdate } from "../domain/types.ts";
+import { peakUtilization } from "../domain/traffic.ts";
+import { EVENT_LOG, TRAFFIC_STYLE } from "../config.ts";
+
+export type AppEventKind =
+  | "link"
+  | "device"
+  | "utilization"
+  | "connector"
+  | "builder";
+
+export const APP_EVENT_KINDS: readonly AppEventKind[] = [
+  "link",
+  "device",
+  "utilization",
+  "connector",
+  "builder",
+];
+
+export type AppEvent = {
+  id: number;
+  at: number;
+  kind: AppEventKind;
+  message: string;
+  // What clicking the entry selects, when it is about one device or link.
+  deviceId?: string;
+  connectionId?: string;
+};
+
+export type AppEventInput = Omit<AppEvent, "id">;
+
+// Prepends `events` (given oldest first; the log is newest first) and drops
+// the oldest entries past `limit`. Ids keep increasing so they stay unique
+// after trimming.
+export const appendEvents = (
+  log: AppEvent[],
+  events: AppEventInput[],
+  limit: number = EVENT_LOG.maxEntries,
+): AppEvent[] => {
+  const firstId = (log[0]?.id ?? 0) + 1;
+  const added = events.map((e, idx) => ({ ...e, id: firstId + idx }))
+    .reverse();
+  return [...added, ...log].slice(0, Math.max(1, limit));
+};
+
+const utilizationBand = (util: number) =>
+  EVENT_LOG.utilizationBands.filter((b) => util >= b).length;
+
+const percent = (v: number) => `${Math.round(v * 100)}%`;
+
+// Events for one link moving from `prev` to `next` merged traffic state:
+// status flips and utilization crossing one of the configured bands. The
+// first update for a link only sets the baseline.
+export const trafficChangeEvents = (
+  prev: TrafficUpdate | undefined,
+  next: TrafficUpdate,
+  at: number,
+): AppEventInput[] => {
+  if (!prev) return [];
+  const connectionId = next.connectionId;
+  const out: AppEventInput[] = [];
+
+  const wasDown = prev.status === TRAFFIC_STYLE.downStatus;
+  const isDown = next.status === TRAFFIC_STYLE.downStatus;
+  if (prev.status !== undefined && wasDown !== isDown) {
+    out.push({
+      at,
+      kind: "link",
+      connectionId,
+      message: isDown ? "Link went down" : "Link came back up",
+    });
+  }
+
+  const before = peakUtilization(prev);
+  const after = peakUtilization(next);
+  if (typeof before === "number" && typeof after === "number") {
+    const from = utilizationBand(before);
+    const to = utilizationBand(after);
+    if (to > from) {
+      out.push({
+        at,
+        kind: "utilization",
+        connectionId,
+        message: `Utilization rose to ${percent(after)} (above ${
+          percent(EVENT_LOG.utilizationBands[to - 1])
+        })`,
+      });
+    } else if (to < from) {
+      out.push({
+        at,
+        kind: "utilization",
+        connectionId,
+        message: `Utilization fell to ${percent(after)} (below ${
+          percent(EVENT_LOG.utilizationBands[to])
+        })`,
+      });
+    }
+  }
+
+  return out;
+};
+
+// A device reporting a different status than before. As with links, the
+// first report only sets the baseline.
+export const deviceStatusEvents = (
+  prev: DeviceStatusUpdate | undefined,
+  next: DeviceStatusUpdate,
+  at: number,
+): AppEventInput[] => {
+  if (!prev?.status || !next.status || prev.status === next.status) return [];
+  return [{
+    at,
+    kind: "device",
+    deviceId: next.deviceId,
+    message: `Device reported ${next.status} (was ${prev.status})`,
+  }];
+};
@@ -0,0 +1,58 @@
+import { assertEquals } from "@std/assert";
+import { appendEvents, trafficChangeEvents } from "./events.ts";
+
+Deno.test("events: appendEvents keeps newest first within the limit", () => {
+  let log = appendEvents([], [
+    { at: 1, kind: "builder", message: "a" },
+    { at: 2, kind: "builder", message: "b" },
+  ], 3);
+  log = appendEvents(log, [
+    { at: 3, kind: "link", message: "c", connectionId: "c1" },
+    { at: 4, kind: "link", message: "d", connectionId: "c1" },
+  ], 3);
+
+  assertEquals(log.map((e) => [e.id, e.message]), [
+    [4, "d"],
+    [3, "c"],
+    [2, "b"],
+  ]);
+});
+
+Deno.test("events: trafficChangeEvents reports status flips and band crossings", () => {
+  assertEquals(
+    trafficChangeEvents(undefined, { connectionId: "c1", status: "down" }, 0),
+    [],
+  );
+  assertEquals(
+    trafficChangeEvents(
+      { connectionId: "c1", status: "up", utilization: 0.4 },
+      { connectionId: "c1", status: "down", utilization: 0.95 },
+      10,
+    ),
+    [
+      { at: 10, kind: "link", connectionId: "c1", message: "Link went down" },
+      {
+        at: 10,
+        kind: "utilization",
+        connectionId: "c1",
+        message: "Utilization rose to 95% (above 90%)",
+      },
+    ],
+  );
+  assertEquals(
+    trafficChangeEvents(
+      { connectionId: "c1", utilization: 0.95 },
+      { connectionId: "c1", utilization: 0.6 },
+      20,
+    ).map((e) => e.message),
+    ["Utilization fell to 60% (below 80%)"],
+  );
+  assertEquals(
+    trafficChangeEvents(
+      { connectionId: "c1", utilization: 0.55 },
+      { connectionId: "c1", utilization: 0.7 },
+      30,
+    ),
+    [],
+  );
+});
@@ -0,0 +1,94 @@
+import { buildAdjacency } from "../lib/graph/adjacency.ts";
+import { findKShortestPaths } from "../lib/graph/path.ts";
+import { findLinkDisjointPaths } from "../lib/graph/resilience.ts";
+import { buildCapacityByConnectionId } from "../traffic/capacity.ts";
+import { peakUtilization } from "../domain/traffic.ts";
+import type { Connection, TrafficUpdate } from "../domain/types.ts";
+import { PATH_EXPLORER } from "../config.ts";
+
+export type PathExplorerMode = "shortest" | "disjoint";
+
+export type ExploredPath = {
+  nodes: string[];
+  links: string[];
+  hops: number;
+  // Smallest link capacity on the path (links without a known capacity are
+  // skipped; null when none is known).
+  bottleneckMbps: number | null;
+  // Busiest link on the path right now (null without traffic).
+  peakUtilization: number | null;
+};
+
+export type PathExploration = Record<PathExplorerMode, ExploredPath[]>;
+
+const busiestLink = (
+  links: string[],
+  trafficById: Map<string, TrafficUpdate>,
+): number | null => {
+  const utilizations = links
+    .map((id) => peakUtilization(trafficById.get(id)))
+    .filter((u): u is number => u != null);
+  return utilizations.length ? Math.max(...utilizations) : null;
+};
+
+export const explorePaths = (
+  {
+    connections,
+    connectionTypes,
+    traffic,
+  }: {
+    connections: Connection[];
+    connectionTypes: unknown;
+    traffic: TrafficUpdate[];
+  },
+  fromId: string,
+  toId: string,
+  maxPaths: number = PATH_EXPLORER.maxPaths,
+): PathExploration => {
+  const adjacency = buildAdjacency(connections, { connectionTypes });
+  const capacityById = buildCapacityByConnectionId(
+    connections,
+    connectionTypes,
+  );
+  const trafficById = new Map(traffic.map((t) => [t.connectionId, t]));
+
+  const describe = (
+    path: { nodes: string[]; links: string[] },
+  ): ExploredPath => {
+    const capacities = path.links
+      .map((id) => capacityById.get(id))
+      .filter((c): c is number => c != null);
+    return {
+      nodes: path.nodes,
+      links: path.links,
+      hops: path.links.length,
+      bottleneckMbps: capacities.length ? Math.min(...capacities) : null,
+      peakUtilization: busiestLink(path.links, trafficById),
+    };
+  };
+
+  return {
+    shortest: findKShortestPaths(adjacency, fromId, toId, maxPaths).map(
+      describe,
+    ),
+    disjoint: findLinkDisjointPaths(adjacency, fromId, toId).map(describe),
+  };
+};
+
+// Same paths with `peakUtilization` read from new traffic, so a traffic update
+// does not need the searches to run again.
+export const withPeakUtilization = (
+  exploration: PathExploration,
+  traffic: TrafficUpdate[],
+): PathExploration => {
+  const trafficById = new Map(traffic.map((t) => [t.connectionId, t]));
+  const refresh = (paths: ExploredPath[]) =>
+    paths.map((path) => ({
+      ...path,
+      peakUtilization: busiestLink(path.links, trafficById),
+    }));
+  return {
+    shortest: refresh(exploration.shortest),
+    disjoint: refresh(exploration.disjoint),
+  };
+};
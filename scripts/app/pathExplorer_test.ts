@@ -0,0 +1,87 @@
+import { assertEquals } from "@std/assert";
+import type { Connection, TrafficUpdate } from "../domain/types.ts";
+import { explorePaths, withPeakUtilization } from "./pathExplorer.ts";
+
+const link = (
+  id: string,
+  a: string,
+  b: string,
+  connectionType: string,
+): Connection => ({
+  id,
+  connectionType,
+  from: { deviceId: a },
+  to: { deviceId: b },
+});
+
+// Two sites joined by a 10G primary and a 1G backup through a carrier hop.
+const connections = [
+  link("primary", "site-a", "site-b", "eth-10g"),
+  link("backup-1", "site-a", "carrier", "eth-1g"),
+  link("backup-2", "carrier", "site-b", "eth-10g"),
+];
+const connectionTypes = {
+  "eth-1g": { capacityMbps: 1000 },
+  "eth-10g": { capacityMbps: 10000 },
+};
+const traffic: TrafficUpdate[] = [
+  { connectionId: "backup-1", utilization: 0.2 },
+  { connectionId: "backup-2", utilization: 0.45 },
+];
+
+Deno.test("pathExplorer: describes shortest and disjoint paths", () => {
+  const result = explorePaths(
+    { connections, connectionTypes, traffic },
+    "site-a",
+    "site-b",
+  );
+  assertEquals(result.shortest, [
+    {
+      nodes: ["site-a", "site-b"],
+      links: ["primary"],
+      hops: 1,
+      bottleneckMbps: 10000,
+      peakUtilization: null,
+    },
+    {
+      nodes: ["site-a", "carrier", "site-b"],
+      links: ["backup-1", "backup-2"],
+      hops: 2,
+      bottleneckMbps: 1000,
+      peakUtilization: 0.45,
+    },
+  ]);
+  assertEquals(result.disjoint.map((p) => p.links), [
+    ["primary"],
+    ["backup-1", "backup-2"],
+  ]);
+});
+
+Deno.test("pathExplorer: ranks by link cost and caps the list", () => {
+  const result = explorePaths(
+    { connections, connectionTypes, traffic: [] },
+    "carrier",
+    "site-a",
+    1,
+  );
+  // Two 10G hops cost less than the direct 1G link.
+  assertEquals(result.shortest.map((p) => p.links), [["backup-2", "primary"]]);
+  assertEquals(result.disjoint.length, 2);
+});
+
+Deno.test("pathExplorer: refreshes peak utilization from new traffic", () => {
+  const result = explorePaths(
+    { connections, connectionTypes, traffic },
+    "site-a",
+    "site-b",
+  );
+  const refreshed = withPeakUtilization(result, [
+    { connectionId: "primary", utilization: 0.7 },
+    { connectionId: "backup-1", utilization: 0.1 },
+  ]);
+  assertEquals(refreshed.shortest.map((p) => p.peakUtilization), [0.7, 0.1]);
+  assertEquals(
+    refreshed.disjoint.map((p) => p.links),
+    result.disjoint.map((p) => p.links),
+  );
+});
@@ -2,6 +2,15 @@ import type { Connection, NetworkDevice } from "../domain/types.ts";
 import type { TrafficUpdate } from "../domain/types.ts";
 import type { CustomHistorySnapshot } from "./historyService.ts";
 import type { TrafficConnectorSpec } from "../traffic/registry.ts";
+import type { SimulationClock } from "../traffic/clock.ts";
+import type {
+  TrafficPayloadCheck,
+  TrafficPayloadKnownIds,
+} from "./trafficDiagnostics.ts";
+import type {
+  SimulatedFailures,
+  TrafficConnectorStatus,
+} from "../traffic/types.ts";
 
 export type BuilderGraphPort = {
   getNodePositions: () => Map<string, { x: number; y: number }>;
@@ -48,10 +57,21 @@ export type TrafficConnectorPort = {
       trafficPath: string;
       loadJson: (path: string) => Promise<unknown>;
       speedMultiplier: number;
+      clock?: SimulationClock;
+      simulatedFailures?: SimulatedFailures;
     },
   ) => Promise<{
-    start: (onUpdate: (payload: unknown) => void) => () => void;
+    playback?: { durationSec: number | null };
+    start: (
+      onUpdate: (payload: unknown) => void,
+      onStatus?: (status: TrafficConnectorStatus) => void,
+    ) => () => void;
   }>;
   parseTrafficConnectorSpecFn: (raw: unknown) => TrafficConnectorSpec | null;
-  parseTrafficUpdatesPayloadFn: (payload: unknown) => TrafficUpdate[];
+  // Splits a payload into link and device updates, leaving out bad entries;
+  // throws when the payload has no usable shape.
+  checkTrafficPayloadFn: (
+    payload: unknown,
+    known: TrafficPayloadKnownIds,
+  ) => TrafficPayloadCheck;
 };
@@ -1,6 +1,8 @@
 import type { Action } from "./actions.ts";
 import type { State } from "./types.ts";
 import { getClampedPage } from "./selectors.ts";
+import { appendEvents } from "./events.ts";
+import { emptyTrafficDiagnostics } from "./trafficDiagnostics.ts";
 
 export const reduce = (state: State, action: Action): State => {
   switch (action.type) {
@@ -13,6 +15,16 @@ export const reduce = (state: State, action: Action): State => {
         page: 1,
         selected: new Set<string>(),
         traffic: [],
+        deviceStatus: [],
+        trafficHistoryRange: null,
+        trafficScrubMs: null,
+        alerts: [],
+        events: [],
+        failedDeviceIds: new Set<string>(),
+        failedConnectionIds: new Set<string>(),
+        trafficRecording: false,
+        trafficPlayback: null,
+        trafficDiagnostics: emptyTrafficDiagnostics(),
       };
     }
     case "setStatusText": {
@@ -43,6 +55,10 @@ export const reduce = (state: State, action: Action): State => {
         page: 1,
         selected: new Set<string>(),
         traffic: [],
+        deviceStatus: [],
+        trafficHistoryRange: null,
+        trafficScrubMs: null,
+        alerts: [],
       };
       return { ...next, page: getClampedPage(next) };
     }
@@ -89,8 +105,41 @@ export const reduce = (state: State, action: Action): State => {
     case "setTraffic": {
       return { ...state, traffic: action.traffic };
     }
+    case "setDeviceStatus": {
+      return { ...state, deviceStatus: action.deviceStatus };
+    }
     case "resetTraffic": {
-      return { ...state, traffic: [] };
+      return {
+        ...state,
+        traffic: [],
+        deviceStatus: [],
+        trafficHistoryRange: null,
+        trafficScrubMs: null,
+        alerts: [],
+        trafficDiagnostics: emptyTrafficDiagnostics(),
+      };
+    }
+    case "setTrafficHistoryRange": {
+      return { ...state, trafficHistoryRange: action.range };
+    }
+    case "setTrafficScrub": {
+      return { ...state, trafficScrubMs: action.atMs };
+    }
+    case "setTrafficRecording": {
+      return { ...state, trafficRecording: action.recording };
+    }
+    case "setTrafficPlayback": {
+      return { ...state, trafficPlayback: action.playback };
+    }
+    case "setAlerts": {
+      return { ...state, alerts: action.alerts };
+    }
+    case "setTrafficDiagnostics": {
+      return { ...state, trafficDiagnostics: action.diagnostics };
+    }
+    case "logEvents": {
+      if (!action.events.length) return state;
+      return { ...state, events: appendEvents(state.events, action.events) };
     }
     case "setTrafficSourceKind": {
       return { ...state, trafficSourceKind: action.kind };
@@ -101,5 +150,27 @@ export const reduce = (state: State, action: Action): State => {
     case "setLayoutKind": {
       return { ...state, layoutKind: action.kind };
     }
+    case "setBlastRadiusRoot": {
+      return { ...state, blastRadiusRoot: action.root };
+    }
+    case "setResilienceOverlay": {
+      return { ...state, resilienceOverlay: action.enabled };
+    }
+    case "toggleFailure": {
+      const key = action.kind === "device"
+        ? "failedDeviceIds"
+        : "failedConnectionIds";
+      const failed = new Set(state[key]);
+      if (failed.has(action.id)) failed.delete(action.id);
+      else failed.add(action.id);
+      return { ...state, [key]: failed };
+    }
+    case "clearFailures": {
+      return {
+        ...state,
+        failedDeviceIds: new Set<string>(),
+        failedConnectionIds: new Set<string>(),
+      };
+    }
   }
 };
@@ -0,0 +1,71 @@
+import { buildAdjacency } from "../lib/graph/adjacency.ts";
+import { countLinkDisjointPaths, findCuts } from "../lib/graph/resilience.ts";
+import { tierDeviceIds, type TieredTierName } from "../domain/layoutHints.ts";
+import type { Connection, NetworkDevice } from "../domain/types.ts";
+
+// Redundancy is measured towards the edge tier, or the internet tier for
+// networks without edge devices.
+const REDUNDANCY_TARGET_TIERS: TieredTierName[] = ["edge", "internet"];
+
+// The tier redundancy is measured towards, and its devices.
+export const uplinkTargets = (
+  devices: NetworkDevice[],
+): { tier: TieredTierName | null; ids: string[] } => {
+  for (const tier of REDUNDANCY_TARGET_TIERS) {
+    const ids = tierDeviceIds(devices, tier);
+    if (ids.length) return { tier, ids };
+  }
+  return { tier: null, ids: [] };
+};
+
+export type ResilienceReport = {
+  articulationPoints: Set<string>;
+  bridges: Set<string>;
+  targetTier: TieredTierName | null;
+  // Link-disjoint paths from each device to the target tier (devices in the
+  // tier itself are left out).
+  redundancyByDevice: Map<string, number>;
+};
+
+export const analyzeResilience = (
+  devices: NetworkDevice[],
+  connections: Connection[],
+): ResilienceReport => {
+  const adjacency = buildAdjacency(connections);
+  const { articulationPoints, bridges } = findCuts(adjacency);
+
+  const { tier: targetTier, ids } = uplinkTargets(devices);
+  const targets = new Set(ids);
+
+  const redundancyByDevice = new Map<string, number>();
+  if (targetTier) {
+    devices.forEach((d) => {
+      if (targets.has(d.id)) return;
+      redundancyByDevice.set(
+        d.id,
+        countLinkDisjointPaths(adjacency, d.id, targets),
+      );
+    });
+  }
+
+  return { articulationPoints, bridges, targetTier, redundancyByDevice };
+};
+
+// `analyzeResilience` memoized on the topology arrays, which are replaced on
+// every edit. Each caller owns its selector.
+export const createResilienceSelector = () => {
+  let lastInput: [NetworkDevice[], Connection[]] | null = null;
+  let lastReport: ResilienceReport | null = null;
+  return (
+    state: { devices: NetworkDevice[]; connections: Connection[] },
+  ): ResilienceReport => {
+    if (
+      !lastReport || lastInput?.[0] !== state.devices ||
+      lastInput?.[1] !== state.connections
+    ) {
+      lastInput = [state.devices, state.connections];
+      lastReport = analyzeResilience(state.devices, state.connections);
+    }
+    return lastReport;
+  };
+};
@@ -1,6 +1,11 @@
 import type { DeviceTypePort, NetworkDevice } from "../domain/types.ts";
 import { applyFilter, applySort, paginate } from "../search.ts";
 import type { State } from "./types.ts";
+import {
+  deriveDeviceHealth,
+  type DeviceHealthDetail,
+} from "../domain/deviceHealth.ts";
+import { TRAFFIC_STYLE } from "../config.ts";
 
 const clamp = (v: number, min: number, max: number) =>
   Math.max(min, Math.min(max, v));
@@ -61,3 +66,14 @@ export const getSelectedDevices = (state: State): ResolvedNetworkDevice[] =>
   state.devices
     .filter((d) => state.selected.has(d.id))
     .map((d) => resolveDevice(state, d));
+
+// Devices that are not healthy, from their own reports and their links.
+export const selectDeviceHealth = (
+  state: State,
+): Map<string, DeviceHealthDetail> =>
+  deriveDeviceHealth({
+    connections: state.connections,
+    traffic: state.traffic,
+    deviceStatus: state.deviceStatus,
+    downStatus: TRAFFIC_STYLE.downStatus,
+  });
@@ -7,5 +7,6 @@ export {
   getPageDevices,
   getSelectedDevices,
   getTotalPages,
+  selectDeviceHealth,
 } from "./selectors.ts";
 export { createStore } from "./store.ts";
@@ -0,0 +1,202 @@
+import type { DeviceStatusUpdate, TrafficUpdate } from "../domain/types.ts";
+import {
+  deviceStatusPayloadEntries,
+  parseDeviceStatusUpdate,
+  parseTrafficUpdate,
+  trafficPayloadEntries,
+} from "../domain/fixtures.ts";
+import { TRAFFIC_DIAGNOSTICS } from "../config.ts";
+
+export type TrafficPayloadIssueKind =
+  | "invalid"
+  | "unknownConnection"
+  | "utilizationRange"
+  | "negativeRate"
+  | "unknownStatus";
+
+export const TRAFFIC_PAYLOAD_ISSUE_KINDS: readonly TrafficPayloadIssueKind[] = [
+  "invalid",
+  "unknownConnection",
+  "utilizationRange",
+  "negativeRate",
+  "unknownStatus",
+];
+
+export type TrafficPayloadIssue = {
+  kind: TrafficPayloadIssueKind;
+  message: string;
+  connectionId?: string;
+  deviceId?: string;
+};
+
+// What a payload applies once bad entries and values are taken out.
+export type TrafficPayloadCheck = {
+  updates: TrafficUpdate[];
+  devices: DeviceStatusUpdate[];
+  issues: TrafficPayloadIssue[];
+  // Entries left out entirely (invalid or for unknown links).
+  dropped: number;
+};
+
+export type TrafficPayloadKnownIds = {
+  // Links of the loaded network; null skips the check.
+  connectionIds: ReadonlySet<string> | null;
+};
+
+const errorMessage = (err: unknown) =>
+  err instanceof Error ? err.message : String(err);
+
+const isKnownStatus = (status: string) =>
+  (TRAFFIC_DIAGNOSTICS.knownStatuses as readonly string[]).includes(status);
+
+// Out-of-range values are removed from the update, so the rest of it still
+// applies; the issue says which field was dropped.
+const checkValues = (
+  t: TrafficUpdate,
+  issues: TrafficPayloadIssue[],
+): TrafficUpdate => {
+  const out: TrafficUpdate = { ...t };
+  const connectionId = t.connectionId;
+  const fields = [
+    { label: "", target: out as Record<string, unknown> },
+    ...(["aToB", "bToA"] as const)
+      .filter((dir) => out[dir] != null)
+      .map((dir) => {
+        out[dir] = { ...out[dir] };
+        return {
+          label: `${dir}.`,
+          target: out[dir] as Record<string, unknown>,
+        };
+      }),
+  ];
+  fields.forEach(({ label, target }) => {
+    const util = target.utilization;
+    if (typeof util === "number" && (util < 0 || util > 1)) {
+      delete target.utilization;
+      issues.push({
+        kind: "utilizationRange",
+        connectionId,
+        message: `${label}utilization ${util} is outside 0–1`,
+      });
+    }
+    const rate = target.rateMbps;
+    if (typeof rate === "number" && rate < 0) {
+      delete target.rateMbps;
+      issues.push({
+        kind: "negativeRate",
+        connectionId,
+        message: `${label}rateMbps ${rate} is negative`,
+      });
+    }
+  });
+  if (typeof out.status === "string" && !isKnownStatus(out.status)) {
+    issues.push({
+      kind: "unknownStatus",
+      connectionId,
+      message: `Unknown link status "${out.status}"`,
+    });
+  }
+  return out;
+};
+
+// Checks each entry of `trafficPayloadEntries` on its own, so one bad entry
+// does not fail the whole batch. Throws only when the payload itself has no
+// usable shape.
+export const checkTrafficPayload = (
+  raw: unknown,
+  { connectionIds }: TrafficPayloadKnownIds,
+): TrafficPayloadCheck => {
+  const issues: TrafficPayloadIssue[] = [];
+  let dropped = 0;
+
+  const updates = trafficPayloadEntries(raw).flatMap((entry, index) => {
+    let t: TrafficUpdate;
+    try {
+      t = parseTrafficUpdate(entry, `trafficPayload[${index}]`);
+    } catch (err) {
+      dropped += 1;
+      issues.push({ kind: "invalid", message: errorMessage(err) });
+      return [];
+    }
+    if (connectionIds && !connectionIds.has(t.connectionId)) {
+      dropped += 1;
+      issues.push({
+        kind: "unknownConnection",
+        connectionId: t.connectionId,
+        message: `Unknown connectionId "${t.connectionId}"`,
+      });
+      return [];
+    }
+    return [checkValues(t, issues)];
+  });
+
+  const devices = deviceStatusPayloadEntries(raw).flatMap((entry, index) => {
+    try {
+      const d = parseDeviceStatusUpdate(
+        entry,
+        `trafficPayload.devices[${index}]`,
+      );
+      if (typeof d.status === "string" && !isKnownStatus(d.status)) {
+        issues.push({
+          kind: "unknownStatus",
+          deviceId: d.deviceId,
+          message: `Unknown device status "${d.status}"`,
+        });
+      }
+      return [d];
+    } catch (err) {
+      dropped += 1;
+      issues.push({ kind: "invalid", message: errorMessage(err) });
+      return [];
+    }
+  });
+
+  return { updates, devices, issues, dropped };
+};
+
+export type TrafficDiagnosticEntry = TrafficPayloadIssue & {
+  id: number;
+  at: number;
+};
+
+// Running totals since the source started, plus the latest issues.
+export type TrafficDiagnostics = {
+  dropped: number;
+  counts: Record<TrafficPayloadIssueKind, number>;
+  // Newest first (bounded).
+  recent: TrafficDiagnosticEntry[];
+};
+
+export const emptyTrafficDiagnostics = (): TrafficDiagnostics => ({
+  dropped: 0,
+  counts: {
+    invalid: 0,
+    unknownConnection: 0,
+    utilizationRange: 0,
+    negativeRate: 0,
+    unknownStatus: 0,
+  },
+  recent: [],
+});
+
+export const addTrafficDiagnostics = (
+  diagnostics: TrafficDiagnostics,
+  { issues, dropped }: Pick<TrafficPayloadCheck, "issues" | "dropped">,
+  at: number,
+  limit: number = TRAFFIC_DIAGNOSTICS.maxEntries,
+): TrafficDiagnostics => {
+  const counts = { ...diagnostics.counts };
+  issues.forEach((issue) => counts[issue.kind] += 1);
+  const firstId = (diagnostics.recent[0]?.id ?? 0) + 1;
+  const added = issues.map((issue, idx) => ({
+    ...issue,
+    id: firstId + idx,
+    at,
+  }))
+    .reverse();
+  return {
+    dropped: diagnostics.dropped + dropped,
+    counts,
+    recent: [...added, ...diagnostics.recent].slice(0, Math.max(1, limit)),
+  };
+};
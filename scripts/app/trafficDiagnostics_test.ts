@@ -0,0 +1,95 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import {
+  addTrafficDiagnostics,
+  checkTrafficPayload,
+  emptyTrafficDiagnostics,
+} from "./trafficDiagnostics.ts";
+
+Deno.test("trafficDiagnostics: drops bad entries and keeps the rest", () => {
+  const check = checkTrafficPayload({
+    updates: [
+      { connectionId: "c1", rateMbps: 10, utilization: 0.5, status: "up" },
+      { connectionId: "c2", rateMbps: -4, utilization: 1.5 },
+      { connectionId: "c3", aToB: { utilization: -0.1, rateMbps: 1 } },
+      { connectionId: "c1", status: "flapping" },
+      { connectionId: "ghost", rateMbps: 1 },
+      { connectionId: "c1", status: 3 },
+      "junk",
+    ],
+    devices: [{ deviceId: "core", status: "on fire" }, { status: "up" }],
+  }, { connectionIds: new Set(["c1", "c2", "c3"]) });
+
+  assertEquals(check.updates, [
+    { connectionId: "c1", rateMbps: 10, utilization: 0.5, status: "up" },
+    { connectionId: "c2" },
+    { connectionId: "c3", aToB: { rateMbps: 1 } },
+    { connectionId: "c1", status: "flapping" },
+  ]);
+  assertEquals(check.devices, [{ deviceId: "core", status: "on fire" }]);
+  assertEquals(check.dropped, 4);
+  assertEquals(check.issues.map((i) => i.kind), [
+    "utilizationRange",
+    "negativeRate",
+    "utilizationRange",
+    "unknownStatus",
+    "unknownConnection",
+    "invalid",
+    "invalid",
+    "unknownStatus",
+    "invalid",
+  ]);
+  assertEquals(
+    check.issues[2].message,
+    "aToB.utilization -0.1 is outside 0–1",
+  );
+});
+
+Deno.test("trafficDiagnostics: skips the link check without a topology", () => {
+  const check = checkTrafficPayload([{ connectionId: "anything" }], {
+    connectionIds: null,
+  });
+  assertEquals(check.issues, []);
+  assertEquals(check.updates, [{ connectionId: "anything" }]);
+  assertThrows(
+    () => checkTrafficPayload(42, { connectionIds: null }),
+    Error,
+    "expected an array, an object, or a timeline object",
+  );
+});
+
+Deno.test("trafficDiagnostics: totals add up and the list stays bounded", () => {
+  let diagnostics = emptyTrafficDiagnostics();
+  diagnostics = addTrafficDiagnostics(
+    diagnostics,
+    {
+      issues: [
+        { kind: "negativeRate", connectionId: "c1", message: "a" },
+        { kind: "invalid", message: "b" },
+      ],
+      dropped: 1,
+    },
+    10,
+    3,
+  );
+  diagnostics = addTrafficDiagnostics(
+    diagnostics,
+    {
+      issues: [
+        { kind: "invalid", message: "c" },
+        { kind: "invalid", message: "d" },
+      ],
+      dropped: 2,
+    },
+    20,
+    3,
+  );
+
+  assertEquals(diagnostics.dropped, 3);
+  assertEquals(diagnostics.counts.invalid, 3);
+  assertEquals(diagnostics.counts.negativeRate, 1);
+  assertEquals(diagnostics.recent.map((e) => [e.id, e.message, e.at]), [
+    [4, "d", 20],
+    [3, "c", 20],
+    [2, "b", 10],
+  ]);
+});
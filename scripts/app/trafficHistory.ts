@@ -0,0 +1,108 @@
+import type { TrafficUpdate } from "../domain/types.ts";
+
+export type TrafficHistoryOptions = {
+  durationMs: number;
+  resolutionMs: number;
+};
+
+export type TrafficHistoryRange = { startMs: number; endMs: number };
+
+export type TrafficHistorySample = { at: number; traffic: TrafficUpdate };
+
+export type TrafficHistory = {
+  record: (traffic: TrafficUpdate[], at: number) => void;
+  snapshotAt: (at: number) => TrafficUpdate[];
+  seriesFor: (connectionId: string) => TrafficHistorySample[];
+  range: () => TrafficHistoryRange | null;
+  clear: () => void;
+};
+
+// Index of the last sample at or before `at`, or -1.
+const lastIndexAtOrBefore = (samples: TrafficHistorySample[], at: number) => {
+  let lo = 0;
+  let hi = samples.length - 1;
+  let found = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (samples[mid].at <= at) {
+      found = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return found;
+};
+
+// Per-connection history of merged traffic state, bounded to a sliding
+// `durationMs` window with at most one sample per `resolutionMs` slot. One
+// sample older than the window is kept per connection so the state at the
+// window start is still known.
+export const createTrafficHistory = (
+  { durationMs, resolutionMs }: TrafficHistoryOptions,
+): TrafficHistory => {
+  const duration = Number.isFinite(durationMs) && durationMs > 0
+    ? durationMs
+    : 0;
+  const resolution = Number.isFinite(resolutionMs) && resolutionMs > 0
+    ? resolutionMs
+    : 1;
+  const byConn = new Map<string, TrafficHistorySample[]>();
+  let firstAt: number | null = null;
+  let lastAt: number | null = null;
+
+  const trim = (cutoff: number) => {
+    for (const samples of byConn.values()) {
+      let drop = 0;
+      while (drop + 1 < samples.length && samples[drop + 1].at <= cutoff) {
+        drop++;
+      }
+      if (drop) samples.splice(0, drop);
+    }
+  };
+
+  const record = (traffic: TrafficUpdate[], at: number) => {
+    if (!Number.isFinite(at)) return;
+    const slot = Math.floor(at / resolution);
+    traffic.forEach((t) => {
+      if (!t?.connectionId) return;
+      const samples = byConn.get(t.connectionId) ?? [];
+      const last = samples[samples.length - 1];
+      const sample = { at, traffic: t };
+      if (last && Math.floor(last.at / resolution) === slot) {
+        samples[samples.length - 1] = sample;
+      } else {
+        samples.push(sample);
+      }
+      byConn.set(t.connectionId, samples);
+    });
+    firstAt = firstAt ?? at;
+    lastAt = Math.max(lastAt ?? at, at);
+    trim(lastAt - duration);
+  };
+
+  const snapshotAt = (at: number): TrafficUpdate[] => {
+    const out: TrafficUpdate[] = [];
+    for (const samples of byConn.values()) {
+      const idx = lastIndexAtOrBefore(samples, at);
+      if (idx >= 0) out.push(samples[idx].traffic);
+    }
+    return out;
+  };
+
+  const seriesFor = (connectionId: string): TrafficHistorySample[] =>
+    (byConn.get(connectionId) ?? []).slice();
+
+  const range = (): TrafficHistoryRange | null => {
+    if (firstAt == null || lastAt == null) return null;
+    return { startMs: Math.max(firstAt, lastAt - duration), endMs: lastAt };
+  };
+
+  const clear = () => {
+    byConn.clear();
+    firstAt = null;
+    lastAt = null;
+  };
+
+  return { record, snapshotAt, seriesFor, range, clear };
+};
@@ -0,0 +1,41 @@
+import { assertEquals } from "@std/assert";
+import { createTrafficHistory } from "./trafficHistory.ts";
+
+Deno.test("trafficHistory: keeps one sample per resolution slot", () => {
+  const history = createTrafficHistory({
+    durationMs: 60_000,
+    resolutionMs: 1000,
+  });
+  history.record([{ connectionId: "c1", rateMbps: 10 }], 1000);
+  history.record([{ connectionId: "c1", rateMbps: 20 }], 1500);
+  history.record([{ connectionId: "c1", rateMbps: 30 }], 2000);
+
+  assertEquals(
+    history.seriesFor("c1").map((s) => [s.at, s.traffic.rateMbps]),
+    [[1500, 20], [2000, 30]],
+  );
+  assertEquals(history.snapshotAt(1999), [{
+    connectionId: "c1",
+    rateMbps: 20,
+  }]);
+  assertEquals(history.snapshotAt(999), []);
+});
+
+Deno.test("trafficHistory: trims to the window but keeps the baseline state", () => {
+  const history = createTrafficHistory({
+    durationMs: 10_000,
+    resolutionMs: 1000,
+  });
+  history.record([{ connectionId: "idle", rateMbps: 1 }], 0);
+  for (let at = 0; at <= 30_000; at += 1000) {
+    history.record([{ connectionId: "busy", rateMbps: at / 1000 }], at);
+  }
+
+  assertEquals(history.range(), { startMs: 20_000, endMs: 30_000 });
+  assertEquals(history.seriesFor("busy").length, 11);
+  // The idle link's only sample predates the window but still describes it.
+  assertEquals(history.snapshotAt(20_000), [
+    { connectionId: "idle", rateMbps: 1 },
+    { connectionId: "busy", rateMbps: 20 },
+  ]);
+});
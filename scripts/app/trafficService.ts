@@ -1,20 +1,59 @@
-import type { TrafficUpdate } from "../domain/types.ts";
+import type { DeviceStatusUpdate, TrafficUpdate } from "../domain/types.ts";
 import type {
   TrafficConnectorKind,
   TrafficConnectorSpec,
 } from "../traffic/registry.ts";
+import type {
+  SimulatedFailures,
+  TrafficConnectorStatus,
+} from "../traffic/types.ts";
 import type {
   TrafficConnectorPort,
   TrafficGraphPort,
   TrafficLoadPort,
 } from "./ports.ts";
 import type { Dispatch } from "./types.ts";
+import {
+  createTrafficHistory,
+  type TrafficHistoryOptions,
+  type TrafficHistorySample,
+} from "./trafficHistory.ts";
+import {
+  createAlertEngine,
+  DEFAULT_ALERT_RULES,
+  parseAlertRules,
+} from "./alerts.ts";
+import {
+  type AppEventInput,
+  deviceStatusEvents,
+  trafficChangeEvents,
+} from "./events.ts";
+import {
+  addTrafficDiagnostics,
+  emptyTrafficDiagnostics,
+  type TrafficPayloadCheck,
+} from "./trafficDiagnostics.ts";
+import {
+  TRAFFIC_ALERTS,
+  TRAFFIC_HISTORY,
+  TRAFFIC_PLAYBACK,
+} from "../config.ts";
+import { createTimelineTrafficConnector } from "../traffic/connectors/timeline.ts";
+import {
+  createSimulationClock,
+  type SimulationClock,
+} from "../traffic/clock.ts";
+import {
+  createTrafficRecorder,
+  type TrafficRecording,
+} from "../traffic/recording.ts";
 
 type StopTraffic = () => void;
 
 const isTrafficConnectorKind = (v: string): v is TrafficConnectorKind =>
   v === "flow" || v === "generated" || v === "static" || v === "real" ||
-  v === "timeline";
+  v === "timeline" || v === "websocket" || v === "sse" ||
+  v === "prometheus" || v === "composite";
 
 export type TrafficPaths = { basePath: string; trafficPath: string };
 
@@ -22,6 +61,12 @@ type TrafficServiceDeps =
   & {
     dispatch: Dispatch;
     formatStatusError: (err: unknown) => string;
+    historyOptions?: Partial<TrafficHistoryOptions>;
+    now?: () => number;
+    // What-if failures to hand to connectors that simulate routing.
+    getSimulatedFailures?: () => SimulatedFailures;
+    // Links of the loaded network, to flag updates for unknown ones.
+    getConnections?: () => ReadonlyArray<{ id: string }>;
   }
   & TrafficLoadPort
   & TrafficGraphPort
@@ -34,6 +79,25 @@ export type TrafficService = {
   resetTrafficState: () => void;
   startForCurrentSource: (sourceKind: string) => Promise<void>;
   restartCurrentSource: (sourceKind: string) => Promise<void>;
+  // Re-render the graph as it was at `atMs` (pausing live updates), or
+  // resume live mode with null.
+  scrubTo: (atMs: number | null) => void;
+  getConnectionHistory: (connectionId: string) => TrafficHistorySample[];
+  // Restart the running source if it routes around what-if failures (only
+  // the flow connector does); other sources are left alone.
+  applySimulatedFailures: () => Promise<void>;
+  // Capture every payload from the running source until stopped.
+  startRecording: () => void;
+  stopRecording: () => TrafficRecording | null;
+  // Play a recording in place of the current source, until `endReplay`.
+  startReplay: (recording: TrafficRecording) => void;
+  endReplay: () => void;
+  // Playback of clock-driven sources (timeline, flow, generated and
+  // replays); no-ops for the others.
+  pausePlayback: (paused: boolean) => Promise<void>;
+  stepPlayback: (sec?: number) => void;
+  // Seeking back restarts the source and catches up to `positionSec`.
+  seekPlayback: (positionSec: number) => Promise<void>;
 };
 
 const normalizeSpeedMultiplier = (value: number): number => {
@@ -41,18 +105,69 @@ const normalizeSpeedMultiplier = (value: number): number => {
   return Math.max(0.1, Math.min(64, value));
 };
 
+const formatConnectorStatus = (status: TrafficConnectorStatus): string => {
+  switch (status.state) {
+    case "connecting":
+      return status.attempt > 0
+        ? `Traffic stream connecting (attempt ${status.attempt})…`
+        : "Traffic stream connecting…";
+    case "open":
+      return "";
+    case "reconnecting":
+      return `Traffic stream lost; reconnecting in ${
+        Math.ceil(status.retryInMs / 1000)
+      }s (attempt ${status.attempt}).`;
+  }
+};
+
 export const createTrafficService = (
   deps: TrafficServiceDeps,
 ): TrafficService => {
   const doFetch = deps.doFetch ?? fetch;
   const createTrafficConnectorImpl = deps.createTrafficConnectorFn;
   const parseTrafficConnectorSpecImpl = deps.parseTrafficConnectorSpecFn;
-  const parseTrafficUpdatesPayloadImpl = deps.parseTrafficUpdatesPayloadFn;
+  const checkTrafficPayloadImpl = deps.checkTrafficPayloadFn;
 
   let stopTraffic: StopTraffic = () => {};
   let currentPaths: TrafficPaths | null = null;
   const trafficByConn = new Map<string, TrafficUpdate>();
+  const statusByDevice = new Map<string, DeviceStatusUpdate>();
   let speedMultiplier = 1;
+  const now = deps.now ?? Date.now;
+  const history = createTrafficHistory({
+    ...TRAFFIC_HISTORY,
+    ...deps.historyOptions,
+  });
+  let scrubMs: number | null = null;
+  let runningKind: string | null = null;
+  // Whether the running source re-routes around what-if failures (a flow
+  // source, or a composite with a flow member).
+  let routesFailures = false;
+  let runningSourceKind = "default";
+  let alertEngine = createAlertEngine({ rules: [] });
+  let alertRecheckTimer: ReturnType<typeof setInterval> | undefined;
+  let recorder: ReturnType<typeof createTrafficRecorder> | null = null;
+  // Clock of the running source while it is clock-driven.
+  let clock: SimulationClock | null = null;
+  let playbackDurationSec: number | null = null;
+  // Time at which the clock stood at 0. A new clock carries on from where
+  // the previous one stopped, so times never run backwards across a restart.
+  let clockOriginMs = 0;
+  let clockStoppedMs = 0;
+  // Recording played in place of the network's source.
+  let replay: TrafficRecording | null = null;
+  let playbackProgressTimer: ReturnType<typeof setInterval> | undefined;
+  let diagnostics = emptyTrafficDiagnostics();
+  let knownConnections: ReadonlyArray<{ id: string }> | null = null;
+  let knownConnectionIds: ReadonlySet<string> | null = null;
+  // Only a payload error is cleared by the next good payload; other status
+  // text (recording, replay, stream state) stays until its owner changes it.
+  let payloadErrorShown = false;
+
+  // Payloads of a clock-driven source are timed by the clock, so a seek
+  // spreads over the span it covers and holds follow simulated time.
+  const timeNow = () =>
+    clock ? clockOriginMs + Math.round(clock.nowSec() * 1000) : now();
 
   const loadJsonOptional = async (path: string): Promise<unknown | null> => {
     const res = await doFetch(path);
@@ -63,29 +178,113 @@ export const createTrafficService = (
 
   const resetTrafficState = () => {
     trafficByConn.clear();
+    statusByDevice.clear();
+    history.clear();
+    scrubMs = null;
+    diagnostics = emptyTrafficDiagnostics();
     deps.dispatch({ type: "resetTraffic" });
     deps.onGraphResetTraffic();
   };
 
+  // Without a loaded topology (e.g. before the network is in), every link
+  // counts as known.
+  const currentConnectionIds = () => {
+    const connections = deps.getConnections?.() ?? null;
+    if (connections !== knownConnections) {
+      knownConnections = connections;
+      knownConnectionIds = connections?.length
+        ? new Set(connections.map((c) => c.id))
+        : null;
+    }
+    return knownConnectionIds;
+  };
+
+  const reportDiagnostics = (
+    check: Pick<TrafficPayloadCheck, "issues" | "dropped">,
+    at: number,
+  ) => {
+    if (!check.issues.length && !check.dropped) return;
+    diagnostics = addTrafficDiagnostics(diagnostics, check, at);
+    deps.dispatch({ type: "setTrafficDiagnostics", diagnostics });
+  };
+
+  // Every known link is evaluated, not just the batch: sources may only send
+  // links that changed, and a steady link still has to reach its hold time.
+  // While a hold is pending, a timer re-checks in case nothing arrives.
+  const evaluateAlerts = (at: number) => {
+    if (alertEngine.evaluate(Array.from(trafficByConn.values()), at)) {
+      deps.dispatch({ type: "setAlerts", alerts: alertEngine.list() });
+    }
+    syncAlertRecheck();
+  };
+
+  const syncAlertRecheck = () => {
+    if (!alertEngine.pending()) {
+      clearInterval(alertRecheckTimer);
+      alertRecheckTimer = undefined;
+      return;
+    }
+    alertRecheckTimer ??= setInterval(
+      () => evaluateAlerts(timeNow()),
+      TRAFFIC_ALERTS.recheckMs,
+    );
+  };
+
   const attachTraffic = (trafficUpdates: unknown) => {
-    let updates: TrafficUpdate[] = [];
+    recorder?.record(trafficUpdates);
+    const at = timeNow();
+    let check: TrafficPayloadCheck;
     try {
-      updates = parseTrafficUpdatesPayloadImpl(trafficUpdates);
-      deps.dispatch({ type: "setStatusText", text: "" });
+      check = checkTrafficPayloadImpl(trafficUpdates, {
+        connectionIds: currentConnectionIds(),
+      });
+      if (payloadErrorShown) {
+        payloadErrorShown = false;
+        deps.dispatch({ type: "setStatusText", text: "" });
+      }
     } catch (err) {
+      const message = deps.formatStatusError(err);
+      payloadErrorShown = true;
       deps.dispatch({
         type: "setStatusText",
-        text: `Traffic payload invalid: ${deps.formatStatusError(err)}`,
+        text: `Traffic payload invalid: ${message}`,
       });
+      reportDiagnostics(
+        { issues: [{ kind: "invalid", message }], dropped: 0 },
+        at,
+      );
       return;
     }
+    reportDiagnostics(check, at);
+    const { updates, devices: deviceUpdates } = check;
 
-    updates.forEach((t) => {
-      const prev = trafficByConn.get(t.connectionId) || {
-        connectionId: t.connectionId,
-      };
-      trafficByConn.set(t.connectionId, { ...prev, ...t });
+    const events: AppEventInput[] = [];
+    const merged = updates.map((t) => {
+      const known = trafficByConn.get(t.connectionId);
+      const next = { ...(known ?? { connectionId: t.connectionId }), ...t };
+      events.push(...trafficChangeEvents(known, next, at));
+      trafficByConn.set(t.connectionId, next);
+      return next;
+    });
+    deviceUpdates.forEach((d) => {
+      const known = statusByDevice.get(d.deviceId);
+      const next = { ...(known ?? { deviceId: d.deviceId }), ...d };
+      events.push(...deviceStatusEvents(known, next, at));
+      statusByDevice.set(d.deviceId, next);
     });
+    if (events.length) deps.dispatch({ type: "logEvents", events });
+    if (deviceUpdates.length) {
+      deps.dispatch({
+        type: "setDeviceStatus",
+        deviceStatus: Array.from(statusByDevice.values()),
+      });
+    }
+    history.record(merged, at);
+    deps.dispatch({ type: "setTrafficHistoryRange", range: history.range() });
+    evaluateAlerts(at);
+
+    // While scrubbed into the past, keep recording but leave the view alone.
+    if (scrubMs != null) return;
 
     deps.dispatch({
       type: "setTraffic",
@@ -95,33 +294,107 @@ export const createTrafficService = (
     deps.onGraphRefreshFromState();
   };
 
+  const renderTraffic = (traffic: TrafficUpdate[]) => {
+    deps.dispatch({ type: "setTraffic", traffic });
+    deps.onGraphResetTraffic();
+    deps.onGraphUpdateTraffic(traffic);
+    deps.onGraphRefreshFromState();
+  };
+
+  const scrubTo = (atMs: number | null) => {
+    if (atMs == null || !Number.isFinite(atMs)) {
+      if (scrubMs == null) return;
+      scrubMs = null;
+      deps.dispatch({ type: "setTrafficScrub", atMs: null });
+      renderTraffic(Array.from(trafficByConn.values()));
+      return;
+    }
+    const range = history.range();
+    if (!range) return;
+    scrubMs = Math.max(range.startMs, Math.min(range.endMs, atMs));
+    deps.dispatch({ type: "setTrafficScrub", atMs: scrubMs });
+    renderTraffic(history.snapshotAt(scrubMs));
+  };
+
+  // Connector state for the event log: only open/lost transitions are
+  // logged, not every retry.
+  let connectorOpen = false;
+  let connectorWasOpen = false;
+
+  const reportConnectorStatus = (status: TrafficConnectorStatus) => {
+    payloadErrorShown = false;
+    deps.dispatch({
+      type: "setStatusText",
+      text: formatConnectorStatus(status),
+    });
+    const isOpen = status.state === "open";
+    if (isOpen === connectorOpen) return;
+    const message = isOpen
+      ? (connectorWasOpen
+        ? "Traffic stream reconnected"
+        : "Traffic stream connected")
+      : "Traffic stream lost";
+    connectorOpen = isOpen;
+    connectorWasOpen ||= isOpen;
+    deps.dispatch({
+      type: "logEvents",
+      events: [{ at: now(), kind: "connector", message }],
+    });
+  };
+
   const startTrafficConnector = async (
     {
       basePath,
       trafficPath,
       sourceKind,
+      paused,
     }: {
       basePath: string;
       trafficPath: string;
       sourceKind: string;
+      paused: boolean;
     },
   ): Promise<StopTraffic> => {
+    connectorOpen = false;
+    connectorWasOpen = false;
     const connectorPath = `${basePath}/traffic.connector.json`;
     const connector = await loadJsonOptional(connectorPath);
+    const alertRules = parseAlertRules(
+      await loadJsonOptional(`${basePath}/alerts.json`),
+    );
+    alertEngine = createAlertEngine({
+      rules: alertRules ?? DEFAULT_ALERT_RULES,
+    });
+    syncAlertRecheck();
 
     const parsed = parseTrafficConnectorSpecImpl(connector);
+    // An explicit source keeps the network's connector settings (e.g. a push
+    // URL) when it names the same kind; otherwise it starts from defaults.
     const spec: TrafficConnectorSpec | null = sourceKind === "default"
       ? parsed
-      : (isTrafficConnectorKind(sourceKind) ? { kind: sourceKind } : parsed);
+      : (isTrafficConnectorKind(sourceKind)
+        ? (parsed?.kind === sourceKind ? parsed : { kind: sourceKind })
+        : parsed);
 
+    const runClock = createSimulationClock({ speedMultiplier, paused: true });
     const trafficConnector = await createTrafficConnectorImpl(spec, {
       basePath,
       trafficPath,
       loadJson: deps.loadJson,
       speedMultiplier,
+      clock: runClock,
+      simulatedFailures: deps.getSimulatedFailures?.(),
     });
+    runningKind = spec?.kind ?? null;
+    routesFailures = spec?.kind === "flow" ||
+      (spec?.connectors ?? []).some((member) => member.kind === "flow");
+    runningSourceKind = sourceKind;
 
-    return trafficConnector.start(attachTraffic);
+    // Cleared before starting: push connectors report "connecting" right away.
+    payloadErrorShown = false;
+    deps.dispatch({ type: "setStatusText", text: "" });
+    adoptClock(runClock, trafficConnector.playback, paused);
+    return trafficConnector.start(attachTraffic, reportConnectorStatus);
   };
 
   const setCurrentPaths = (paths: TrafficPaths | null) => {
@@ -130,33 +403,153 @@ export const createTrafficService = (
 
   const setSpeedMultiplier = (multiplier: number) => {
     speedMultiplier = normalizeSpeedMultiplier(multiplier);
+    clock?.setSpeed(speedMultiplier);
   };
 
-  const teardown = () => {
+  const reportPlayback = () => {
+    deps.dispatch({
+      type: "setTrafficPlayback",
+      playback: clock
+        ? {
+          positionSec: clock.nowSec(),
+          durationSec: playbackDurationSec,
+          paused: clock.isPaused(),
+          replay: replay != null,
+        }
+        : null,
+    });
+  };
+
+  // The position is reported once a second while playing; a replay pauses
+  // at its end.
+  const syncPlaybackProgress = () => {
+    const running = clock != null && !clock.isPaused();
+    if (!running) {
+      clearInterval(playbackProgressTimer);
+      playbackProgressTimer = undefined;
+      return;
+    }
+    playbackProgressTimer ??= setInterval(() => {
+      if (
+        clock && replay && playbackDurationSec != null &&
+        clock.nowSec() >= playbackDurationSec
+      ) {
+        clock.pause();
+        syncPlaybackProgress();
+      }
+      reportPlayback();
+    }, 1000);
+  };
+
+  // Keeps the clock a source was started on when the source runs on it.
+  const adoptClock = (
+    runClock: SimulationClock,
+    playback: { durationSec: number | null } | undefined,
+    paused: boolean,
+  ) => {
+    if (!playback) {
+      runClock.dispose();
+      return;
+    }
+    clock = runClock;
+    clockOriginMs = Math.max(now(), clockStoppedMs);
+    playbackDurationSec = playback.durationSec;
+    if (!paused) clock.play();
+    syncPlaybackProgress();
+    reportPlayback();
+  };
+
+  const stopSource = () => {
     stopTraffic?.();
     stopTraffic = () => {};
+    const hadPlayback = clock != null;
+    if (clock) clockStoppedMs = timeNow();
+    clock?.dispose();
+    clock = null;
+    playbackDurationSec = null;
+    syncPlaybackProgress();
+    clearInterval(alertRecheckTimer);
+    alertRecheckTimer = undefined;
+    if (hadPlayback) reportPlayback();
+  };
+
+  const startReplayConnector = (paused: boolean) => {
+    if (!replay) return;
+    const runClock = createSimulationClock({ speedMultiplier, paused: true });
+    const connector = createTimelineTrafficConnector({
+      timeline: replay,
+      clock: runClock,
+    });
+    runningKind = "replay";
+    routesFailures = false;
+    adoptClock(runClock, connector.playback, paused);
+    stopTraffic = connector.start(attachTraffic);
+  };
+
+  const startReplay = (recording: TrafficRecording) => {
+    stopSource();
+    resetTrafficState();
+    replay = recording;
+    startReplayConnector(false);
+  };
+
+  const endReplay = () => {
+    if (!replay) return;
+    replay = null;
+    runningKind = null;
+    routesFailures = false;
+    stopSource();
+  };
+
+  const startRecording = () => {
+    recorder = createTrafficRecorder({
+      now: timeNow,
+      source: runningKind ?? runningSourceKind,
+      traffic: Array.from(trafficByConn.values()),
+      devices: Array.from(statusByDevice.values()),
+    });
+    deps.dispatch({ type: "setTrafficRecording", recording: true });
+  };
+
+  const stopRecording = (): TrafficRecording | null => {
+    const recording = recorder?.finish() ?? null;
+    recorder = null;
+    deps.dispatch({ type: "setTrafficRecording", recording: false });
+    return recording;
+  };
+
+  const teardown = () => {
+    stopSource();
     currentPaths = null;
+    runningKind = null;
+    routesFailures = false;
+    replay = null;
+    recorder = null;
   };
 
-  const startForCurrentSource = async (sourceKind: string) => {
+  const startForCurrentSource = async (sourceKind: string, paused = false) => {
     if (!currentPaths) return;
     stopTraffic = await startTrafficConnector({
       basePath: currentPaths.basePath,
       trafficPath: currentPaths.trafficPath,
       sourceKind,
+      paused,
     });
-    deps.dispatch({ type: "setStatusText", text: "" });
   };
 
-  const restartCurrentSource = async (sourceKind: string) => {
-    if (!currentPaths) return;
+  // Starts over from the beginning; a paused source stays paused.
+  const restartSource = async (sourceKind: string, paused: boolean) => {
+    if (!replay && !currentPaths) return;
 
-    stopTraffic?.();
-    stopTraffic = () => {};
+    stopSource();
     resetTrafficState();
+    if (replay) {
+      startReplayConnector(paused);
+      return;
+    }
 
     try {
-      await startForCurrentSource(sourceKind);
+      await startForCurrentSource(sourceKind, paused);
     } catch (err) {
       stopTraffic = () => {};
       deps.dispatch({
@@ -166,6 +559,56 @@ export const createTrafficService = (
     }
   };
 
+  const restartCurrentSource = (sourceKind: string) =>
+    restartSource(sourceKind, clock?.isPaused() ?? false);
+
+  const seekPlayback = async (positionSec: number) => {
+    if (!clock || !Number.isFinite(positionSec)) return;
+    const target = Math.max(0, positionSec);
+    if (target < clock.nowSec()) {
+      const paused = clock.isPaused();
+      await restartSource(runningSourceKind, true);
+      if (!clock) return;
+      clock.seek(target);
+      if (!paused) clock.play();
+      syncPlaybackProgress();
+    } else {
+      clock.seek(target);
+    }
+    reportPlayback();
+  };
+
+  const pausePlayback = async (paused: boolean) => {
+    if (!clock) return;
+    if (paused) {
+      clock.pause();
+    } else if (
+      replay && playbackDurationSec != null &&
+      clock.nowSec() >= playbackDurationSec
+    ) {
+      // Playing a finished replay again starts over.
+      await restartSource(runningSourceKind, false);
+      return;
+    } else {
+      clock.play();
+    }
+    syncPlaybackProgress();
+    reportPlayback();
+  };
+
+  const stepPlayback = (sec: number = TRAFFIC_PLAYBACK.stepSec) => {
+    if (!clock) return;
+    clock.pause();
+    clock.step(sec);
+    syncPlaybackProgress();
+    reportPlayback();
+  };
+
+  const applySimulatedFailures = async () => {
+    if (!routesFailures) return;
+    await restartCurrentSource(runningSourceKind);
+  };
+
   return {
     teardown,
     setCurrentPaths,
@@ -173,5 +616,15 @@ export const createTrafficService = (
     resetTrafficState,
     startForCurrentSource,
     restartCurrentSource,
+    scrubTo,
+    getConnectionHistory: history.seriesFor,
+    applySimulatedFailures,
+    startRecording,
+    stopRecording,
+    startReplay,
+    endReplay,
+    pausePlayback,
+    stepPlayback,
+    seekPlayback,
   };
 };
@@ -2,6 +2,18 @@ import { assertEquals } from "@std/assert";
 import { createTrafficService } from "./trafficService.ts";
 import type { Action } from "./actions.ts";
 import type { TrafficUpdate } from "../domain/types.ts";
+import {
+  checkTrafficPayload,
+  type TrafficPayloadCheck,
+} from "./trafficDiagnostics.ts";
+
+// Applies the given updates as they are.
+const noIssues = (updates: TrafficUpdate[]): TrafficPayloadCheck => ({
+  updates,
+  devices: [],
+  issues: [],
+  dropped: 0,
+});
 
 Deno.test("trafficService: restartCurrentSource no-ops without current paths", async () => {
   const actions: Action[] = [];
@@ -21,7 +33,7 @@ Deno.test("trafficService: restartCurrentSource no-ops without current paths", a
     onGraphUpdateTraffic: () => {},
     onGraphRefreshFromState: () => {},
     parseTrafficConnectorSpecFn: () => ({ kind: "flow" }),
-    parseTrafficUpdatesPayloadFn: () => [],
+    checkTrafficPayloadFn: () => noIssues([]),
     createTrafficConnectorFn: () => {
       connectorCalls += 1;
       return Promise.resolve({ kind: "default", start: () => () => {} });
@@ -64,7 +76,7 @@ Deno.test("trafficService: merges updates and dispatches setTraffic", async () =
           return () => {};
         },
       }),
-    parseTrafficUpdatesPayloadFn: (payload) => payload as TrafficUpdate[],
+    checkTrafficPayloadFn: (payload) => noIssues(payload as TrafficUpdate[]),
   });
 
   service.setCurrentPaths({
@@ -117,7 +129,7 @@ Deno.test("trafficService: restartCurrentSource reports source failure", async (
     onGraphUpdateTraffic: () => {},
     onGraphRefreshFromState: () => {},
     parseTrafficConnectorSpecFn: () => ({ kind: "flow" }),
-    parseTrafficUpdatesPayloadFn: () => [],
+    checkTrafficPayloadFn: () => noIssues([]),
     createTrafficConnectorFn: () => Promise.reject(new Error("boom")),
   });
 
@@ -153,7 +165,7 @@ Deno.test("trafficService: explicit source kind overrides parsed connector spec"
     onGraphUpdateTraffic: () => {},
     onGraphRefreshFromState: () => {},
     parseTrafficConnectorSpecFn: () => ({ kind: "timeline" }),
-    parseTrafficUpdatesPayloadFn: () => [],
+    checkTrafficPayloadFn: () => noIssues([]),
     createTrafficConnectorFn: (spec) => {
       specs.push(spec);
       return Promise.resolve({ kind: "default", start: () => () => {} });
@@ -187,7 +199,7 @@ Deno.test("trafficService: passes configured flow speed multiplier to connector
     onGraphUpdateTraffic: () => {},
     onGraphRefreshFromState: () => {},
     parseTrafficConnectorSpecFn: () => ({ kind: "flow" }),
-    parseTrafficUpdatesPayloadFn: () => [],
+    checkTrafficPayloadFn: () => noIssues([]),
     createTrafficConnectorFn: (_spec, args) => {
       speedMultipliers.push(args.speedMultiplier);
       return Promise.resolve({ kind: "default", start: () => () => {} });
@@ -204,6 +216,105 @@ Deno.test("trafficService: passes configured flow speed multiplier to connector
   assertEquals(speedMultipliers, [2.5]);
 });
 
+Deno.test("trafficService: keeps the status a push connector reports on start", async () => {
+  const actions: Action[] = [];
+
+  const service = createTrafficService({
+    dispatch: (action) => actions.push(action),
+    loadJson: () => Promise.resolve(null),
+    doFetch: () => Promise.resolve(new Response(null, { status: 404 })),
+    formatStatusError: (err) => String(err),
+    onGraphResetTraffic: () => {},
+    onGraphUpdateTraffic: () => {},
+    onGraphRefreshFromState: () => {},
+    parseTrafficConnectorSpecFn: () => ({ kind: "websocket" }),
+    checkTrafficPayloadFn: () => noIssues([]),
+    createTrafficConnectorFn: () =>
+      Promise.resolve({
+        kind: "websocket",
+        start: (_onUpdate, onStatus) => {
+          onStatus?.({ state: "connecting", attempt: 0 });
+          return () => {};
+        },
+      }),
+  });
+
+  service.setCurrentPaths({
+    basePath: "data/networks/small-office",
+    trafficPath: "data/networks/small-office/traffic.json",
+  });
+  await service.startForCurrentSource("default");
+
+  assertEquals(actions.filter((a) => a.type === "setStatusText").at(-1), {
+    type: "setStatusText",
+    text: "Traffic stream connecting…",
+  });
+});
+
+Deno.test("trafficService: alerts fire on links that are not sent again", async () => {
+  const actions: Action[] = [];
+  const updateCallbacks: Array<(payload: unknown) => void> = [];
+  let clock = 0;
+
+  const service = createTrafficService({
+    dispatch: (action) => actions.push(action),
+    loadJson: () => Promise.resolve(null),
+    doFetch: (path) =>
+      Promise.resolve(
+        String(path).endsWith("/alerts.json")
+          ? new Response(
+            JSON.stringify([{
+              id: "hot",
+              kind: "utilization",
+              abovePercent: 80,
+              forSeconds: 10,
+            }]),
+            { status: 200 },
+          )
+          : new Response(null, { status: 404 }),
+      ),
+    formatStatusError: (err) => String(err),
+    onGraphResetTraffic: () => {},
+    onGraphUpdateTraffic: () => {},
+    onGraphRefreshFromState: () => {},
+    now: () => clock,
+    parseTrafficConnectorSpecFn: () => ({ kind: "flow" }),
+    createTrafficConnectorFn: () =>
+      Promise.resolve({
+        kind: "flow",
+        start: (onUpdate) => {
+          updateCallbacks.push(onUpdate as (payload: unknown) => void);
+          return () => {};
+        },
+      }),
+    checkTrafficPayloadFn: (payload) => noIssues(payload as TrafficUpdate[]),
+  });
+
+  service.setCurrentPaths({
+    basePath: "data/networks/small-office",
+    trafficPath: "data/networks/small-office/traffic.json",
+  });
+  await service.startForCurrentSource("default");
+  const send = updateCallbacks[0];
+
+  // c1 crosses the threshold once; only c2 keeps changing.
+  send([{ connectionId: "c1", utilization: 0.9 }]);
+  clock = 5000;
+  send([{ connectionId: "c2", utilization: 0.1 }]);
+  assertEquals(actions.some((a) => a.type === "setAlerts"), false);
+  clock = 12_000;
+  send([{ connectionId: "c2", utilization: 0.2 }]);
+
+  const alerts = actions.filter((a) => a.type === "setAlerts").at(-1);
+  assertEquals(
+    alerts?.type === "setAlerts" &&
+      alerts.alerts.map((a) => [a.id, a.startedAt, a.resolvedAt]),
+    [["hot:c1", 0, null]],
+  );
+
+  service.teardown();
+});
+
 Deno.test("trafficService: invalid payload is reported and does not update graph", async () => {
   const actions: Action[] = [];
   let graphUpdateCalls = 0;
@@ -225,7 +336,7 @@ Deno.test("trafficService: invalid payload is reported and does not update graph
     },
     onGraphRefreshFromState: () => {},
     parseTrafficConnectorSpecFn: () => ({ kind: "flow" }),
-    parseTrafficUpdatesPayloadFn: () => {
+    checkTrafficPayloadFn: () => {
       throw new Error("bad payload");
     },
     createTrafficConnectorFn: () =>
@@ -253,3 +364,427 @@ Deno.test("trafficService: invalid payload is reported and does not update graph
     true,
   );
 });
+
+Deno.test("trafficService: good payloads only clear a payload error", async () => {
+  const actions: Action[] = [];
+  const updateCallbacks: Array<(payload: unknown) => void> = [];
+
+  const service = createTrafficService({
+    dispatch: (action) => actions.push(action),
+    loadJson: () => Promise.resolve(null),
+    doFetch: () => Promise.resolve(new Response(null, { status: 404 })),
+    formatStatusError: (err) => String((err as Error).message ?? err),
+    onGraphResetTraffic: () => {},
+    onGraphUpdateTraffic: () => {},
+    onGraphRefreshFromState: () => {},
+    parseTrafficConnectorSpecFn: () => ({ kind: "flow" }),
+    checkTrafficPayloadFn: (payload) => {
+      if (!Array.isArray(payload)) throw new Error("bad payload");
+      return noIssues(payload as TrafficUpdate[]);
+    },
+    createTrafficConnectorFn: () =>
+      Promise.resolve({
+        kind: "default",
+        start: (onUpdate) => {
+          updateCallbacks.push(onUpdate as (payload: unknown) => void);
+          return () => {};
+        },
+      }),
+  });
+
+  service.setCurrentPaths({
+    basePath: "data/networks/small-office",
+    trafficPath: "data/networks/small-office/traffic.json",
+  });
+  await service.startForCurrentSource("default");
+  const send = updateCallbacks[0];
+  const statusTexts = () =>
+    actions.flatMap((a) => a.type === "setStatusText" ? [a.text] : []);
+
+  // E.g. "Recording traffic…" set by the controller stays up.
+  const before = statusTexts().length;
+  send([{ connectionId: "c1", utilization: 0.2 }]);
+  assertEquals(statusTexts().length, before);
+
+  send({ nope: true });
+  send([{ connectionId: "c1", utilization: 0.3 }]);
+  send([{ connectionId: "c1", utilization: 0.4 }]);
+  assertEquals(statusTexts().slice(before), [
+    "Traffic payload invalid: bad payload",
+    "",
+  ]);
+});
+
+Deno.test("trafficService: applies good entries and reports the rest", async () => {
+  const actions: Action[] = [];
+  const graphTrafficUpdates: TrafficUpdate[][] = [];
+
+  const service = createTrafficService({
+    dispatch: (action) => actions.push(action),
+    loadJson: () => Promise.resolve(null),
+    doFetch: () => Promise.resolve(new Response(null, { status: 404 })),
+    formatStatusError: (err) => String((err as Error).message ?? err),
+    now: () => 1000,
+    onGraphResetTraffic: () => {},
+    onGraphUpdateTraffic: (updates) => graphTrafficUpdates.push(updates),
+    onGraphRefreshFromState: () => {},
+    parseTrafficConnectorSpecFn: () => ({ kind: "flow" }),
+    checkTrafficPayloadFn: checkTrafficPayload,
+    getConnections: () => [{ id: "c1" }],
+    createTrafficConnectorFn: () =>
+      Promise.resolve({
+        kind: "flow",
+        start: (onUpdate) => {
+          onUpdate([
+            { connectionId: "c1", utilization: 0.4 },
+            { connectionId: "ghost", utilization: 0.1 },
+            { utilization: 0.2 },
+          ]);
+          onUpdate("nope");
+          return () => {};
+        },
+      }),
+  });
+
+  service.setCurrentPaths({
+    basePath: "data/networks/small-office",
+    trafficPath: "data/networks/small-office/traffic.json",
+  });
+  await service.startForCurrentSource("default");
+
+  assertEquals(graphTrafficUpdates, [[{
+    connectionId: "c1",
+    utilization: 0.4,
+  }]]);
+  const diagnostics = actions.filter((a) => a.type === "setTrafficDiagnostics")
+    .at(-1);
+  assertEquals(
+    diagnostics?.type === "setTrafficDiagnostics" &&
+      diagnostics.diagnostics.recent.map((e) => [e.kind, e.connectionId]),
+    [
+      ["invalid", undefined],
+      ["invalid", undefined],
+      ["unknownConnection", "ghost"],
+    ],
+  );
+  assertEquals(
+    diagnostics?.type === "setTrafficDiagnostics" &&
+      diagnostics.diagnostics.dropped,
+    2,
+  );
+});
+
+Deno.test("trafficService: scrubbing replays history and pauses live updates", async () => {
+  const actions: Action[] = [];
+  const graphTrafficUpdates: TrafficUpdate[][] = [];
+  const updateCallbacks: Array<(payload: unknown) => void> = [];
+  let clock = 0;
+
+  const service = createTrafficService({
+    dispatch: (action) => actions.push(action),
+    loadJson: () => Promise.resolve(null),
+    doFetch: () => Promise.resolve(new Response(null, { status: 404 })),
+    formatStatusError: (err) => String(err),
+    now: () => clock,
+    onGraphResetTraffic: () => {},
+    onGraphUpdateTraffic: (updates) => graphTrafficUpdates.push(updates),
+    onGraphRefreshFromState: () => {},
+    parseTrafficConnectorSpecFn: () => ({ kind: "flow" }),
+    createTrafficConnectorFn: () =>
+      Promise.resolve({
+        kind: "default",
+        start: (onUpdate) => {
+          updateCallbacks.push(onUpdate as (payload: unknown) => void);
+          return () => {};
+        },
+      }),
+    checkTrafficPayloadFn: (payload) => noIssues(payload as TrafficUpdate[]),
+  });
+
+  service.setCurrentPaths({
+    basePath: "data/networks/small-office",
+    trafficPath: "data/networks/small-office/traffic.json",
+  });
+  await service.startForCurrentSource("default");
+  const callback = updateCallbacks[0];
+
+  clock = 1000;
+  callback([{ connectionId: "c1", utilization: 0.2 }]);
+  clock = 5000;
+  callback([{ connectionId: "c1", utilization: 0.9 }]);
+
+  service.scrubTo(2000);
+  assertEquals(graphTrafficUpdates.at(-1), [
+    { connectionId: "c1", utilization: 0.2 },
+  ]);
+
+  // Live updates keep being recorded but do not touch the scrubbed view.
+  const graphCallsWhilePaused = graphTrafficUpdates.length;
+  clock = 9000;
+  callback([{ connectionId: "c1", utilization: 0.5 }]);
+  assertEquals(graphTrafficUpdates.length, graphCallsWhilePaused);
+  assertEquals(actions.at(-1), {
+    type: "setTrafficHistoryRange",
+    range: { startMs: 1000, endMs: 9000 },
+  });
+
+  service.scrubTo(null);
+  assertEquals(graphTrafficUpdates.at(-1), [
+    { connectionId: "c1", utilization: 0.5 },
+  ]);
+  assertEquals(
+    actions.filter((a) => a.type === "setTrafficScrub"),
+    [
+      { type: "setTrafficScrub", atMs: 2000 },
+      { type: "setTrafficScrub", atMs: null },
+    ],
+  );
+});
+
+Deno.test("trafficService: merges device status and logs status changes", async () => {
+  const actions: Action[] = [];
+  const updateCallbacks: Array<(payload: unknown) => void> = [];
+
+  const service = createTrafficService({
+    dispatch: (action) => actions.push(action),
+    loadJson: () => Promise.resolve(null),
+    doFetch: () => Promise.resolve(new Response(null, { status: 404 })),
+    formatStatusError: (err) => String(err),
+    onGraphResetTraffic: () => {},
+    onGraphUpdateTraffic: () => {},
+    onGraphRefreshFromState: () => {},
+    parseTrafficConnectorSpecFn: () => ({ kind: "flow" }),
+    createTrafficConnectorFn: () =>
+      Promise.resolve({
+        kind: "default",
+        start: (onUpdate) => {
+          updateCallbacks.push(onUpdate as (payload: unknown) => void);
+          return () => {};
+        },
+      }),
+    checkTrafficPayloadFn: checkTrafficPayload,
+    now: () => 1000,
+  });
+
+  service.setCurrentPaths({
+    basePath: "data/networks/small-office",
+    trafficPath: "data/networks/small-office/traffic.json",
+  });
+  await service.startForCurrentSource("default");
+
+  updateCallbacks[0]({
+    updates: [{ connectionId: "c1", rateMbps: 5 }],
+    devices: [{ deviceId: "core", status: "up" }],
+  });
+  updateCallbacks[0]({ devices: [{ deviceId: "core", status: "down" }] });
+
+  const deviceActions = actions.filter((a) => a.type === "setDeviceStatus");
+  assertEquals(deviceActions.at(-1), {
+    type: "setDeviceStatus",
+    deviceStatus: [{ deviceId: "core", status: "down" }],
+  });
+  assertEquals(
+    actions.filter((a) => a.type === "logEvents").map((a) =>
+      a.type === "logEvents" ? a.events : []
+    ),
+    [[{
+      at: 1000,
+      kind: "device",
+      deviceId: "core",
+      message: "Device reported down (was up)",
+    }]],
+  );
+});
+
+Deno.test("trafficService: records the source and replays from a position", async () => {
+  const actions: Action[] = [];
+  const updateCallbacks: Array<(payload: unknown) => void> = [];
+  let clock = 0;
+
+  const service = createTrafficService({
+    dispatch: (action) => actions.push(action),
+    loadJson: () => Promise.resolve(null),
+    doFetch: () => Promise.resolve(new Response(null, { status: 404 })),
+    formatStatusError: (err) => String(err),
+    now: () => clock,
+    onGraphResetTraffic: () => {},
+    onGraphUpdateTraffic: () => {},
+    onGraphRefreshFromState: () => {},
+    parseTrafficConnectorSpecFn: () => ({ kind: "real" }),
+    createTrafficConnectorFn: () =>
+      Promise.resolve({
+        kind: "default",
+        start: (onUpdate) => {
+          updateCallbacks.push(onUpdate as (payload: unknown) => void);
+          return () => {};
+        },
+      }),
+    checkTrafficPayloadFn: checkTrafficPayload,
+  });
+
+  service.setCurrentPaths({
+    basePath: "data/networks/small-office",
+    trafficPath: "data/networks/small-office/traffic.json",
+  });
+  await service.startForCurrentSource("default");
+  service.startRecording();
+  clock = 1000;
+  updateCallbacks[0]([{ connectionId: "c1", utilization: 0.2 }]);
+  clock = 3000;
+  updateCallbacks[0]([{ connectionId: "c1", utilization: 0.9 }]);
+  const recording = service.stopRecording();
+  if (!recording) throw new Error("Expected a recording");
+  assertEquals(recording.source, "real");
+  assertEquals(recording.payloads.map((p) => p.t), [1, 3]);
+
+  service.startReplay(recording);
+  await service.pausePlayback(true);
+  await service.seekPlayback(2);
+
+  const lastOf = <T extends Action["type"]>(type: T) =>
+    actions.filter((a) => a.type === type).at(-1);
+  assertEquals(lastOf("setTraffic"), {
+    type: "setTraffic",
+    traffic: [{ connectionId: "c1", utilization: 0.2 }],
+  });
+  assertEquals(lastOf("setTrafficPlayback"), {
+    type: "setTrafficPlayback",
+    playback: { positionSec: 2, durationSec: 3, paused: true, replay: true },
+  });
+
+  // Seeking back starts the replay over and catches up.
+  await service.seekPlayback(0.5);
+  assertEquals(lastOf("setTraffic"), { type: "setTraffic", traffic: [] });
+  service.stepPlayback(1);
+  assertEquals(lastOf("setTraffic"), {
+    type: "setTraffic",
+    traffic: [{ connectionId: "c1", utilization: 0.2 }],
+  });
+  assertEquals(updateCallbacks.length, 1);
+
+  service.endReplay();
+  assertEquals(lastOf("setTrafficPlayback"), {
+    type: "setTrafficPlayback",
+    playback: null,
+  });
+});
+
+Deno.test("trafficService: steps and seeks a clock-driven source", async () => {
+  const actions: Action[] = [];
+  let starts = 0;
+
+  const service = createTrafficService({
+    dispatch: (action) => actions.push(action),
+    loadJson: () => Promise.resolve(null),
+    doFetch: () => Promise.resolve(new Response(null, { status: 404 })),
+    formatStatusError: (err) => String(err),
+    onGraphResetTraffic: () => {},
+    onGraphUpdateTraffic: () => {},
+    onGraphRefreshFromState: () => {},
+    parseTrafficConnectorSpecFn: () => ({ kind: "flow" }),
+    // Reports the simulated second as the rate of one link.
+    createTrafficConnectorFn: (_spec, { clock }) =>
+      Promise.resolve({
+        kind: "flow",
+        playback: { durationSec: 10 },
+        start: (onUpdate) => {
+          starts += 1;
+          return clock!.every(1, (nowSec) =>
+            onUpdate([{ connectionId: "c1", rateMbps: nowSec }]));
+        },
+      }),
+    checkTrafficPayloadFn: (payload) => noIssues(payload as TrafficUpdate[]),
+  });
+
+  service.setCurrentPaths({
+    basePath: "data/networks/small-office",
+    trafficPath: "data/networks/small-office/traffic.json",
+  });
+  await service.startForCurrentSource("default");
+  const lastOf = <T extends Action["type"]>(type: T) =>
+    actions.filter((a) => a.type === type).at(-1);
+  assertEquals(lastOf("setTrafficPlayback"), {
+    type: "setTrafficPlayback",
+    playback: { positionSec: 0, durationSec: 10, paused: false, replay: false },
+  });
+
+  // Stepping pauses first.
+  service.stepPlayback(2);
+  assertEquals(lastOf("setTraffic"), {
+    type: "setTraffic",
+    traffic: [{ connectionId: "c1", rateMbps: 2 }],
+  });
+  await service.seekPlayback(5);
+  assertEquals(lastOf("setTraffic"), {
+    type: "setTraffic",
+    traffic: [{ connectionId: "c1", rateMbps: 5 }],
+  });
+  assertEquals(starts, 1);
+
+  await service.seekPlayback(3);
+  assertEquals(starts, 2);
+  assertEquals(lastOf("setTraffic"), {
+    type: "setTraffic",
+    traffic: [{ connectionId: "c1", rateMbps: 3 }],
+  });
+  assertEquals(lastOf("setTrafficPlayback"), {
+    type: "setTrafficPlayback",
+    playback: { positionSec: 3, durationSec: 10, paused: true, replay: false },
+  });
+
+  service.teardown();
+  assertEquals(lastOf("setTrafficPlayback"), {
+    type: "setTrafficPlayback",
+    playback: null,
+  });
+});
+
+Deno.test("trafficService: times clock-driven payloads by clock position", async () => {
+  const actions: Action[] = [];
+
+  const service = createTrafficService({
+    dispatch: (action) => actions.push(action),
+    loadJson: () => Promise.resolve(null),
+    doFetch: () => Promise.resolve(new Response(null, { status: 404 })),
+    formatStatusError: (err) => String(err),
+    onGraphResetTraffic: () => {},
+    onGraphUpdateTraffic: () => {},
+    onGraphRefreshFromState: () => {},
+    now: () => 50_000,
+    parseTrafficConnectorSpecFn: () => ({ kind: "flow" }),
+    createTrafficConnectorFn: (_spec, { clock }) =>
+      Promise.resolve({
+        kind: "flow",
+        playback: { durationSec: null },
+        start: (onUpdate) =>
+          clock!.every(1, (nowSec) =>
+            onUpdate([{ connectionId: "c1", rateMbps: nowSec }])),
+      }),
+    checkTrafficPayloadFn: (payload) => noIssues(payload as TrafficUpdate[]),
+  });
+
+  service.setCurrentPaths({
+    basePath: "data/networks/small-office",
+    trafficPath: "data/networks/small-office/traffic.json",
+  });
+  await service.startForCurrentSource("default");
+  await service.pausePlayback(true);
+  // The whole seek runs at one wall-clock instant.
+  await service.seekPlayback(30);
+
+  const ranges = actions.filter((a) => a.type === "setTrafficHistoryRange");
+  assertEquals(ranges.length, 30);
+  assertEquals(ranges.at(-1), {
+    type: "setTrafficHistoryRange",
+    range: { startMs: 51_000, endMs: 80_000 },
+  });
+  assertEquals(
+    service.getConnectionHistory("c1").slice(0, 2).map((s) => [
+      s.at,
+      s.traffic.rateMbps,
+    ]),
+    [[51_000, 1], [52_000, 2]],
+  );
+
+  service.teardown();
+});
@@ -1,11 +1,16 @@
 import type {
   Connection,
+  DeviceStatusUpdate,
   DeviceType,
   NetworkDevice,
   TrafficUpdate,
 } from "../domain/types.ts";
 import type { SortDir, SortKey } from "../search.ts";
 import type { Action } from "./actions.ts";
+import type { TrafficHistoryRange } from "./trafficHistory.ts";
+import type { Alert } from "./alerts.ts";
+import type { AppEvent } from "./events.ts";
+import type { TrafficDiagnostics } from "./trafficDiagnostics.ts";
 
 export type State = {
   networkId: string;
@@ -19,10 +24,45 @@ export type State = {
   devices: NetworkDevice[];
   connections: Connection[];
   traffic: TrafficUpdate[];
+  // Latest status each device reported about itself (see deviceHealth.ts
+  // for the status derived from its links).
+  deviceStatus: DeviceStatusUpdate[];
+  // Time span the traffic history covers, and the scrubbed-to timestamp
+  // (null while following live traffic).
+  trafficHistoryRange: TrafficHistoryRange | null;
+  trafficScrubMs: number | null;
+  // Active alerts first, then recently resolved ones.
+  alerts: Alert[];
+  // Link, connector and editor events, newest first (bounded).
+  events: AppEvent[];
   deviceTypes: Record<string, DeviceType>;
   trafficSourceKind: string;
   trafficVizKind: string;
   layoutKind: string;
+  // Root tier for the blast-radius analysis of the selection ("" = off).
+  blastRadiusRoot: string;
+  // Highlight single points of failure and bridge links on the graph.
+  resilienceOverlay: boolean;
+  // Devices and links marked failed in what-if mode; the topology itself is
+  // left untouched.
+  failedDeviceIds: Set<string>;
+  failedConnectionIds: Set<string>;
+  // Capturing the traffic source's payloads for download.
+  trafficRecording: boolean;
+  // Simulated time of a clock-driven traffic source or a replayed recording
+  // (null for live sources).
+  trafficPlayback: TrafficPlaybackState | null;
+  // Problems found in traffic payloads since the source started.
+  trafficDiagnostics: TrafficDiagnostics;
+};
+
+export type TrafficPlaybackState = {
+  positionSec: number;
+  // Length of the scripted part; null when open-ended.
+  durationSec: number | null;
+  paused: boolean;
+  // Playing a loaded recording rather than the network's source.
+  replay: boolean;
 };
 
 export type Dispatch = (action: Action) => void;
@@ -0,0 +1,80 @@
+import { buildAdjacency } from "../lib/graph/adjacency.ts";
+import { computeBlastRadius } from "../lib/graph/blastRadius.ts";
+import type { TieredTierName } from "../domain/layoutHints.ts";
+import { uplinkTargets } from "./resilience.ts";
+import type { State } from "./types.ts";
+
+export type WhatIfResult = {
+  // Tier the surviving devices are checked against (null when the network
+  // has no edge or internet devices; only failed devices are cut off then).
+  rootTier: TieredTierName | null;
+  // Devices that can no longer reach the root tier because of the failures,
+  // not counting the failed devices themselves.
+  unreachableIds: string[];
+};
+
+export const hasFailures = (state: State): boolean =>
+  state.failedDeviceIds.size > 0 || state.failedConnectionIds.size > 0;
+
+// Links that are down in what-if mode: the ones marked failed plus every
+// link of a failed device.
+export const selectFailedLinks = (state: State): Set<string> => {
+  const failed = new Set(state.failedConnectionIds);
+  state.connections.forEach((c) => {
+    if (
+      state.failedDeviceIds.has(c.from.deviceId) ||
+      state.failedDeviceIds.has(c.to.deviceId)
+    ) {
+      failed.add(c.id);
+    }
+  });
+  return failed;
+};
+
+export const selectWhatIf = (state: State): WhatIfResult | null => {
+  if (!hasFailures(state)) return null;
+  const { tier, ids } = uplinkTargets(state.devices);
+  if (!tier) return { rootTier: null, unreachableIds: [] };
+
+  const { disconnected } = computeBlastRadius(
+    buildAdjacency(state.connections),
+    ids,
+    {
+      deviceIds: state.failedDeviceIds,
+      connectionIds: state.failedConnectionIds,
+    },
+  );
+  return { rootTier: tier, unreachableIds: disconnected };
+};
+
+export type WhatIfSelection = {
+  failedLinks: Set<string>;
+  result: WhatIfResult | null;
+};
+
+// `selectFailedLinks` and `selectWhatIf` memoized for callers that run on
+// every dispatch (traffic ticks included). The reducer replaces the topology
+// and the failure sets by reference whenever they change.
+export const createWhatIfSelector = () => {
+  let lastInput: unknown[] | null = null;
+  let lastSelection: WhatIfSelection | null = null;
+  return (state: State): WhatIfSelection => {
+    const input = [
+      state.devices,
+      state.connections,
+      state.failedDeviceIds,
+      state.failedConnectionIds,
+    ];
+    if (
+      !lastSelection || !lastInput ||
+      input.some((v, i) => v !== lastInput![i])
+    ) {
+      lastInput = input;
+      lastSelection = {
+        failedLinks: selectFailedLinks(state),
+        result: selectWhatIf(state),
+      };
+    }
+    return lastSelection;
+  };
+};
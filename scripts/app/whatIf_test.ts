@@ -0,0 +1,146 @@
+import { assertEquals } from "@std/assert";
+import { DEVICE_KIND_SWITCH } from "../domain/deviceKind.ts";
+import { TIERED_TIER_NAMES } from "../domain/layoutHints.ts";
+import type { Connection, NetworkDevice } from "../domain/types.ts";
+import { reduce } from "./reducers.ts";
+import type { State } from "./types.ts";
+import { emptyTrafficDiagnostics } from "./trafficDiagnostics.ts";
+import { createWhatIfSelector, selectWhatIf } from "./whatIf.ts";
+
+const mkDevice = (id: string, tier: string): NetworkDevice => ({
+  id,
+  name: id.toUpperCase(),
+  type: "switch",
+  deviceKind: DEVICE_KIND_SWITCH,
+  layoutTierIndexHint: TIERED_TIER_NAMES.indexOf(
+    tier as (typeof TIERED_TIER_NAMES)[number],
+  ),
+});
+
+const mkLink = (id: string, a: string, b: string): Connection => ({
+  id,
+  from: { deviceId: a },
+  to: { deviceId: b },
+});
+
+// edge - core-1 - acc-1
+//     \- core-2 - acc-2 (also uplinked to core-1)
+const baseState: State = {
+  networkId: "campus",
+  statusText: "",
+  filter: "",
+  sortKey: "name",
+  sortDir: "asc",
+  selected: new Set<string>(),
+  page: 1,
+  pageSize: 25,
+  devices: [
+    mkDevice("edge", "edge"),
+    mkDevice("core-1", "core"),
+    mkDevice("core-2", "core"),
+    mkDevice("acc-1", "access"),
+    mkDevice("acc-2", "access"),
+  ],
+  connections: [
+    mkLink("e-1", "edge", "core-1"),
+    mkLink("e-2", "edge", "core-2"),
+    mkLink("1-a1", "core-1", "acc-1"),
+    mkLink("2-a2", "core-2", "acc-2"),
+    mkLink("1-a2", "core-1", "acc-2"),
+  ],
+  traffic: [],
+  deviceStatus: [],
+  trafficHistoryRange: null,
+  trafficScrubMs: null,
+  alerts: [],
+  events: [],
+  deviceTypes: {},
+  trafficSourceKind: "default",
+  trafficVizKind: "classic",
+  layoutKind: "force",
+  blastRadiusRoot: "",
+  resilienceOverlay: false,
+  failedDeviceIds: new Set<string>(),
+  failedConnectionIds: new Set<string>(),
+  trafficRecording: false,
+  trafficPlayback: null,
+  trafficDiagnostics: emptyTrafficDiagnostics(),
+};
+
+Deno.test("whatIf: failures toggle and clear on network change", () => {
+  let state = reduce(baseState, {
+    type: "toggleFailure",
+    kind: "device",
+    id: "core-1",
+  });
+  state = reduce(state, {
+    type: "toggleFailure",
+    kind: "connection",
+    id: "e-2",
+  });
+  assertEquals(Array.from(state.failedDeviceIds), ["core-1"]);
+  assertEquals(Array.from(state.failedConnectionIds), ["e-2"]);
+  // Topology is untouched.
+  assertEquals(state.connections, baseState.connections);
+
+  state = reduce(state, {
+    type: "toggleFailure",
+    kind: "device",
+    id: "core-1",
+  });
+  assertEquals(state.failedDeviceIds.size, 0);
+
+  state = reduce(state, { type: "setNetworkId", networkId: "metro-ring" });
+  assertEquals(state.failedConnectionIds.size, 0);
+});
+
+Deno.test("whatIf: lists devices cut off from the edge tier", () => {
+  assertEquals(selectWhatIf(baseState), null);
+
+  const coreDown = reduce(baseState, {
+    type: "toggleFailure",
+    kind: "device",
+    id: "core-1",
+  });
+  // acc-2 still reaches the edge through core-2.
+  assertEquals(selectWhatIf(coreDown), {
+    rootTier: "edge",
+    unreachableIds: ["acc-1"],
+  });
+
+  const uplinkDown = reduce(coreDown, {
+    type: "toggleFailure",
+    kind: "connection",
+    id: "e-2",
+  });
+  assertEquals(selectWhatIf(uplinkDown)?.unreachableIds, [
+    "core-2",
+    "acc-1",
+    "acc-2",
+  ]);
+});
+
+Deno.test("whatIf: the selector recomputes only when failures or topology change", () => {
+  const select = createWhatIfSelector();
+  const coreDown = reduce(baseState, {
+    type: "toggleFailure",
+    kind: "device",
+    id: "core-1",
+  });
+  const first = select(coreDown);
+  assertEquals(first.result?.unreachableIds, ["acc-1"]);
+  assertEquals(first.failedLinks.has("e-1"), true);
+
+  // A traffic tick leaves the analysis alone.
+  const ticked = reduce(coreDown, {
+    type: "setTraffic",
+    traffic: [{ connectionId: "e-2", utilization: 0.4 }],
+  });
+  assertEquals(select(ticked) === first, true);
+
+  const restored = reduce(ticked, { type: "clearFailures" });
+  assertEquals(select(restored), {
+    failedLinks: new Set<string>(),
+    result: null,
+  });
+});
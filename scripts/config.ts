@@ -64,6 +64,8 @@ export const GRAPH_DEFAULTS = {
   filters: {
     selectedDim: "brightness(0.65) saturate(0.4)",
     filteredDim: "brightness(0.78) saturate(0.55)",
+    // Failed or cut-off devices in what-if mode.
+    failedDim: "grayscale(1) brightness(0.45)",
   },
 } as const;
 
@@ -82,15 +84,39 @@ export const GRAPH_COLORS = {
   // Traffic visualization palette.
   trafficNeutral: "#64748b",
   trafficOverlayFallback: "#38bdf8",
+
+  // Glow behind links with an active alert, by severity.
+  alert: {
+    critical: "#fb7185",
+    warning: "#fbbf24",
+    info: "#38bdf8",
+  },
+
+  // Halo around devices in the selection's blast radius.
+  blastRadius: "#f97316",
+
+  // Single points of failure and bridge links in the resilience overlay.
+  spof: "#e879f9",
+
+  // Node card outline for devices that are not healthy.
+  deviceHealth: {
+    degraded: "#fbbf24",
+    isolated: "#f87171",
+    down: "#f87171",
+  },
 } as const;
 
 export const TRAFFIC_STYLE = {
   downStatus: "down",
   downColor: "#f87171",
+  // Flow simulation: link sits on a path whose traffic has nowhere to go.
+  blackholedStatus: "blackholed",
+  blackholedColor: "#c084fc",
 
   dash: {
     none: "0",
     down: "6 4",
+    blackholed: "2 5",
     up: "10 8",
   },
 
@@ -120,4 +146,69 @@ export const TRAFFIC_STYLE = {
     minWidth: 1.2,
     maxWidth: 8,
   },
+
+  // Flow-dashes: perpendicular gap between the A→B and B→A lanes (px).
+  directionLaneOffsetPx: 2.2,
+
+  // Particles: dots emitted per second per Mbps of a lane's rate (all lanes
+  // scale down together once the busiest would pass the per-lane cap), their
+  // travel speed, and a cap on dots in flight across the graph.
+  particles: {
+    perSecondPerMbps: 0.01,
+    maxPerSecondPerLane: 12,
+    speedPxPerSec: 70,
+    radius: 2.2,
+    maxParticles: 400,
+  },
+} as const;
+
+// Traffic history kept for the time scrubber: how far back and at what
+// granularity (later updates within one slot replace earlier ones).
+export const TRAFFIC_HISTORY = {
+  durationMs: 15 * 60 * 1000,
+  resolutionMs: 1000,
+} as const;
+
+// Alerts: how often pending holds are re-checked when no update arrives
+// (sources may only send links that changed).
+export const TRAFFIC_ALERTS = {
+  recheckMs: 1000,
+} as const;
+
+// Event log: entries kept, and the utilization levels (0..1) whose crossing
+// is logged for a link.
+export const EVENT_LOG = {
+  maxEntries: 200,
+  utilizationBands: [0.5, 0.8, 0.9],
+} as const;
+
+// Path explorer: how many loop-free paths to list between two devices.
+export const PATH_EXPLORER = {
+  maxPaths: 5,
+} as const;
+
+// Capacity planning: peak utilization (0..1) at which a link is flagged as
+// approaching saturation.
+export const CAPACITY_PLANNING = {
+  saturationUtilization: 0.8,
+} as const;
+
+// Playback of clock-driven traffic sources: simulated seconds per step, and
+// how far past the current time the seek slider reaches for open-ended
+// sources.
+export const TRAFFIC_PLAYBACK = {
+  stepSec: 1,
+  seekAheadSec: 60,
+} as const;
+
+// Traffic payload diagnostics: link/device statuses the views understand, and
+// how many recent issues the Diagnostics list keeps.
+export const TRAFFIC_DIAGNOSTICS = {
+  knownStatuses: [
+    "up",
+    TRAFFIC_STYLE.downStatus,
+    "degraded",
+    TRAFFIC_STYLE.blackholedStatus,
+  ],
+  maxEntries: 100,
 } as const;
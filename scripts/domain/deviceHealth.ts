@@ -0,0 +1,84 @@
+import type { Connection, DeviceStatusUpdate, TrafficUpdate } from "./types.ts";
+
+// "isolated": every link is down; "degraded": some are (or the device says
+// so); "down": the device itself reported down.
+export type DeviceHealth = "ok" | "degraded" | "isolated" | "down";
+
+const HEALTH_RANK: Record<DeviceHealth, number> = {
+  ok: 0,
+  degraded: 1,
+  isolated: 2,
+  down: 3,
+};
+
+const worse = (a: DeviceHealth, b: DeviceHealth) =>
+  HEALTH_RANK[b] > HEALTH_RANK[a] ? b : a;
+
+const reportedHealth = (status: string | undefined): DeviceHealth => {
+  switch (status?.toLowerCase()) {
+    case "down":
+      return "down";
+    case "degraded":
+      return "degraded";
+    default:
+      return "ok";
+  }
+};
+
+export type DeviceHealthDetail = {
+  health: DeviceHealth;
+  reportedStatus?: string;
+  linksDown: number;
+  linksTotal: number;
+};
+
+// Combines reported device status with the state of each device's links.
+// Only devices that are not "ok" are returned.
+export const deriveDeviceHealth = (
+  {
+    connections,
+    traffic,
+    deviceStatus,
+    downStatus = "down",
+  }: {
+    connections: Connection[];
+    traffic: TrafficUpdate[];
+    deviceStatus: DeviceStatusUpdate[];
+    downStatus?: string;
+  },
+): Map<string, DeviceHealthDetail> => {
+  const downLinks = new Set(
+    traffic.filter((t) => t.status === downStatus).map((t) => t.connectionId),
+  );
+  const links = new Map<string, { down: number; total: number }>();
+  const count = (deviceId: string, isDown: boolean) => {
+    const entry = links.get(deviceId) ?? { down: 0, total: 0 };
+    entry.total += 1;
+    if (isDown) entry.down += 1;
+    links.set(deviceId, entry);
+  };
+  connections.forEach((c) => {
+    const isDown = downLinks.has(c.id);
+    count(c.from.deviceId, isDown);
+    if (c.to.deviceId !== c.from.deviceId) count(c.to.deviceId, isDown);
+  });
+  const reported = new Map(deviceStatus.map((d) => [d.deviceId, d.status]));
+
+  const out = new Map<string, DeviceHealthDetail>();
+  new Set([...links.keys(), ...reported.keys()]).forEach((deviceId) => {
+    const { down, total } = links.get(deviceId) ?? { down: 0, total: 0 };
+    const reportedStatus = reported.get(deviceId);
+    const fromLinks: DeviceHealth = down === 0
+      ? "ok"
+      : (down === total ? "isolated" : "degraded");
+    const health = worse(reportedHealth(reportedStatus), fromLinks);
+    if (health === "ok") return;
+    out.set(deviceId, {
+      health,
+      ...(reportedStatus ? { reportedStatus } : {}),
+      linksDown: down,
+      linksTotal: total,
+    });
+  });
+  return out;
+};
@@ -0,0 +1,47 @@
+import { assertEquals } from "@std/assert";
+import { deriveDeviceHealth } from "./deviceHealth.ts";
+
+const connections = [
+  { id: "c1", from: { deviceId: "core" }, to: { deviceId: "a" } },
+  { id: "c2", from: { deviceId: "core" }, to: { deviceId: "b" } },
+];
+
+Deno.test("deviceHealth: derives isolated and degraded from link status", () => {
+  const health = deriveDeviceHealth({
+    connections,
+    traffic: [{ connectionId: "c1", status: "down" }, {
+      connectionId: "c2",
+      status: "up",
+    }],
+    deviceStatus: [],
+  });
+
+  assertEquals(Array.from(health.keys()).sort(), ["a", "core"]);
+  assertEquals(health.get("a"), {
+    health: "isolated",
+    linksDown: 1,
+    linksTotal: 1,
+  });
+  assertEquals(health.get("core")?.health, "degraded");
+});
+
+Deno.test("deviceHealth: reported status wins when it is worse", () => {
+  const health = deriveDeviceHealth({
+    connections,
+    traffic: [{ connectionId: "c1", status: "down" }],
+    deviceStatus: [
+      { deviceId: "core", status: "down" },
+      { deviceId: "a", status: "up" },
+      { deviceId: "b", status: "degraded" },
+    ],
+  });
+
+  assertEquals(health.get("core")?.health, "down");
+  assertEquals(health.get("a")?.health, "isolated");
+  assertEquals(health.get("b"), {
+    health: "degraded",
+    reportedStatus: "degraded",
+    linksDown: 0,
+    linksTotal: 1,
+  });
+});
@@ -1,6 +1,8 @@
 import type {
   Connection,
   ConnectionEnd,
+  DeviceStatusUpdate,
+  DirectionalTraffic,
   NetworkDevice,
   TrafficUpdate,
 } from "./types.ts";
@@ -177,53 +179,108 @@ export function parseTrafficUpdatesFixture(
     });
 }
 
-// Strict helper for runtime traffic connectors.
-// Accepts:
+// Entries of a runtime traffic payload. Accepts:
 // - an array of update objects
 // - a single update object
 // - a timeline object `{ initial, updates }` (uses `initial` when present)
-// Throws on invalid payload shape or invalid update entries.
-export function parseTrafficUpdatesPayload(
+// - either object form with a `devices` array of device status updates (see
+//   `deviceStatusPayloadEntries`), possibly without any link updates
+// Throws on any other payload shape.
+export function trafficPayloadEntries(
   raw: unknown,
   ctx = "trafficPayload",
-): TrafficUpdate[] {
-  const list: unknown[] = (() => {
-    if (Array.isArray(raw)) return raw;
-
-    if (isRecord(raw)) {
-      const rec = raw as Record<string, unknown>;
-      if (Array.isArray(rec.initial)) return rec.initial;
-      if (Array.isArray(rec.updates)) return rec.updates;
-      return [raw];
+): unknown[] {
+  if (Array.isArray(raw)) return raw;
+
+  if (isRecord(raw)) {
+    const rec = raw as Record<string, unknown>;
+    if (Array.isArray(rec.initial)) return rec.initial;
+    if (Array.isArray(rec.updates)) return rec.updates;
+    if (Array.isArray(rec.devices) && rec.connectionId === undefined) {
+      return [];
     }
+    return [raw];
+  }
 
-    return fail(ctx, "expected an array, an object, or a timeline object");
-  })();
+  return fail(ctx, "expected an array, an object, or a timeline object");
+}
 
-  return list.map((v, index) => {
-    const itemCtx = `${ctx}[${index}]`;
-    if (!isRecord(v)) fail(itemCtx, "expected an object");
-    const rec = v as Rec;
+// One entry of a traffic payload. Throws on an invalid entry.
+export function parseTrafficUpdate(
+  v: unknown,
+  ctx = "trafficPayload[0]",
+): TrafficUpdate {
+  if (!isRecord(v)) fail(ctx, "expected an object");
+  const rec = v as Rec;
+
+  const connectionId = nonEmptyStr(rec.connectionId);
+  if (!connectionId) fail(ctx, "missing required field 'connectionId'");
+
+  const out: TrafficUpdate = { ...rec, connectionId };
+
+  const statusRaw = rec.status;
+  if (typeof statusRaw === "string") {
+    const status = statusRaw.trim();
+    if (status) out.status = status;
+  } else if (statusRaw !== undefined) {
+    fail(ctx, "field 'status' must be a string when provided");
+  }
 
-    const connectionId = nonEmptyStr(rec.connectionId);
-    if (!connectionId) fail(itemCtx, "missing required field 'connectionId'");
+  const rateMbps = toNum(rec.rateMbps);
+  if (rateMbps != null) out.rateMbps = rateMbps;
 
-    const out: TrafficUpdate = { ...rec, connectionId };
+  const utilization = toNum(rec.utilization);
+  if (utilization != null) out.utilization = utilization;
 
-    const statusRaw = rec.status;
-    if (typeof statusRaw === "string") {
-      const status = statusRaw.trim();
-      if (status) out.status = status;
-    } else if (statusRaw !== undefined) {
-      fail(itemCtx, "field 'status' must be a string when provided");
+  for (const dir of ["aToB", "bToA"] as const) {
+    const raw = rec[dir];
+    if (raw === undefined) continue;
+    if (!isRecord(raw)) {
+      fail(ctx, `field '${dir}' must be an object when provided`);
     }
+    const dirRec = raw as Rec;
+    const directional: DirectionalTraffic = { ...dirRec };
+    const dirRate = toNum(dirRec.rateMbps);
+    if (dirRate != null) directional.rateMbps = dirRate;
+    const dirUtil = toNum(dirRec.utilization);
+    if (dirUtil != null) directional.utilization = dirUtil;
+    out[dir] = directional;
+  }
 
-    const rateMbps = toNum(rec.rateMbps);
-    if (rateMbps != null) out.rateMbps = rateMbps;
+  return out;
+}
 
-    const utilization = toNum(rec.utilization);
-    if (utilization != null) out.utilization = utilization;
+// Entries of a traffic payload's `devices` array; payloads without one have
+// none. Throws when `devices` is not an array.
+export function deviceStatusPayloadEntries(
+  raw: unknown,
+  ctx = "trafficPayload.devices",
+): unknown[] {
+  if (!isRecord(raw)) return [];
+  const list = (raw as Rec).devices;
+  if (list === undefined) return [];
+  if (!Array.isArray(list)) fail(ctx, "expected an array");
+  return list as unknown[];
+}
 
-    return out;
-  });
+// One device status update. Throws on an invalid entry.
+export function parseDeviceStatusUpdate(
+  v: unknown,
+  ctx = "trafficPayload.devices[0]",
+): DeviceStatusUpdate {
+  if (!isRecord(v)) fail(ctx, "expected an object");
+  const rec = v as Rec;
+
+  const deviceId = nonEmptyStr(rec.deviceId);
+  if (!deviceId) fail(ctx, "missing required field 'deviceId'");
+
+  const out: DeviceStatusUpdate = { ...rec, deviceId };
+  if (typeof rec.status === "string") {
+    const status = rec.status.trim();
+    if (status) out.status = status;
+    else delete out.status;
+  } else if (rec.status !== undefined) {
+    fail(ctx, "field 'status' must be a string when provided");
+  }
+  return out;
 }
@@ -53,3 +53,21 @@ export const isLinkableInterfaceType = (
   if (!t) return false;
   return t.startsWith("eth-");
 };
+
+// Nominal line rate of an Ethernet interface type (Mbps). Wi-Fi and
+// unsupported types have no fixed rate.
+const ETHERNET_CAPACITY_MBPS: Partial<Record<InterfaceType, number>> = {
+  "eth-100m": 100,
+  "eth-1g": 1000,
+  "eth-2.5g": 2500,
+  "eth-5g": 5000,
+  "eth-10g": 10000,
+  "eth-25g": 25000,
+  "eth-40g": 40000,
+  "eth-50g": 50000,
+  "eth-100g": 100000,
+};
+
+export const interfaceTypeCapacityMbps = (
+  t: InterfaceType | undefined,
+): number | null => (t ? ETHERNET_CAPACITY_MBPS[t] ?? null : null);
@@ -26,6 +26,28 @@ const hash32 = (s: string): number => {
 // 6 endpoint
 // 7 unknown
 export const TIERED_TIER_UNKNOWN_INDEX = 7;
+export const TIERED_TIER_NAMES = [
+  "internet",
+  "edge",
+  "core",
+  "agg",
+  "access",
+  "service",
+  "endpoint",
+  "unknown",
+] as const;
+export type TieredTierName = (typeof TIERED_TIER_NAMES)[number];
+
+// Ids of devices whose role hint puts them in `tier`.
+export const tierDeviceIds = (
+  devices: Array<{ id: string; layoutTierIndexHint?: unknown }>,
+  tier: TieredTierName,
+): string[] => {
+  const index = TIERED_TIER_NAMES.indexOf(tier);
+  return devices
+    .filter((d) => d.layoutTierIndexHint === index)
+    .map((d) => d.id);
+};
 export const TIERED_TIER_SWITCH_SENTINEL = -1;
 
 const tierIndexForRole = (role: unknown): number => {
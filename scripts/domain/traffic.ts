@@ -0,0 +1,26 @@
+import type { TrafficUpdate } from "./types.ts";
+
+export type TrafficDirection = "aToB" | "bToA";
+
+export const hasDirectionalTraffic = (t: TrafficUpdate | undefined) =>
+  !!t && (t.aToB != null || t.bToA != null);
+
+const peakOf = (
+  t: TrafficUpdate | undefined,
+  field: "rateMbps" | "utilization",
+): number | undefined => {
+  if (!t) return undefined;
+  if (!hasDirectionalTraffic(t)) return t[field];
+  const values = [t.aToB?.[field], t.bToA?.[field]].filter(
+    (v): v is number => typeof v === "number" && Number.isFinite(v),
+  );
+  return values.length ? Math.max(...values) : t[field];
+};
+
+// Links are full duplex, so the busier direction is what saturates first.
+// Non-directional renderers use these instead of the aggregate fields.
+export const peakRateMbps = (t: TrafficUpdate | undefined) =>
+  peakOf(t, "rateMbps");
+
+export const peakUtilization = (t: TrafficUpdate | undefined) =>
+  peakOf(t, "utilization");
@@ -62,10 +62,28 @@ export type Connection = {
   [k: string]: unknown;
 };
 
+// Traffic in one direction of a connection. "A" is the connection's `from`
+// end and "B" its `to` end.
+export type DirectionalTraffic = {
+  rateMbps?: number;
+  utilization?: number;
+  [k: string]: unknown;
+};
+
 export type TrafficUpdate = {
   connectionId: string;
   status?: string;
   rateMbps?: number;
   utilization?: number;
+  aToB?: DirectionalTraffic;
+  bToA?: DirectionalTraffic;
+  [k: string]: unknown;
+};
+
+// Health reported for a device itself (e.g. "up", "degraded", "down"), sent
+// by connectors next to link traffic.
+export type DeviceStatusUpdate = {
+  deviceId: string;
+  status?: string;
   [k: string]: unknown;
 };
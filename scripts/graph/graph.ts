@@ -61,6 +61,16 @@ export function createGraph(
     args: {
       filteredIds?: Set<string> | Iterable<string>;
       selected: Set<string>;
+      linkAlerts?: Map<string, string>;
+      deviceHealth?: Map<string, string>;
+      blastRadius?: Set<string>;
+      focusedPath?: { nodes: Set<string>; links: Set<string> };
+      resilience?: { devices: Set<string>; links: Set<string> };
+      failures?: {
+        devices: Set<string>;
+        links: Set<string>;
+        unreachable: Set<string>;
+      };
     },
   ) => void;
   updateTraffic: (traffic?: TrafficUpdate[]) => void;
@@ -114,9 +124,27 @@ export function createGraph(
   renderer.setOnTickHook(() => trafficAdapter.onSimulationTick?.());
 
   // Remember the most recent styling inputs so we can re-apply after viz switches.
-  let lastUpdateArgs: { filteredIds: Set<string>; selected: Set<string> } = {
+  let lastUpdateArgs: {
+    filteredIds: Set<string>;
+    selected: Set<string>;
+    linkAlerts: Map<string, string>;
+    deviceHealth: Map<string, string>;
+    blastRadius: Set<string>;
+    focusedPath?: { nodes: Set<string>; links: Set<string> };
+    resilience: { devices: Set<string>; links: Set<string> };
+    failures: {
+      devices: Set<string>;
+      links: Set<string>;
+      unreachable: Set<string>;
+    };
+  } = {
     filteredIds: new Set(renderer.nodes.map((n) => n.id)),
     selected: new Set<string>(),
+    linkAlerts: new Map(),
+    deviceHealth: new Map(),
+    blastRadius: new Set(),
+    resilience: { devices: new Set(), links: new Set() },
+    failures: { devices: new Set(), links: new Set(), unreachable: new Set() },
   };
 
   let layoutKind = "force";
@@ -168,12 +196,44 @@ export function createGraph(
     {
       filteredIds = new Set<string>(),
       selected,
-    }: { filteredIds?: Set<string> | Iterable<string>; selected: Set<string> },
+      linkAlerts = new Map<string, string>(),
+      deviceHealth = new Map<string, string>(),
+      blastRadius = new Set<string>(),
+      focusedPath,
+      resilience = { devices: new Set<string>(), links: new Set<string>() },
+      failures = {
+        devices: new Set<string>(),
+        links: new Set<string>(),
+        unreachable: new Set<string>(),
+      },
+    }: {
+      filteredIds?: Set<string> | Iterable<string>;
+      selected: Set<string>;
+      linkAlerts?: Map<string, string>;
+      deviceHealth?: Map<string, string>;
+      blastRadius?: Set<string>;
+      focusedPath?: { nodes: Set<string>; links: Set<string> };
+      resilience?: { devices: Set<string>; links: Set<string> };
+      failures?: {
+        devices: Set<string>;
+        links: Set<string>;
+        unreachable: Set<string>;
+      };
+    },
   ) => {
     const filteredSet = filteredIds instanceof Set
       ? filteredIds
       : new Set(filteredIds);
-    lastUpdateArgs = { filteredIds: filteredSet, selected };
+    lastUpdateArgs = {
+      filteredIds: filteredSet,
+      selected,
+      linkAlerts,
+      deviceHealth,
+      blastRadius,
+      focusedPath,
+      resilience,
+      failures,
+    };
 
     renderer.updateStyles(
       buildRendererUpdateArgs({
@@ -182,6 +242,12 @@ export function createGraph(
         filteredSet,
         trafficById,
         trafficAdapter,
+        linkAlerts,
+        deviceHealth,
+        blastRadius,
+        focusedPath,
+        resilience,
+        failures,
       }),
     );
   };
@@ -136,10 +136,15 @@ export type RendererUpdateArgs = {
   getLinkWidth: (d: SimLink) => number;
   getLinkDasharray: (d: SimLink) => string | null | undefined;
   getLinkOpacity: (d: SimLink) => number;
+  // Color for a glow behind the link (e.g. an active alert), or null.
+  getLinkAlertGlow?: (d: SimLink) => string | null;
   afterLinkStyle?: (edgeOpacityMultiplier: number) => void;
   getHalo: (
     d: SimNode,
   ) => { r: number; stroke: string; strokeWidth: number; opacity: number };
+  // Card outline for an unhealthy device (dashed when it is cut off), or
+  // null to keep the device-kind color.
+  getNodeHealth?: (d: SimNode) => { stroke: string; dashed: boolean } | null;
   getNodeFilter: (d: SimNode) => string;
   getLabelOpacity: (d: SimNode) => number;
 };
@@ -1763,17 +1768,21 @@ export function createGraphRenderer(
   };
 
   const updateStyles = (args: RendererUpdateArgs) => {
+    const glow = (d: SimLink) => args.getLinkAlertGlow?.(d) ?? null;
     linkBackdropSelection
       .attr(
         "stroke-width",
-        (d: SimLink) => Math.max(3.2, Number(args.getLinkWidth(d)) + 2.2),
+        (d: SimLink) =>
+          Math.max(3.2, Number(args.getLinkWidth(d)) + (glow(d) ? 6 : 2.2)),
       )
       .attr(
         "stroke-dasharray",
-        (d: SimLink) => args.getLinkDasharray(d) ?? null,
+        (d: SimLink) => glow(d) ? null : args.getLinkDasharray(d) ?? null,
       )
+      // Inline style so the glow wins over the stylesheet's backdrop stroke.
+      .style("stroke", glow)
       .attr("opacity", (d: SimLink) =>
-        clampNumber(
+        glow(d) ? 0.85 : clampNumber(
           (Number(args.getLinkOpacity(d)) * 0.55 + 0.2) *
             displaySettings.edgeOpacity,
           0,
@@ -1805,10 +1814,15 @@ export function createGraphRenderer(
       .attr("stroke-width", (d: SimNode) => args.getHalo(d).strokeWidth)
       .attr("opacity", (d: SimNode) => args.getHalo(d).opacity);
 
+    const health = (d: SimNode) => args.getNodeHealth?.(d) ?? null;
     nodeCardFrameSelection
       .attr("fill", "rgba(11, 18, 32, 0.92)")
-      .attr("stroke", (d: SimNode) => getNodeFill(d))
-      .attr("stroke-width", 1.5)
+      .attr("stroke", (d: SimNode) => health(d)?.stroke ?? getNodeFill(d))
+      .attr("stroke-width", (d: SimNode) => health(d) ? 2.5 : 1.5)
+      .attr(
+        "stroke-dasharray",
+        (d: SimNode) => health(d)?.dashed ? "4 3" : null,
+      )
       .style("filter", args.getNodeFilter);
 
     nodeSelection
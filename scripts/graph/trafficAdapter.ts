@@ -22,11 +22,15 @@ type Stop = () => void;
 const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
 
 // Ops-friendly semantics:
-// - "down" is the only critical hue-shifted state (red).
+// - "down" is the only critical hue-shifted state (red); "blackholed" (flow
+//   simulation) gets its own violet so it never reads as utilization.
 // - "up" is neutral; brightness indicates utilization.
 // - Near saturation, hue drifts slightly toward orange to signal "hot" without implying "bad" at moderate levels.
 const trafficColor = (status: string | undefined, util: number | undefined) => {
   if (status === TRAFFIC_STYLE.downStatus) return TRAFFIC_STYLE.downColor;
+  if (status === TRAFFIC_STYLE.blackholedStatus) {
+    return TRAFFIC_STYLE.blackholedColor;
+  }
   const u = clamp01(Number(util) || 0);
 
   // Neutral slate/blue baseline.
@@ -59,7 +63,8 @@ const trafficWidth = (rateMbps: number | undefined) => {
 };
 
 const toKind = (kind: string): TrafficVizKind =>
-  (kind === "util-width" || kind === "flow-dashes" || kind === "classic")
+  (kind === "util-width" || kind === "flow-dashes" || kind === "particles" ||
+      kind === "classic")
     ? kind
     : "classic";
 
@@ -1,5 +1,5 @@
 import type { TrafficUpdate } from "../domain/types.ts";
-import type { Adjacency } from "../lib/graph/adjacency.ts";
+import { type Adjacency, pruneAdjacency } from "../lib/graph/adjacency.ts";
 import { collectHighlights } from "../lib/graph/highlights.ts";
 import type {
   LinkDasharrayArgs,
@@ -10,6 +10,8 @@ import type {
 import type { RendererUpdateArgs, SimLink, SimNode } from "./renderer.ts";
 import { GRAPH_COLORS, GRAPH_DEFAULTS, TRAFFIC_STYLE } from "../config.ts";
 
+const FAILED_LINK_DASHARRAY = "2 6";
+
 type TrafficAdapter = {
   getLinkStroke(args: LinkStrokeArgs): string;
   getLinkWidth(args: LinkWidthArgs): number;
@@ -24,6 +26,16 @@ export const buildRendererUpdateArgs = (
     filteredSet,
     trafficById,
     trafficAdapter,
+    linkAlerts = new Map<string, string>(),
+    deviceHealth = new Map<string, string>(),
+    blastRadius = new Set<string>(),
+    focusedPath,
+    resilience = { devices: new Set<string>(), links: new Set<string>() },
+    failures = {
+      devices: new Set<string>(),
+      links: new Set<string>(),
+      unreachable: new Set<string>(),
+    },
     defaultStroke = GRAPH_COLORS.linkStroke,
     defaultWidth = GRAPH_DEFAULTS.link.defaultWidth,
   }: {
@@ -32,12 +44,38 @@ export const buildRendererUpdateArgs = (
     filteredSet: Set<string>;
     trafficById: Record<string, TrafficUpdate>;
     trafficAdapter: TrafficAdapter;
+    // connectionId -> severity of its worst active alert.
+    linkAlerts?: Map<string, string>;
+    // deviceId -> health for devices that are not "ok".
+    deviceHealth?: Map<string, string>;
+    // Devices that would lose reachability if the selection failed.
+    blastRadius?: Set<string>;
+    // Path picked in the path explorer; replaces the selection highlight.
+    focusedPath?: { nodes: Set<string>; links: Set<string> };
+    // Articulation-point devices and bridge links to call out.
+    resilience?: { devices: Set<string>; links: Set<string> };
+    // What-if failures: failed devices and links (including links of failed
+    // devices), and devices cut off by them.
+    failures?: {
+      devices: Set<string>;
+      links: Set<string>;
+      unreachable: Set<string>;
+    };
     defaultStroke?: string;
     defaultWidth?: number;
   },
 ): RendererUpdateArgs => {
-  const { nodes: highlightedNodes, links: highlightedLinks } =
-    collectHighlights(adjacency, selected);
+  // Paths between selected devices route around what-if failures.
+  const { nodes: highlightedNodes, links: highlightedLinks } = focusedPath ??
+    collectHighlights(
+      pruneAdjacency(adjacency, {
+        deviceIds: failures.devices,
+        connectionIds: failures.links,
+      }),
+      selected,
+    );
+  const isCutOff = (id: string) =>
+    failures.devices.has(id) || failures.unreachable.has(id);
   const hasSelection = selected.size > 0;
 
   return {
@@ -54,14 +92,18 @@ export const buildRendererUpdateArgs = (
         defaultWidth,
       }),
     getLinkDasharray: (d: SimLink) =>
-      trafficAdapter.getLinkDasharray({
-        traffic: trafficById[d.id],
-        highlighted: highlightedLinks.has(d.id),
-      }),
+      failures.links.has(d.id)
+        ? FAILED_LINK_DASHARRAY
+        : trafficAdapter.getLinkDasharray({
+          traffic: trafficById[d.id],
+          highlighted: highlightedLinks.has(d.id),
+        }),
     getLinkOpacity: (d: SimLink) => {
+      if (failures.links.has(d.id)) return 0.3;
       const t = trafficById[d.id];
-      // Always make down links clearly visible.
+      // Always make down, alerting and bridge links clearly visible.
       if (t?.status === TRAFFIC_STYLE.downStatus) return 1;
+      if (linkAlerts.has(d.id) || resilience.links.has(d.id)) return 1;
       if (hasSelection) {
         if (highlightedLinks.size) {
           return highlightedLinks.has(d.id) ? 1 : 0.2;
@@ -76,6 +118,14 @@ export const buildRendererUpdateArgs = (
         ? 0.8
         : 0.25;
     },
+    getLinkAlertGlow: (d: SimLink) => {
+      const severity = linkAlerts.get(d.id);
+      if (!severity) {
+        return resilience.links.has(d.id) ? GRAPH_COLORS.spof : null;
+      }
+      return (GRAPH_COLORS.alert as Record<string, string>)[severity] ??
+        GRAPH_COLORS.alert.warning;
+    },
     afterLinkStyle: trafficAdapter.afterLinkStyle
       ? (edgeOpacityMultiplier: number) => {
         trafficAdapter.afterLinkStyle?.({
@@ -88,6 +138,22 @@ export const buildRendererUpdateArgs = (
       }
       : undefined,
     getHalo: (d: SimNode) => {
+      if (blastRadius.has(d.id)) {
+        return {
+          r: GRAPH_DEFAULTS.halo.radius.selected,
+          stroke: GRAPH_COLORS.blastRadius,
+          strokeWidth: GRAPH_DEFAULTS.halo.strokeWidth.selected,
+          opacity: GRAPH_DEFAULTS.halo.opacity.selected,
+        };
+      }
+      if (resilience.devices.has(d.id) && !selected.has(d.id)) {
+        return {
+          r: GRAPH_DEFAULTS.halo.radius.selected,
+          stroke: GRAPH_COLORS.spof,
+          strokeWidth: GRAPH_DEFAULTS.halo.strokeWidth.selected,
+          opacity: GRAPH_DEFAULTS.halo.opacity.selected,
+        };
+      }
       const r = selected.has(d.id)
         ? GRAPH_DEFAULTS.halo.radius.selected
         : GRAPH_DEFAULTS.halo.radius.default;
@@ -108,7 +174,17 @@ export const buildRendererUpdateArgs = (
             : GRAPH_DEFAULTS.halo.opacity.none));
       return { r, stroke, strokeWidth, opacity };
     },
+    getNodeHealth: (d: SimNode) => {
+      const health = deviceHealth.get(d.id);
+      const stroke = health
+        ? (GRAPH_COLORS.deviceHealth as Record<string, string>)[health]
+        : undefined;
+      if (!stroke) return null;
+      return { stroke, dashed: health !== "degraded" };
+    },
     getNodeFilter: (d: SimNode) => {
+      if (isCutOff(d.id)) return GRAPH_DEFAULTS.filters.failedDim;
+      if (blastRadius.has(d.id)) return "none";
       if (hasSelection) {
         return highlightedNodes.has(d.id)
           ? "none"
@@ -119,6 +195,8 @@ export const buildRendererUpdateArgs = (
         : GRAPH_DEFAULTS.filters.filteredDim;
     },
     getLabelOpacity: (d: SimNode) => {
+      if (isCutOff(d.id)) return 0.3;
+      if (blastRadius.has(d.id)) return 0.95;
       if (hasSelection) return highlightedNodes.has(d.id) ? 0.95 : 0.25;
       return filteredSet.has(d.id) ? 0.85 : 0.4;
     },
@@ -1,22 +1,58 @@
+import { connectionCost } from "./cost.ts";
+
 type ConnectionEnd = { deviceId: string };
 type Connection = { id: string; from: ConnectionEnd; to: ConnectionEnd };
 
-export type AdjacencyEntry = { neighbor: string; connectionId: string };
+export type AdjacencyEntry = {
+  neighbor: string;
+  connectionId: string;
+  cost?: number;
+};
 export type Adjacency = Record<string, AdjacencyEntry[]>;
 
-export const buildAdjacency = (connections: Connection[]): Adjacency => {
+export type FailureSet = {
+  deviceIds?: Iterable<string>;
+  connectionIds?: Iterable<string>;
+};
+
+export const buildAdjacency = (
+  connections: Connection[],
+  { connectionTypes }: { connectionTypes?: unknown } = {},
+): Adjacency => {
   const adjacency: Adjacency = {};
   connections.forEach((c) => {
+    const cost = connectionCost(c, connectionTypes);
     adjacency[c.from.deviceId] = adjacency[c.from.deviceId] || [];
     adjacency[c.to.deviceId] = adjacency[c.to.deviceId] || [];
     adjacency[c.from.deviceId].push({
       neighbor: c.to.deviceId,
       connectionId: c.id,
+      cost,
     });
     adjacency[c.to.deviceId].push({
       neighbor: c.from.deviceId,
       connectionId: c.id,
+      cost,
     });
   });
   return adjacency;
 };
+
+// Copy of `adjacency` without failed devices and connections, so path and
+// highlight lookups route around them.
+export const pruneAdjacency = (
+  adjacency: Adjacency,
+  { deviceIds = [], connectionIds = [] }: FailureSet,
+): Adjacency => {
+  const failedDevices = new Set(deviceIds);
+  const failedLinks = new Set(connectionIds);
+  if (!failedDevices.size && !failedLinks.size) return adjacency;
+  const pruned: Adjacency = {};
+  Object.entries(adjacency).forEach(([node, entries]) => {
+    if (failedDevices.has(node)) return;
+    pruned[node] = entries.filter(({ neighbor, connectionId }) =>
+      !failedDevices.has(neighbor) && !failedLinks.has(connectionId)
+    );
+  });
+  return pruned;
+};
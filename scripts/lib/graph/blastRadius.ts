@@ -0,0 +1,57 @@
+import type { Adjacency, FailureSet } from "./adjacency.ts";
+
+// Devices reachable from any of `roots` without crossing a failed device or
+// connection. Failed roots are not starting points.
+export const reachableFrom = (
+  adjacency: Adjacency,
+  roots: Iterable<string>,
+  { deviceIds = [], connectionIds = [] }: FailureSet = {},
+): Set<string> => {
+  const failedDevices = new Set(deviceIds);
+  const failedLinks = new Set(connectionIds);
+  const seen = new Set<string>();
+  const queue: string[] = [];
+  for (const root of roots) {
+    if (failedDevices.has(root) || seen.has(root)) continue;
+    seen.add(root);
+    queue.push(root);
+  }
+  while (queue.length) {
+    const cur = queue.shift()!;
+    (adjacency[cur] || []).forEach(({ neighbor, connectionId }) => {
+      if (seen.has(neighbor) || failedDevices.has(neighbor)) return;
+      if (failedLinks.has(connectionId)) return;
+      seen.add(neighbor);
+      queue.push(neighbor);
+    });
+  }
+  return seen;
+};
+
+export type BlastRadius = {
+  // Devices that reach a root today but would not after the failure, in
+  // breadth-first order from the roots. The failed devices are not included.
+  disconnected: string[];
+  // Roots that would still be up, i.e. were not part of the failure.
+  survivingRoots: string[];
+};
+
+// What loses reachability to `roots` if `failure` happens.
+export const computeBlastRadius = (
+  adjacency: Adjacency,
+  roots: string[],
+  failure: FailureSet,
+): BlastRadius => {
+  const failedDevices = new Set(failure.deviceIds ?? []);
+  const before = reachableFrom(adjacency, roots);
+  const after = reachableFrom(adjacency, roots, {
+    deviceIds: failedDevices,
+    connectionIds: failure.connectionIds,
+  });
+  return {
+    disconnected: Array.from(before).filter((id) =>
+      !after.has(id) && !failedDevices.has(id)
+    ),
+    survivingRoots: roots.filter((id) => !failedDevices.has(id)),
+  };
+};
@@ -0,0 +1,48 @@
+import { assertEquals } from "@std/assert";
+import { buildAdjacency } from "./adjacency.ts";
+import { computeBlastRadius } from "./blastRadius.ts";
+
+// inet - core - agg-a - acc-1
+//            \- agg-b - acc-2
+//                     \ acc-3 (also uplinked to agg-a)
+const adjacency = buildAdjacency([
+  { id: "i-c", from: { deviceId: "inet" }, to: { deviceId: "core" } },
+  { id: "c-a", from: { deviceId: "core" }, to: { deviceId: "agg-a" } },
+  { id: "c-b", from: { deviceId: "core" }, to: { deviceId: "agg-b" } },
+  { id: "a-1", from: { deviceId: "agg-a" }, to: { deviceId: "acc-1" } },
+  { id: "b-2", from: { deviceId: "agg-b" }, to: { deviceId: "acc-2" } },
+  { id: "b-3", from: { deviceId: "agg-b" }, to: { deviceId: "acc-3" } },
+  { id: "a-3", from: { deviceId: "agg-a" }, to: { deviceId: "acc-3" } },
+]);
+
+Deno.test("blastRadius: device failure cuts off single-homed downstream", () => {
+  assertEquals(
+    computeBlastRadius(adjacency, ["inet"], { deviceIds: ["agg-b"] }),
+    { disconnected: ["acc-2"], survivingRoots: ["inet"] },
+  );
+  assertEquals(
+    computeBlastRadius(adjacency, ["inet"], { deviceIds: ["core"] })
+      .disconnected,
+    ["agg-a", "agg-b", "acc-1", "acc-3", "acc-2"],
+  );
+});
+
+Deno.test("blastRadius: link failure and failed roots", () => {
+  assertEquals(
+    computeBlastRadius(adjacency, ["core"], { connectionIds: ["a-3"] })
+      .disconnected,
+    [],
+  );
+  assertEquals(
+    computeBlastRadius(adjacency, ["core"], { connectionIds: ["a-1"] })
+      .disconnected,
+    ["acc-1"],
+  );
+  assertEquals(
+    computeBlastRadius(adjacency, ["inet"], { deviceIds: ["inet"] }),
+    {
+      disconnected: ["core", "agg-a", "agg-b", "acc-1", "acc-3", "acc-2"],
+      survivingRoots: [],
+    },
+  );
+});
@@ -0,0 +1,39 @@
+// OSPF-style auto-cost: reference bandwidth / link capacity. A 100 Gbps
+// reference keeps 1G (100), 10G (10) and 40G (3) links distinguishable, where
+// the classic 100 Mbps reference would flatten everything to cost 1.
+export const REFERENCE_BANDWIDTH_MBPS = 100_000;
+
+// Links without an explicit cost or known capacity are costed as 1 Gbps.
+export const DEFAULT_LINK_COST = REFERENCE_BANDWIDTH_MBPS / 1000;
+
+type Rec = Record<string, unknown>;
+
+const isRecord = (v: unknown): v is Rec =>
+  v != null && typeof v === "object" && !Array.isArray(v);
+
+const positive = (v: unknown): number | null =>
+  typeof v === "number" && Number.isFinite(v) && v > 0 ? v : null;
+
+// Routing cost of one connection: an explicit `cost` (or `metric`) from
+// connections.json wins; otherwise it is derived from the `connectionType`
+// capacity in connectionTypes.json.
+export const connectionCost = (
+  connection: unknown,
+  connectionTypes?: unknown,
+): number => {
+  if (!isRecord(connection)) return DEFAULT_LINK_COST;
+
+  const explicit = positive(connection.cost) ?? positive(connection.metric);
+  if (explicit != null) return explicit;
+
+  const typeId = String(
+    connection.connectionType || connection.connection_type || "",
+  ).trim();
+  const type = isRecord(connectionTypes) && typeId
+    ? connectionTypes[typeId]
+    : null;
+  const capacity = isRecord(type) ? positive(type.capacityMbps) : null;
+  if (capacity == null) return DEFAULT_LINK_COST;
+
+  return Math.max(1, Math.round(REFERENCE_BANDWIDTH_MBPS / capacity));
+};
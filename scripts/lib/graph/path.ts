@@ -2,27 +2,199 @@ import type { Adjacency } from "./adjacency.ts";
 
 type PathState = { node: string; nodes: string[]; links: string[] };
 
+export type WeightedEdge = {
+  neighbor: string;
+  connectionId: string;
+  cost?: number;
+};
+
+type Pred = { prev: string; connectionId: string };
+
+export type ShortestPathTree = {
+  dist: Map<string, number>;
+  hops: Map<string, number>;
+  // Every predecessor that reaches a node at its minimal cost.
+  preds: Map<string, Pred[]>;
+};
+
+const EPSILON = 1e-9;
+
+const edgeCost = (cost: number | undefined) =>
+  typeof cost === "number" && Number.isFinite(cost) && cost > 0 ? cost : 1;
+
+// Dijkstra from `start`. Edges without a cost count as 1, so an unweighted
+// graph behaves like hop-count BFS. Stops once `goal` is settled (all of its
+// equal-cost predecessors are known by then since costs are positive).
+export const buildShortestPathTree = (
+  neighbors: (node: string) => WeightedEdge[],
+  start: string,
+  goal?: string,
+): ShortestPathTree => {
+  const dist = new Map<string, number>([[start, 0]]);
+  const hops = new Map<string, number>([[start, 0]]);
+  const preds = new Map<string, Pred[]>();
+  const settled = new Set<string>();
+  const frontier: string[] = [start];
+
+  while (frontier.length) {
+    // Graphs here are small; a linear scan keeps tie-breaking predictable
+    // (lowest cost, then fewest hops, then discovery order).
+    let best = 0;
+    for (let i = 1; i < frontier.length; i++) {
+      const a = frontier[i];
+      const b = frontier[best];
+      const da = dist.get(a)!;
+      const db = dist.get(b)!;
+      if (
+        da < db - EPSILON || (Math.abs(da - db) <= EPSILON &&
+          hops.get(a)! < hops.get(b)!)
+      ) {
+        best = i;
+      }
+    }
+    const [cur] = frontier.splice(best, 1);
+    if (settled.has(cur)) continue;
+    settled.add(cur);
+    if (cur === goal) break;
+
+    const d = dist.get(cur)!;
+    const h = hops.get(cur)!;
+    for (const { neighbor, connectionId, cost } of neighbors(cur)) {
+      if (settled.has(neighbor)) continue;
+      const nd = d + edgeCost(cost);
+      const known = dist.get(neighbor);
+      if (known === undefined || nd < known - EPSILON) {
+        dist.set(neighbor, nd);
+        hops.set(neighbor, h + 1);
+        preds.set(neighbor, [{ prev: cur, connectionId }]);
+        frontier.push(neighbor);
+      } else if (Math.abs(nd - known) <= EPSILON) {
+        preds.get(neighbor)?.push({ prev: cur, connectionId });
+        if (h + 1 < hops.get(neighbor)!) hops.set(neighbor, h + 1);
+      }
+    }
+  }
+
+  return { dist, hops, preds };
+};
+
+// Walks back from `goal` along the fewest-hop predecessor at each step.
+export const extractPath = (
+  tree: ShortestPathTree,
+  start: string,
+  goal: string,
+): { nodes: string[]; links: string[] } | null => {
+  if (!tree.dist.has(goal)) return null;
+  const nodes = [goal];
+  const links: string[] = [];
+  let cur = goal;
+  while (cur !== start) {
+    const options = tree.preds.get(cur);
+    if (!options?.length) return null;
+    let pick = options[0];
+    for (const p of options) {
+      if (tree.hops.get(p.prev)! < tree.hops.get(pick.prev)!) pick = p;
+    }
+    links.push(pick.connectionId);
+    nodes.push(pick.prev);
+    cur = pick.prev;
+  }
+  return { nodes: nodes.reverse(), links: links.reverse() };
+};
+
+// Lowest-cost path (by adjacency entry `cost`, see `./cost.ts`).
 export const findShortestPath = (
   adjacency: Adjacency,
   start: string,
   goal: string,
 ): PathState | null => {
   if (start === goal) return { node: start, nodes: [start], links: [] };
-  const queue: PathState[] = [{ node: start, nodes: [start], links: [] }];
-  const visited = new Set<string>([start]);
-  while (queue.length) {
-    const current = queue.shift();
-    if (!current) break;
-    if (current.node === goal) return current;
-    (adjacency[current.node] || []).forEach(({ neighbor, connectionId }) => {
-      if (visited.has(neighbor)) return;
-      visited.add(neighbor);
-      queue.push({
-        node: neighbor,
-        nodes: [...current.nodes, neighbor],
-        links: [...current.links, connectionId],
+  const tree = buildShortestPathTree(
+    (node) => adjacency[node] || [],
+    start,
+    goal,
+  );
+  const path = extractPath(tree, start, goal);
+  return path ? { node: goal, ...path } : null;
+};
+
+export type RankedPath = { nodes: string[]; links: string[]; cost: number };
+
+// Up to `k` loop-free paths in order of cost (then hops), by Yen's algorithm.
+// Parallel links count as distinct paths.
+export const findKShortestPaths = (
+  adjacency: Adjacency,
+  start: string,
+  goal: string,
+  k: number,
+): RankedPath[] => {
+  if (start === goal || k <= 0) return [];
+  const costOf = new Map<string, number>();
+  Object.values(adjacency).forEach((entries) =>
+    entries.forEach((e) => costOf.set(e.connectionId, edgeCost(e.cost)))
+  );
+  const pathCost = (links: string[]) =>
+    links.reduce((sum, id) => sum + (costOf.get(id) ?? 1), 0);
+
+  const search = (
+    from: string,
+    removedNodes: Set<string>,
+    removedLinks: Set<string>,
+  ) =>
+    extractPath(
+      buildShortestPathTree(
+        (node) =>
+          removedNodes.has(node)
+            ? []
+            : (adjacency[node] || []).filter((e) =>
+              !removedNodes.has(e.neighbor) && !removedLinks.has(e.connectionId)
+            ),
+        from,
+        goal,
+      ),
+      from,
+      goal,
+    );
+
+  const first = search(start, new Set(), new Set());
+  if (!first) return [];
+  const accepted: RankedPath[] = [{ ...first, cost: pathCost(first.links) }];
+  const candidates: RankedPath[] = [];
+  const seen = new Set([first.links.join("|")]);
+
+  while (accepted.length < k) {
+    const last = accepted[accepted.length - 1];
+    for (let i = 0; i < last.links.length; i++) {
+      const spur = last.nodes[i];
+      const rootLinks = last.links.slice(0, i);
+      const rootKey = rootLinks.join("|");
+      // Links already used to leave this root, so the spur must differ.
+      const removedLinks = new Set(
+        accepted
+          .filter((p) => p.links.slice(0, i).join("|") === rootKey)
+          .map((p) => p.links[i]),
+      );
+      const removedNodes = new Set(last.nodes.slice(0, i));
+      const tail = search(spur, removedNodes, removedLinks);
+      if (!tail) continue;
+
+      const links = [...rootLinks, ...tail.links];
+      const key = links.join("|");
+      if (seen.has(key)) continue;
+      seen.add(key);
+      candidates.push({
+        nodes: [...last.nodes.slice(0, i), ...tail.nodes],
+        links,
+        cost: pathCost(links),
       });
-    });
+    }
+    if (!candidates.length) break;
+    candidates.sort((a, b) =>
+      Math.abs(a.cost - b.cost) > EPSILON
+        ? a.cost - b.cost
+        : a.links.length - b.links.length
+    );
+    accepted.push(candidates.shift()!);
   }
-  return null;
+  return accepted;
 };
@@ -0,0 +1,84 @@
+import { assertEquals } from "@std/assert";
+import { buildAdjacency } from "./adjacency.ts";
+import { findKShortestPaths, findShortestPath } from "./path.ts";
+
+// a-d is one 1G hop; a-b-c-d is three 10G hops (cost 100 vs 30).
+const connections = [
+  {
+    id: "ad",
+    connectionType: "eth-1g",
+    from: { deviceId: "a" },
+    to: { deviceId: "d" },
+  },
+  {
+    id: "ab",
+    connectionType: "eth-10g",
+    from: { deviceId: "a" },
+    to: { deviceId: "b" },
+  },
+  {
+    id: "bc",
+    connectionType: "eth-10g",
+    from: { deviceId: "b" },
+    to: { deviceId: "c" },
+  },
+  {
+    id: "cd",
+    connectionType: "eth-10g",
+    from: { deviceId: "c" },
+    to: { deviceId: "d" },
+  },
+];
+const connectionTypes = {
+  "eth-1g": { capacityMbps: 1000 },
+  "eth-10g": { capacityMbps: 10000 },
+};
+
+Deno.test("findShortestPath: prefers the lowest-cost path", () => {
+  const adjacency = buildAdjacency(connections, { connectionTypes });
+  assertEquals(findShortestPath(adjacency, "a", "d")?.links, [
+    "ab",
+    "bc",
+    "cd",
+  ]);
+
+  // Without capacities every link costs the same, i.e. fewest hops.
+  assertEquals(findShortestPath(buildAdjacency(connections), "a", "d")?.links, [
+    "ad",
+  ]);
+});
+
+Deno.test("findShortestPath: explicit cost overrides capacity", () => {
+  const adjacency = buildAdjacency(
+    connections.map((c) => c.id === "ad" ? { ...c, cost: 20 } : c),
+    { connectionTypes },
+  );
+  assertEquals(findShortestPath(adjacency, "a", "d")?.nodes, ["a", "d"]);
+  assertEquals(findShortestPath(adjacency, "a", "x"), null);
+});
+
+Deno.test("findKShortestPaths: ranks loop-free paths by cost", () => {
+  // Untyped links all cost the same: a-d, a-b-d, a-b-c-d.
+  const link = (id: string, a: string, b: string) => ({
+    id,
+    from: { deviceId: a },
+    to: { deviceId: b },
+  });
+  const adjacency = buildAdjacency([
+    link("ad", "a", "d"),
+    link("ab", "a", "b"),
+    link("bc", "b", "c"),
+    link("cd", "c", "d"),
+    link("bd", "b", "d"),
+  ]);
+  assertEquals(
+    findKShortestPaths(adjacency, "a", "d", 5).map((p) => [p.links, p.cost]),
+    [
+      [["ad"], 100],
+      [["ab", "bd"], 200],
+      [["ab", "bc", "cd"], 300],
+    ],
+  );
+  assertEquals(findKShortestPaths(adjacency, "a", "d", 1).length, 1);
+  assertEquals(findKShortestPaths(adjacency, "a", "x", 3), []);
+});
@@ -0,0 +1,189 @@
+import type { Adjacency } from "./adjacency.ts";
+
+export type CutAnalysis = {
+  // Devices whose removal splits their connected component.
+  articulationPoints: Set<string>;
+  // Connections whose removal splits their connected component. A link with
+  // a parallel twin between the same devices is never a bridge.
+  bridges: Set<string>;
+};
+
+// Tarjan's low-link walk over every component. Parallel links are handled by
+// skipping only the connection we arrived through, not every link back to
+// the parent.
+export const findCuts = (adjacency: Adjacency): CutAnalysis => {
+  const order = new Map<string, number>();
+  const low = new Map<string, number>();
+  const articulationPoints = new Set<string>();
+  const bridges = new Set<string>();
+  let counter = 0;
+
+  const visit = (node: string, viaConnectionId: string | null) => {
+    order.set(node, counter);
+    low.set(node, counter);
+    counter++;
+    let children = 0;
+
+    for (const { neighbor, connectionId } of adjacency[node] || []) {
+      if (connectionId === viaConnectionId || neighbor === node) continue;
+      if (order.has(neighbor)) {
+        low.set(node, Math.min(low.get(node)!, order.get(neighbor)!));
+        continue;
+      }
+      children++;
+      visit(neighbor, connectionId);
+      low.set(node, Math.min(low.get(node)!, low.get(neighbor)!));
+      if (low.get(neighbor)! > order.get(node)!) bridges.add(connectionId);
+      if (viaConnectionId !== null && low.get(neighbor)! >= order.get(node)!) {
+        articulationPoints.add(node);
+      }
+    }
+
+    if (viaConnectionId === null && children > 1) {
+      articulationPoints.add(node);
+    }
+  };
+
+  Object.keys(adjacency).forEach((node) => {
+    if (!order.has(node)) visit(node, null);
+  });
+  return { articulationPoints, bridges };
+};
+
+type Arc = { to: number; cap: number; rev: number; connectionId?: string };
+
+type LinkFlow = {
+  flow: number;
+  arcs: Arc[][];
+  nodes: string[];
+  source: number;
+};
+
+// Max flow from `source` to any of `targets` with unit link capacities
+// (Edmonds-Karp through a super sink).
+const maxLinkFlow = (
+  adjacency: Adjacency,
+  source: string,
+  targets: Set<string>,
+): LinkFlow => {
+  const index = new Map<string, number>();
+  const nodes: string[] = [];
+  const idOf = (node: string) => {
+    let i = index.get(node);
+    if (i === undefined) {
+      i = index.size;
+      index.set(node, i);
+      nodes.push(node);
+    }
+    return i;
+  };
+  const arcs: Arc[][] = [];
+  const addArc = (
+    a: number,
+    b: number,
+    capAB: number,
+    capBA: number,
+    connectionId?: string,
+  ) => {
+    arcs[a] ??= [];
+    arcs[b] ??= [];
+    arcs[a].push({ to: b, cap: capAB, rev: arcs[b].length, connectionId });
+    arcs[b].push({ to: a, cap: capBA, rev: arcs[a].length - 1, connectionId });
+  };
+
+  const seenLinks = new Set<string>();
+  Object.entries(adjacency).forEach(([node, entries]) => {
+    entries.forEach(({ neighbor, connectionId }) => {
+      if (neighbor === node || seenLinks.has(connectionId)) return;
+      seenLinks.add(connectionId);
+      // An undirected unit link carries one unit either way.
+      addArc(idOf(node), idOf(neighbor), 1, 1, connectionId);
+    });
+  });
+  const s = idOf(source);
+  const sink = idOf("\u0000sink");
+  targets.forEach((t) => {
+    if (index.has(t)) addArc(index.get(t)!, sink, Infinity, 0);
+  });
+
+  let flow = 0;
+  while (true) {
+    const prev: Array<{ node: number; arc: number } | undefined> = [];
+    const queue = [s];
+    const seen = new Set([s]);
+    while (queue.length && !seen.has(sink)) {
+      const cur = queue.shift()!;
+      (arcs[cur] ?? []).forEach((arc, i) => {
+        if (arc.cap <= 0 || seen.has(arc.to)) return;
+        seen.add(arc.to);
+        prev[arc.to] = { node: cur, arc: i };
+        queue.push(arc.to);
+      });
+    }
+    if (!seen.has(sink)) return { flow, arcs, nodes, source: s };
+
+    for (let v = sink; v !== s;) {
+      const { node, arc } = prev[v]!;
+      const forward = arcs[node][arc];
+      forward.cap -= 1;
+      arcs[v][forward.rev].cap += 1;
+      v = node;
+    }
+    flow += 1;
+  }
+};
+
+// Number of link-disjoint paths from `source` to any of `targets` (max flow
+// with unit link capacities). 0 when unreachable; Infinity for a target.
+export const countLinkDisjointPaths = (
+  adjacency: Adjacency,
+  source: string,
+  targets: Set<string>,
+): number => {
+  if (targets.has(source)) return Infinity;
+  if (!targets.size) return 0;
+  return maxLinkFlow(adjacency, source, targets).flow;
+};
+
+// A largest set of link-disjoint paths between two devices, fewest hops
+// first. Which paths are returned is not unique; their number is.
+export const findLinkDisjointPaths = (
+  adjacency: Adjacency,
+  start: string,
+  goal: string,
+): Array<{ nodes: string[]; links: string[] }> => {
+  if (start === goal) return [];
+  const { flow, arcs, nodes, source } = maxLinkFlow(
+    adjacency,
+    start,
+    new Set([goal]),
+  );
+
+  // A link arc left at capacity 0 carries one unit forward (its twin started
+  // at 1 as well). Walk those from the source, erasing any loops.
+  const used = new Set<Arc>();
+  const paths: Array<{ nodes: string[]; links: string[] }> = [];
+  for (let p = 0; p < flow; p++) {
+    const pathNodes = [start];
+    const links: string[] = [];
+    let cur = source;
+    while (nodes[cur] !== goal) {
+      const arc = arcs[cur].find((a) =>
+        a.connectionId && a.cap === 0 && !used.has(a)
+      );
+      if (!arc) break;
+      used.add(arc);
+      const loopAt = pathNodes.indexOf(nodes[arc.to]);
+      if (loopAt >= 0) {
+        pathNodes.length = loopAt + 1;
+        links.length = loopAt;
+      } else {
+        pathNodes.push(nodes[arc.to]);
+        links.push(arc.connectionId!);
+      }
+      cur = arc.to;
+    }
+    paths.push({ nodes: pathNodes, links });
+  }
+  return paths.sort((a, b) => a.links.length - b.links.length);
+};
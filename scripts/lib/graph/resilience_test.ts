@@ -0,0 +1,52 @@
+import { assertEquals } from "@std/assert";
+import { buildAdjacency } from "./adjacency.ts";
+import {
+  countLinkDisjointPaths,
+  findCuts,
+  findLinkDisjointPaths,
+} from "./resilience.ts";
+
+// edge links to core-a and core-b, which share two parallel links. core-b
+// uplinks dist; dist serves acc-1 and a triangle with acc-2 and acc-3.
+const adjacency = buildAdjacency([
+  { id: "e-a", from: { deviceId: "edge" }, to: { deviceId: "core-a" } },
+  { id: "e-b", from: { deviceId: "edge" }, to: { deviceId: "core-b" } },
+  { id: "a-b-1", from: { deviceId: "core-a" }, to: { deviceId: "core-b" } },
+  { id: "a-b-2", from: { deviceId: "core-a" }, to: { deviceId: "core-b" } },
+  { id: "b-d", from: { deviceId: "core-b" }, to: { deviceId: "dist" } },
+  { id: "d-1", from: { deviceId: "dist" }, to: { deviceId: "acc-1" } },
+  { id: "d-2", from: { deviceId: "dist" }, to: { deviceId: "acc-2" } },
+  { id: "2-3", from: { deviceId: "acc-2" }, to: { deviceId: "acc-3" } },
+  { id: "d-3", from: { deviceId: "dist" }, to: { deviceId: "acc-3" } },
+]);
+
+Deno.test("resilience: finds articulation points and bridges", () => {
+  const { articulationPoints, bridges } = findCuts(adjacency);
+  assertEquals(Array.from(articulationPoints).sort(), ["core-b", "dist"]);
+  // Parallel core links and the acc-2/acc-3 triangle are not bridges.
+  assertEquals(Array.from(bridges).sort(), ["b-d", "d-1"]);
+});
+
+Deno.test("resilience: counts link-disjoint paths to a target set", () => {
+  const edge = new Set(["edge"]);
+  assertEquals(countLinkDisjointPaths(adjacency, "core-a", edge), 2);
+  assertEquals(countLinkDisjointPaths(adjacency, "acc-3", edge), 1);
+  assertEquals(countLinkDisjointPaths(adjacency, "edge", edge), Infinity);
+  assertEquals(countLinkDisjointPaths(adjacency, "orphan", edge), 0);
+  assertEquals(countLinkDisjointPaths(adjacency, "dist", new Set()), 0);
+  assertEquals(
+    countLinkDisjointPaths(adjacency, "dist", new Set(["acc-2", "acc-3"])),
+    2,
+  );
+});
+
+Deno.test("resilience: extracts a largest set of link-disjoint paths", () => {
+  const paths = findLinkDisjointPaths(adjacency, "edge", "dist");
+  // Both core uplinks funnel into the single core-b -> dist link.
+  assertEquals(paths.length, 1);
+  assertEquals(paths[0].nodes.at(-1), "dist");
+
+  const toCore = findLinkDisjointPaths(adjacency, "edge", "core-b");
+  assertEquals(toCore.map((p) => p.links), [["e-b"], ["e-a", "a-b-1"]]);
+  assertEquals(findLinkDisjointPaths(adjacency, "edge", "edge"), []);
+});
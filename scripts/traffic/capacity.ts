@@ -0,0 +1,35 @@
+import { isObject } from "./util.ts";
+
+type ConnectionLike = {
+  id?: unknown;
+  connectionType?: unknown;
+  connection_type?: unknown;
+};
+
+// Maps connection ids to their `connectionType` capacity (Mbps) from
+// `data/connectionTypes.json`. Connections without a known positive capacity
+// are omitted.
+export const buildCapacityByConnectionId = (
+  connections: unknown,
+  connectionTypes: unknown,
+): Map<string, number> => {
+  const connTypes = isObject(connectionTypes)
+    ? (connectionTypes as Record<string, { capacityMbps?: number }>)
+    : {};
+
+  const capacityByConnectionId = new Map<string, number>();
+  if (!Array.isArray(connections)) return capacityByConnectionId;
+
+  (connections as ConnectionLike[]).forEach((c) => {
+    const id = String(c?.id || "").trim();
+    if (!id) return;
+
+    const typeId = String(c?.connectionType || c?.connection_type || "").trim();
+    const cap = typeId && typeof connTypes?.[typeId]?.capacityMbps === "number"
+      ? connTypes[typeId].capacityMbps
+      : null;
+    if (typeof cap === "number" && cap > 0) capacityByConnectionId.set(id, cap);
+  });
+
+  return capacityByConnectionId;
+};
@@ -0,0 +1,118 @@
+// Simulated time shared by the time-based connectors (timeline, flow,
+// generated). While playing, every `frameMs` of wall time moves it forward by
+// `frameMs * speed`; step and seek move it by hand. Time only runs forward:
+// connectors keep state, so going back means starting over on a new clock.
+//
+// A paused clock never touches timers, which lets tests drive connectors with
+// `step` alone.
+export type ClockListener = (nowSec: number, dtSec: number) => void;
+
+export type SimulationClock = {
+  nowSec: () => number;
+  isPaused: () => boolean;
+  // Called every time the clock moves; returns an unsubscribe.
+  onAdvance: (listener: ClockListener) => () => void;
+  // Like `onAdvance`, but only once at least `intervalSec` has passed since
+  // the previous call (`dtSec` is the time that actually passed).
+  every: (intervalSec: number, listener: ClockListener) => () => void;
+  play: () => void;
+  pause: () => void;
+  step: (sec: number) => void;
+  // Moves to `sec` when it is ahead; earlier times are ignored.
+  seek: (sec: number) => void;
+  setSpeed: (multiplier: number) => void;
+  dispose: () => void;
+};
+
+const normalizeSpeed = (value: number) =>
+  Number.isFinite(value) && value > 0 ? value : 1;
+
+// Microsecond steps keep repeated frames from drifting (0.1 * 3 !== 0.3).
+const roundSec = (sec: number) => Math.round(sec * 1e6) / 1e6;
+
+export const createSimulationClock = (
+  {
+    speedMultiplier = 1,
+    paused = false,
+    frameMs = 100,
+  }: { speedMultiplier?: number; paused?: boolean; frameMs?: number } = {},
+): SimulationClock => {
+  const listeners = new Set<ClockListener>();
+  let speed = normalizeSpeed(speedMultiplier);
+  let isPaused = paused;
+  let nowSec = 0;
+  let timer: ReturnType<typeof setInterval> | undefined;
+
+  const frameSec = () => (frameMs / 1000) * speed;
+
+  // Long moves go frame by frame so listeners see the same steps as when
+  // playing.
+  const advance = (sec: number) => {
+    let remaining = roundSec(sec);
+    while (remaining > 0) {
+      const dtSec = Math.min(remaining, roundSec(frameSec()));
+      nowSec = roundSec(nowSec + dtSec);
+      remaining = roundSec(remaining - dtSec);
+      Array.from(listeners).forEach((listener) => listener(nowSec, dtSec));
+    }
+  };
+
+  // The timer only runs while playing for someone.
+  const syncTimer = () => {
+    const shouldRun = !isPaused && listeners.size > 0;
+    if (shouldRun && timer === undefined) {
+      timer = setInterval(() => advance(frameSec()), frameMs);
+    } else if (!shouldRun && timer !== undefined) {
+      clearInterval(timer);
+      timer = undefined;
+    }
+  };
+
+  const onAdvance = (listener: ClockListener) => {
+    listeners.add(listener);
+    syncTimer();
+    return () => {
+      listeners.delete(listener);
+      syncTimer();
+    };
+  };
+
+  const every = (intervalSec: number, listener: ClockListener) => {
+    let pendingSec = 0;
+    return onAdvance((at, dtSec) => {
+      pendingSec = roundSec(pendingSec + dtSec);
+      if (pendingSec < intervalSec) return;
+      const elapsedSec = pendingSec;
+      pendingSec = 0;
+      listener(at, elapsedSec);
+    });
+  };
+
+  return {
+    nowSec: () => nowSec,
+    isPaused: () => isPaused,
+    onAdvance,
+    every,
+    play: () => {
+      isPaused = false;
+      syncTimer();
+    },
+    pause: () => {
+      isPaused = true;
+      syncTimer();
+    },
+    step: (sec: number) => {
+      if (Number.isFinite(sec) && sec > 0) advance(sec);
+    },
+    seek: (sec: number) => {
+      if (Number.isFinite(sec) && sec > nowSec) advance(sec - nowSec);
+    },
+    setSpeed: (multiplier: number) => {
+      speed = normalizeSpeed(multiplier);
+    },
+    dispose: () => {
+      listeners.clear();
+      syncTimer();
+    },
+  };
+};
@@ -0,0 +1,33 @@
+import { assertEquals } from "@std/assert";
+import { createSimulationClock } from "./clock.ts";
+
+Deno.test("clock: steps move frame by frame at the current speed", () => {
+  const clock = createSimulationClock({ paused: true, speedMultiplier: 2 });
+  const seen: Array<[number, number]> = [];
+  clock.onAdvance((nowSec, dtSec) => seen.push([nowSec, dtSec]));
+  clock.step(0.5);
+  assertEquals(seen, [[0.2, 0.2], [0.4, 0.2], [0.5, 0.1]]);
+  assertEquals(clock.nowSec(), 0.5);
+});
+
+Deno.test("clock: every fires once the interval has passed", () => {
+  const clock = createSimulationClock({ paused: true });
+  const seen: Array<[number, number]> = [];
+  clock.every(1, (nowSec, dtSec) => seen.push([nowSec, dtSec]));
+  clock.step(2.5);
+  assertEquals(seen, [[1, 1], [2, 1]]);
+  clock.step(0.5);
+  assertEquals(seen.at(-1), [3, 1]);
+});
+
+Deno.test("clock: seek only moves forward", () => {
+  const clock = createSimulationClock({ paused: true });
+  let calls = 0;
+  clock.onAdvance(() => calls++);
+  clock.seek(1);
+  assertEquals(clock.nowSec(), 1);
+  const afterForward = calls;
+  clock.seek(0.5);
+  assertEquals(clock.nowSec(), 1);
+  assertEquals(calls, afterForward);
+});
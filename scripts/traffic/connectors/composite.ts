@@ -0,0 +1,120 @@
+import type {
+  OnTrafficStatus,
+  OnTrafficUpdate,
+  StopTraffic,
+} from "../types.ts";
+import type { TrafficConnector } from "../registry.ts";
+import { isObject } from "../util.ts";
+
+export type CompositeTrafficMember = {
+  // Name used in `precedence`.
+  id: string;
+  connector: TrafficConnector;
+  // Links this member may report; all when omitted.
+  connectionIds?: string[];
+};
+
+export type CompositeTrafficConnectorOptions = {
+  members: CompositeTrafficMember[];
+  // Member ids, highest first; unlisted members follow in list order.
+  precedence?: string[];
+};
+
+type PayloadParts = { updates: unknown[]; devices: unknown[] };
+
+// Same shapes `trafficPayloadEntries` accepts; null for anything else.
+const splitPayload = (payload: unknown): PayloadParts | null => {
+  if (Array.isArray(payload)) return { updates: payload, devices: [] };
+  if (!isObject(payload)) return null;
+  if (payload.devices !== undefined && !Array.isArray(payload.devices)) {
+    return null;
+  }
+  const devices = (payload.devices as unknown[] | undefined) ?? [];
+  if (Array.isArray(payload.initial)) {
+    return { updates: payload.initial, devices };
+  }
+  if (Array.isArray(payload.updates)) {
+    return { updates: payload.updates, devices };
+  }
+  if (payload.connectionId === undefined) return { updates: [], devices };
+  return { updates: [payload], devices: [] };
+};
+
+// Runs several connectors as one source (e.g. `real` for WAN links next to a
+// simulated `flow` lab). Each link and device belongs to the highest-precedence
+// member that has reported it: once it has, lower members' updates for it are
+// dropped. Members share the playback clock.
+export function createCompositeTrafficConnector(
+  { members, precedence = [] }: CompositeTrafficConnectorOptions,
+) {
+  if (!members.length) throw new Error("members are required");
+  const rankOf = (id: string) => {
+    const idx = precedence.indexOf(id);
+    return idx === -1 ? precedence.length : idx;
+  };
+  const ranked = members
+    .map((member, order) => ({ ...member, rank: rankOf(member.id), order }))
+    .sort((a, b) => a.rank - b.rank || a.order - b.order)
+    .map((member, rank) => ({ ...member, rank }));
+
+  // Clock-driven members report how long they run; the composite runs until
+  // the last one is done (open-ended if any is).
+  const durations = members
+    .map((m) => m.connector.playback?.durationSec)
+    .filter((d) => d !== undefined);
+  const playback = durations.length
+    ? {
+      durationSec: durations.some((d) => d === null)
+        ? null
+        : Math.max(...(durations as number[])),
+    }
+    : undefined;
+
+  return {
+    kind: "composite",
+    playback,
+    start(onUpdate: OnTrafficUpdate, onStatus?: OnTrafficStatus): StopTraffic {
+      if (typeof onUpdate !== "function") {
+        throw new Error("onUpdate callback is required");
+      }
+
+      const connectionOwners = new Map<string, number>();
+      const deviceOwners = new Map<string, number>();
+      const claim = (
+        owners: Map<string, number>,
+        key: string,
+        rank: number,
+      ) => {
+        const owner = owners.get(key);
+        if (owner !== undefined && owner < rank) return false;
+        owners.set(key, rank);
+        return true;
+      };
+
+      const stops = ranked.map(({ connector, connectionIds, rank }) => {
+        const allowed = connectionIds ? new Set(connectionIds) : null;
+        return connector.start((payload) => {
+          const parts = splitPayload(payload);
+          // Let the service report payloads it cannot read.
+          if (!parts) {
+            onUpdate(payload);
+            return;
+          }
+          const updates = parts.updates.filter((u) => {
+            if (!isObject(u) || typeof u.connectionId !== "string") return true;
+            if (allowed && !allowed.has(u.connectionId)) return false;
+            return claim(connectionOwners, u.connectionId, rank);
+          });
+          const devices = parts.devices.filter((d) =>
+            !isObject(d) || typeof d.deviceId !== "string" ||
+            claim(deviceOwners, d.deviceId, rank)
+          );
+          if (!updates.length && !devices.length) return;
+          onUpdate(devices.length ? { updates, devices } : updates);
+        }, onStatus);
+      });
+
+      return () => stops.forEach((stop) => stop());
+    },
+  };
+}
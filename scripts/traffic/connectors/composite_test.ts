@@ -0,0 +1,88 @@
+import { assertEquals } from "@std/assert";
+import { createCompositeTrafficConnector } from "./composite.ts";
+import type { OnTrafficUpdate } from "../types.ts";
+
+// A member whose payloads the test pushes by hand.
+const manual = (kind: string, durationSec?: number | null) => {
+  let push: OnTrafficUpdate = () => {};
+  return {
+    push: (payload: unknown) => push(payload),
+    connector: {
+      kind,
+      ...(durationSec !== undefined ? { playback: { durationSec } } : {}),
+      start: (onUpdate: OnTrafficUpdate) => {
+        push = onUpdate;
+        return () => {
+          push = () => {};
+        };
+      },
+    },
+  };
+};
+
+Deno.test("composite connector: merges members by precedence", () => {
+  const real = manual("real");
+  const flow = manual("flow", 30);
+  const delivered: unknown[] = [];
+  const composite = createCompositeTrafficConnector({
+    members: [
+      { id: "flow", connector: flow.connector },
+      { id: "real", connector: real.connector, connectionIds: ["wan"] },
+    ],
+    precedence: ["real"],
+  });
+  const stop = composite.start((payload) => delivered.push(payload));
+
+  flow.push({
+    initial: [
+      { connectionId: "wan", rateMbps: 1 },
+      { connectionId: "lab", rateMbps: 2 },
+    ],
+    updates: [],
+  });
+  real.push([
+    { connectionId: "wan", rateMbps: 900 },
+    { connectionId: "lab", rateMbps: 3 },
+  ]);
+  flow.push({
+    updates: [
+      { connectionId: "wan", rateMbps: 4 },
+      { connectionId: "lab", rateMbps: 5 },
+    ],
+    devices: [{ deviceId: "lab-sw", status: "down" }],
+  });
+  flow.push([{ connectionId: "wan", rateMbps: 6 }]);
+  stop();
+  flow.push([{ connectionId: "lab", rateMbps: 7 }]);
+
+  assertEquals(composite.playback, { durationSec: 30 });
+  assertEquals(delivered, [
+    [
+      { connectionId: "wan", rateMbps: 1 },
+      { connectionId: "lab", rateMbps: 2 },
+    ],
+    [{ connectionId: "wan", rateMbps: 900 }],
+    {
+      updates: [{ connectionId: "lab", rateMbps: 5 }],
+      devices: [{ deviceId: "lab-sw", status: "down" }],
+    },
+  ]);
+});
+
+Deno.test("composite connector: passes unreadable payloads through", () => {
+  const a = manual("generated", 10);
+  const b = manual("timeline", null);
+  const delivered: unknown[] = [];
+  const composite = createCompositeTrafficConnector({
+    members: [
+      { id: "a", connector: a.connector },
+      { id: "b", connector: b.connector },
+    ],
+  });
+  composite.start((payload) => delivered.push(payload));
+  a.push("garbage");
+  b.push([{ rateMbps: 1 }]);
+
+  assertEquals(composite.playback, { durationSec: null });
+  assertEquals(delivered, ["garbage", [{ rateMbps: 1 }]]);
+});
@@ -1,67 +1,151 @@
-import type { OnTrafficUpdate, StopTraffic, TrafficUpdate } from "../types.ts";
+import type {
+  DeviceStatusUpdate,
+  OnTrafficUpdate,
+  SimulatedFailures,
+  StopTraffic,
+  TrafficUpdate,
+} from "../types.ts";
 import {
   buildUndirectedAdjacency,
+  findEqualCostPathsConnectionIds,
   findShortestPathConnectionIds,
+  orientPathConnectionIds,
+  type PathHop,
 } from "../graph.ts";
-import { asArray, clamp, isObject } from "../util.ts";
+import { buildCapacityByConnectionId } from "../capacity.ts";
+import { expandTrafficMatrix } from "../matrix.ts";
+import { asArray, clamp, hashString, isObject } from "../util.ts";
+import { createSimulationClock, type SimulationClock } from "../clock.ts";
 
-type ConnectionLike = {
-  id?: unknown;
-  from?: { deviceId?: unknown };
-  to?: { deviceId?: unknown };
-  connectionType?: unknown;
-  connection_type?: unknown;
-};
+type EcmpMode = "off" | "even" | "hash";
+
+const parseEcmpMode = (v: unknown): EcmpMode | undefined =>
+  v === "off" || v === "even" || v === "hash" ? v : undefined;
+
+type Route = { hops: PathHop[]; share: number };
 
 // Flow connector: deterministic end-to-end traffic that propagates across the network.
 // Config:
 // {
 //   "tickSeconds": 1,
+//   "ecmp": "off",
 //   "flows": [{ "id": "f1", "fromDeviceId": "a", "toDeviceId": "b", "rateMbps": 50 }],
-//   "events": [{ "t": 10, "flowId": "f1", "rateMbps": 200 }]
+//   "events": [
+//     { "t": 10, "flowId": "f1", "rateMbps": 200 },
+//     { "t": 20, "connectionId": "c1", "status": "down" },
+//     { "t": 30, "deviceId": "core-1", "status": "down" }
+//   ]
 // }
+// `ecmp` (global default, or per flow) controls equal-cost multipath:
+// "off" uses a single shortest path, "even" splits the rate evenly across all
+// equal-cost paths, and "hash" pins the whole flow to one of them by flow id.
+// Connection/device events fail (`"down"`) or restore (`"up"`) links; flows are
+// rerouted around failures. A flow with no remaining path is blackholed: the
+// still-up links of its last working path report `status: "blackholed"` (with
+// `blackholedFlowIds`), and failed links report `status: "down"`.
+// Device events are also passed on as `{ devices: [{ deviceId, status }] }`.
+// Event times are simulated seconds (see `SimulationClock`).
+// `failures` (what-if mode) stay failed for the whole run; events cannot
+// restore them.
+// A `matrix` of site-to-site demand (see `expandTrafficMatrix`) adds one flow
+// per site pair between representative `devices`; events address those flows
+// as `matrix:<fromSite>-><toSite>`.
 export function createFlowTrafficConnector({
   config,
   connections,
   connectionTypes,
+  devices,
   speedMultiplier = 1,
+  clock,
+  failures = {},
 }: {
   config: unknown;
   connections: unknown;
   connectionTypes?: unknown;
+  devices?: unknown;
   speedMultiplier?: number;
+  // Shared playback clock; without one the connector runs on its own at
+  // `speedMultiplier`.
+  clock?: SimulationClock;
+  failures?: SimulatedFailures;
 }) {
   if (!isObject(config)) throw new Error("config is required");
   if (!Array.isArray(connections)) throw new Error("connections is required");
-  const normalizedSpeed =
-    Number.isFinite(speedMultiplier) && speedMultiplier > 0
-      ? speedMultiplier
-      : 1;
 
   const cfg = config as Record<string, unknown>;
-  const connTypes = isObject(connectionTypes)
-    ? (connectionTypes as Record<string, { capacityMbps?: number }>)
-    : {};
 
   const tickSeconds = typeof cfg.tickSeconds === "number" && cfg.tickSeconds > 0
     ? cfg.tickSeconds
     : 1;
-  const flows = asArray<Record<string, unknown>>(cfg.flows);
+  const flows = [
+    ...asArray<Record<string, unknown>>(cfg.flows),
+    ...(cfg.matrix == null
+      ? []
+      : expandTrafficMatrix({ config: cfg.matrix, devices, connections })),
+  ];
   const events = asArray<Record<string, unknown>>(cfg.events);
 
-  const adjacency = buildUndirectedAdjacency(connections);
+  const defaultEcmp = parseEcmpMode(cfg.ecmp) ?? "off";
+
+  const pinnedConnections = new Set(failures.connectionIds ?? []);
+  const pinnedDevices = new Set(failures.deviceIds ?? []);
 
-  const capacityByConnectionId = new Map<string, number>();
-  (connections as ConnectionLike[]).forEach((c) => {
-    const id = String(c?.id || "").trim();
-    if (!id) return;
+  const baseAdjacency = buildUndirectedAdjacency(connections, connectionTypes);
 
-    const typeId = String(c?.connectionType || c?.connection_type || "").trim();
-    const cap = typeId && typeof connTypes?.[typeId]?.capacityMbps === "number"
-      ? connTypes[typeId].capacityMbps
-      : null;
-    if (typeof cap === "number" && cap > 0) capacityByConnectionId.set(id, cap);
-  });
+  type ConnectionEnds = { id: string; a: string; b: string };
+  const connectionEnds: ConnectionEnds[] = (connections as Array<
+    { id?: unknown; from?: { deviceId?: unknown }; to?: { deviceId?: unknown } }
+  >).map((c) => ({
+    id: String(c?.id || "").trim(),
+    a: String(c?.from?.deviceId || "").trim(),
+    b: String(c?.to?.deviceId || "").trim(),
+  }));
+
+  const orient = (fromDeviceId: string, path: string[]) =>
+    orientPathConnectionIds({
+      connections,
+      fromDeviceId,
+      pathConnectionIds: path,
+    });
+
+  const routeFlow = (
+    adjacency: ReturnType<typeof buildUndirectedAdjacency>,
+    { id, fromDeviceId, toDeviceId, ecmp }: {
+      id: string;
+      fromDeviceId: string;
+      toDeviceId: string;
+      ecmp: EcmpMode;
+    },
+  ): Route[] => {
+    if (ecmp === "off") {
+      const path = findShortestPathConnectionIds({
+        adjacency,
+        fromDeviceId,
+        toDeviceId,
+      });
+      const hops = path ? orient(fromDeviceId, path) : null;
+      return hops ? [{ hops, share: 1 }] : [];
+    }
+
+    const routes = findEqualCostPathsConnectionIds({
+      adjacency,
+      fromDeviceId,
+      toDeviceId,
+    })
+      .map((path) => orient(fromDeviceId, path))
+      .filter((hops): hops is PathHop[] => !!hops);
+    if (!routes.length) return [];
+    if (ecmp === "hash") {
+      // Stable across runs, so a "hash" flow always pins to the same path.
+      return [{ hops: routes[hashString(id) % routes.length], share: 1 }];
+    }
+    return routes.map((hops) => ({ hops, share: 1 / routes.length }));
+  };
+
+  const capacityByConnectionId = buildCapacityByConnectionId(
+    connections,
+    connectionTypes,
+  );
 
   // Precompute paths per flow for determinism + speed.
   const flowDefs = flows
@@ -71,16 +155,18 @@ export function createFlowTrafficConnector({
       const toDeviceId = String(f?.toDeviceId || "").trim();
       const rateMbps = typeof f?.rateMbps === "number" ? f.rateMbps : 0;
       const status = String(f?.status || "up");
-      const path = findShortestPathConnectionIds({
-        adjacency,
-        fromDeviceId,
-        toDeviceId,
-      });
+      const ecmp = parseEcmpMode(f?.ecmp) ?? defaultEcmp;
       return {
         id,
         fromDeviceId,
         toDeviceId,
-        pathConnectionIds: path,
+        ecmp,
+        routes: routeFlow(baseAdjacency, {
+          id,
+          fromDeviceId,
+          toDeviceId,
+          ecmp,
+        }),
         rateMbps,
         status,
       };
@@ -90,6 +176,8 @@ export function createFlowTrafficConnector({
   type FlowEvent = {
     t: number;
     flowId?: string;
+    connectionId?: string;
+    deviceId?: string;
     rateMbps?: number;
     status?: string;
   };
@@ -100,15 +188,23 @@ export function createFlowTrafficConnector({
       return {
         t: typeof rec.t === "number" ? rec.t : 0,
         flowId: typeof rec.flowId === "string" ? rec.flowId : undefined,
+        connectionId: typeof rec.connectionId === "string"
+          ? rec.connectionId
+          : undefined,
+        deviceId: typeof rec.deviceId === "string" ? rec.deviceId : undefined,
         rateMbps: typeof rec.rateMbps === "number" ? rec.rateMbps : undefined,
         status: typeof rec.status === "string" ? rec.status : undefined,
       };
     })
-    .filter((e) => e.flowId && Number.isFinite(e.t) && e.t >= 0)
+    .filter((e) =>
+      (e.flowId || e.connectionId || e.deviceId) && Number.isFinite(e.t) &&
+      e.t >= 0
+    )
     .sort((a, b) => a.t - b.t);
 
   return {
     kind: "flow",
+    playback: { durationSec: eventsQueueBase.at(-1)?.t ?? null },
     start(onUpdate: OnTrafficUpdate): StopTraffic {
       if (typeof onUpdate !== "function") {
         throw new Error("onUpdate callback is required");
@@ -119,11 +215,53 @@ export function createFlowTrafficConnector({
         flowState.set(f.id, { rateMbps: f.rateMbps, status: f.status })
       );
 
-      const prevByConn = new Map<string, number>();
+      type DirTotals = { aToB: number; bToA: number };
+      const prevByConn = new Map<string, DirTotals>();
+      const prevStatusByConn = new Map<string, string>();
+
+      const failedConnections = new Set<string>();
+      const failedDevices = new Set<string>();
+      const routesByFlow = new Map<string, Route[]>();
+      const lastGoodRoutesByFlow = new Map<string, Route[]>();
+      flowDefs.forEach((f) => {
+        routesByFlow.set(f.id, f.routes);
+        if (f.routes.length) lastGoodRoutesByFlow.set(f.id, f.routes);
+      });
+
+      const isDeviceFailed = (id: string) =>
+        failedDevices.has(id) || pinnedDevices.has(id);
+      const isConnectionFailed = (c: ConnectionEnds) =>
+        failedConnections.has(c.id) || pinnedConnections.has(c.id) ||
+        isDeviceFailed(c.a) || isDeviceFailed(c.b);
 
+      // Recompute every flow's routes over the links that are still up.
+      const reroute = () => {
+        const hasFailures = failedConnections.size > 0 ||
+          failedDevices.size > 0 || pinnedConnections.size > 0 ||
+          pinnedDevices.size > 0;
+        const adjacency = hasFailures
+          ? buildUndirectedAdjacency(
+            (connections as unknown[]).filter((_c, idx) =>
+              !isConnectionFailed(connectionEnds[idx])
+            ),
+            connectionTypes,
+          )
+          : baseAdjacency;
+
+        for (const f of flowDefs) {
+          const endpointDown = isDeviceFailed(f.fromDeviceId) ||
+            isDeviceFailed(f.toDeviceId);
+          const routes = endpointDown ? [] : routeFlow(adjacency, f);
+          routesByFlow.set(f.id, routes);
+          if (routes.length) lastGoodRoutesByFlow.set(f.id, routes);
+        }
+      };
+
+      // Each flow loads the links on its path in the direction it walks them.
       const computeTotals = () => {
-        const totals = new Map<string, number>();
+        const totals = new Map<string, DirTotals>();
         const touched = new Set<string>();
+        const blackholedByConn = new Map<string, string[]>();
 
         for (const f of flowDefs) {
           const st = flowState.get(f.id) || { rateMbps: 0, status: "up" };
@@ -131,85 +269,167 @@ export function createFlowTrafficConnector({
           const rate = typeof st.rateMbps === "number" ? st.rateMbps : 0;
           if (status === "down") continue;
           if (!rate || rate <= 0) continue;
-          if (!Array.isArray(f.pathConnectionIds)) continue;
 
-          for (const connId of f.pathConnectionIds) {
-            const prev = totals.get(connId) || 0;
-            totals.set(connId, prev + rate);
-            touched.add(connId);
+          const routes = routesByFlow.get(f.id) || [];
+          if (!routes.length) {
+            for (const route of lastGoodRoutesByFlow.get(f.id) || []) {
+              for (const { connectionId } of route.hops) {
+                const list = blackholedByConn.get(connectionId) || [];
+                if (!list.includes(f.id)) list.push(f.id);
+                blackholedByConn.set(connectionId, list);
+                touched.add(connectionId);
+              }
+            }
+            continue;
+          }
+
+          for (const route of routes) {
+            const share = rate * route.share;
+            for (const { connectionId, dir } of route.hops) {
+              const prev = totals.get(connectionId) || { aToB: 0, bToA: 0 };
+              totals.set(connectionId, { ...prev, [dir]: prev[dir] + share });
+              touched.add(connectionId);
+            }
+          }
+        }
+
+        const statusByConn = new Map<string, string>();
+        const blackholedFlowIdsByConn = new Map<string, string[]>();
+        for (const c of connectionEnds) {
+          if (!c.id) continue;
+          if (isConnectionFailed(c)) {
+            statusByConn.set(c.id, "down");
+            touched.add(c.id);
+          } else if (blackholedByConn.has(c.id)) {
+            statusByConn.set(c.id, "blackholed");
+            blackholedFlowIdsByConn.set(c.id, blackholedByConn.get(c.id)!);
           }
         }
 
-        // Include previously-touched links so we can explicitly decay them to 0.
+        // Include previously-touched links so we can explicitly decay them to 0
+        // (and clear a previous down/blackholed status).
         for (const connId of prevByConn.keys()) touched.add(connId);
+        for (const connId of prevStatusByConn.keys()) touched.add(connId);
 
-        return { totals, touched };
+        return { totals, touched, statusByConn, blackholedFlowIdsByConn };
       };
 
-      const emitDiff = (
-        { totals, touched }: {
-          totals: Map<string, number>;
-          touched: Set<string>;
-        },
-      ) => {
+      type Totals = ReturnType<typeof computeTotals>;
+
+      const toUpdate = (
+        connId: string,
+        { totals, statusByConn, blackholedFlowIdsByConn }: Totals,
+      ): TrafficUpdate => {
+        const dirTotals = totals.get(connId) || { aToB: 0, bToA: 0 };
+        const cap = capacityByConnectionId.get(connId) || null;
+        const util = (rate: number) =>
+          Math.round((cap ? clamp(rate / cap, 0, 1) : 0) * 100) / 100;
+        const aToB = {
+          rateMbps: Math.round(dirTotals.aToB),
+          utilization: util(dirTotals.aToB),
+        };
+        const bToA = {
+          rateMbps: Math.round(dirTotals.bToA),
+          utilization: util(dirTotals.bToA),
+        };
+        const blackholedFlowIds = blackholedFlowIdsByConn.get(connId);
+        // Aggregate fields carry the busier direction (links are full duplex).
+        return {
+          connectionId: connId,
+          status: statusByConn.get(connId) || "up",
+          rateMbps: Math.max(aToB.rateMbps, bToA.rateMbps),
+          utilization: Math.max(aToB.utilization, bToA.utilization),
+          aToB,
+          bToA,
+          ...(blackholedFlowIds ? { blackholedFlowIds } : {}),
+        };
+      };
+
+      const recordEmitted = (connId: string, computed: Totals) => {
+        prevByConn.set(
+          connId,
+          computed.totals.get(connId) || { aToB: 0, bToA: 0 },
+        );
+        const status = computed.statusByConn.get(connId);
+        const blackholed = computed.blackholedFlowIdsByConn.get(connId);
+        if (status) {
+          prevStatusByConn.set(connId, `${status}:${blackholed?.join(",")}`);
+        } else prevStatusByConn.delete(connId);
+      };
+
+      const emitDiff = (computed: Totals) => {
+        const { totals, touched, statusByConn, blackholedFlowIdsByConn } =
+          computed;
         const batch: TrafficUpdate[] = [];
         for (const connId of touched) {
-          const nextRate = totals.get(connId) || 0;
-          const prevRate = prevByConn.get(connId) || 0;
+          const next = totals.get(connId) || { aToB: 0, bToA: 0 };
+          const prev = prevByConn.get(connId) || { aToB: 0, bToA: 0 };
 
           const cap = capacityByConnectionId.get(connId) || null;
-          const nextUtil = cap ? clamp(nextRate / cap, 0, 1) : 0;
-          const prevUtil = cap ? clamp(prevRate / cap, 0, 1) : 0;
-
-          const rateChanged = Math.abs(prevRate - nextRate) >= 1;
-          const utilChanged = Math.abs(prevUtil - nextUtil) >= 0.005;
-          if (!rateChanged && !utilChanged) continue;
-
-          const update: TrafficUpdate = {
-            connectionId: connId,
-            status: "up",
-            rateMbps: Math.round(nextRate),
-            utilization: Math.round(nextUtil * 100) / 100,
-          };
-
-          batch.push(update);
-          prevByConn.set(connId, nextRate);
+          const changed = (["aToB", "bToA"] as const).some((dir) => {
+            const rateChanged = Math.abs(prev[dir] - next[dir]) >= 1;
+            const utilChanged = cap
+              ? Math.abs(
+                clamp(prev[dir] / cap, 0, 1) - clamp(next[dir] / cap, 0, 1),
+              ) >= 0.005
+              : false;
+            return rateChanged || utilChanged;
+          });
+          const status = statusByConn.get(connId);
+          const statusKey = status
+            ? `${status}:${blackholedFlowIdsByConn.get(connId)?.join(",")}`
+            : undefined;
+          const statusChanged = statusKey !== prevStatusByConn.get(connId);
+          if (!changed && !statusChanged) continue;
+
+          batch.push(toUpdate(connId, computed));
+          recordEmitted(connId, computed);
         }
 
         if (batch.length) onUpdate(batch);
       };
 
       // Seed.
+      if (pinnedConnections.size || pinnedDevices.size) reroute();
       const seeded = computeTotals();
       const initial: TrafficUpdate[] = Array.from(seeded.touched).map(
         (connId) => {
-          const rate = seeded.totals.get(connId) || 0;
-          const cap = capacityByConnectionId.get(connId) || null;
-          const util = cap ? clamp(rate / cap, 0, 1) : 0;
-          prevByConn.set(connId, rate);
-          return {
-            connectionId: connId,
-            status: "up",
-            rateMbps: Math.round(rate),
-            utilization: Math.round(util * 100) / 100,
-          };
+          recordEmitted(connId, seeded);
+          return toUpdate(connId, seeded);
         },
       );
       onUpdate({ initial, updates: [] });
 
-      const start = performance.now();
+      const runClock = clock ?? createSimulationClock({ speedMultiplier });
+      const startSec = runClock.nowSec();
       let eventIdx = 0;
 
-      const tick = () => {
-        const elapsedSec = ((performance.now() - start) / 1000) *
-          normalizedSpeed;
+      const tick = (nowSec: number) => {
+        const elapsedSec = nowSec - startSec;
 
-        // Apply scheduled flow events.
+        // Apply scheduled flow and failure events.
+        let topologyChanged = false;
+        const deviceStatus: DeviceStatusUpdate[] = [];
         while (
           eventIdx < eventsQueueBase.length &&
           eventsQueueBase[eventIdx].t <= elapsedSec
         ) {
           const { t: _t, ...ev } = eventsQueueBase[eventIdx];
+          const failed = ev.status === "down";
+          const connectionId = String(ev.connectionId || "").trim();
+          const deviceId = String(ev.deviceId || "").trim();
+          if (connectionId) {
+            if (failed) failedConnections.add(connectionId);
+            else failedConnections.delete(connectionId);
+            topologyChanged = true;
+          }
+          if (deviceId) {
+            if (failed) failedDevices.add(deviceId);
+            else failedDevices.delete(deviceId);
+            deviceStatus.push({ deviceId, status: failed ? "down" : "up" });
+            topologyChanged = true;
+          }
+
           const flowId = String(ev.flowId || "").trim();
           if (flowId) {
             const prev = flowState.get(flowId) || { rateMbps: 0, status: "up" };
@@ -221,15 +441,16 @@ export function createFlowTrafficConnector({
           eventIdx += 1;
         }
 
-        const { totals, touched } = computeTotals();
-        emitDiff({ totals, touched });
+        if (topologyChanged) reroute();
+        emitDiff(computeTotals());
+        if (deviceStatus.length) onUpdate({ devices: deviceStatus });
       };
 
-      const timer = setInterval(
-        tick,
-        Math.max(100, (tickSeconds * 1000) / normalizedSpeed),
-      );
-      return () => clearInterval(timer);
+      const unsubscribe = runClock.every(tickSeconds, tick);
+      return () => {
+        unsubscribe();
+        if (!clock) runClock.dispose();
+      };
     },
   };
 }
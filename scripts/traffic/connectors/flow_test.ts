@@ -0,0 +1,201 @@
+import { assertEquals } from "@std/assert";
+import { createFlowTrafficConnector } from "./flow.ts";
+import type { TrafficUpdate } from "../types.ts";
+import { createSimulationClock } from "../clock.ts";
+
+const connections = [
+  {
+    id: "wan",
+    connectionType: "eth-1g",
+    from: { deviceId: "isp" },
+    to: { deviceId: "edge" },
+  },
+  {
+    id: "lan",
+    connectionType: "eth-1g",
+    from: { deviceId: "sw" },
+    to: { deviceId: "edge" },
+  },
+];
+const connectionTypes = { "eth-1g": { capacityMbps: 1000 } };
+
+Deno.test("flow connector: accumulates traffic per direction", () => {
+  const connector = createFlowTrafficConnector({
+    config: {
+      flows: [
+        { id: "down", fromDeviceId: "isp", toDeviceId: "sw", rateMbps: 400 },
+        { id: "up", fromDeviceId: "sw", toDeviceId: "isp", rateMbps: 50 },
+      ],
+    },
+    connections,
+    connectionTypes,
+  });
+
+  let initial: TrafficUpdate[] = [];
+  const stop = connector.start((payload) => {
+    const rec = payload as { initial?: TrafficUpdate[] };
+    if (rec.initial) initial = rec.initial;
+  });
+  stop();
+
+  const byId = new Map(initial.map((t) => [t.connectionId, t]));
+  // isp -> edge is A→B on "wan", but edge -> sw is B→A on "lan".
+  assertEquals(byId.get("wan")?.aToB, { rateMbps: 400, utilization: 0.4 });
+  assertEquals(byId.get("wan")?.bToA, { rateMbps: 50, utilization: 0.05 });
+  assertEquals(byId.get("lan")?.aToB, { rateMbps: 50, utilization: 0.05 });
+  assertEquals(byId.get("lan")?.bToA, { rateMbps: 400, utilization: 0.4 });
+  // Aggregates carry the busier direction.
+  assertEquals(byId.get("lan")?.rateMbps, 400);
+  assertEquals(byId.get("lan")?.utilization, 0.4);
+});
+
+// Two-spine fabric: leaf-a reaches leaf-b via either spine.
+const fabric = [
+  { id: "s1-a", from: { deviceId: "spine-1" }, to: { deviceId: "leaf-a" } },
+  { id: "s2-a", from: { deviceId: "spine-2" }, to: { deviceId: "leaf-a" } },
+  { id: "s1-b", from: { deviceId: "spine-1" }, to: { deviceId: "leaf-b" } },
+  { id: "s2-b", from: { deviceId: "spine-2" }, to: { deviceId: "leaf-b" } },
+];
+
+const seedRates = (config: unknown) => {
+  let initial: TrafficUpdate[] = [];
+  const stop = createFlowTrafficConnector({ config, connections: fabric })
+    .start((payload) => {
+      const rec = payload as { initial?: TrafficUpdate[] };
+      if (rec.initial) initial = rec.initial;
+    });
+  stop();
+  return Object.fromEntries(
+    initial.map((t) => [t.connectionId, t.rateMbps]),
+  );
+};
+
+Deno.test("flow connector: ecmp even splits across equal-cost paths", () => {
+  const flow = { id: "f", fromDeviceId: "leaf-a", toDeviceId: "leaf-b" };
+  assertEquals(
+    seedRates({ ecmp: "even", flows: [{ ...flow, rateMbps: 100 }] }),
+    { "s1-a": 50, "s1-b": 50, "s2-a": 50, "s2-b": 50 },
+  );
+  // Per-flow override wins over the global mode.
+  assertEquals(
+    seedRates({
+      ecmp: "even",
+      flows: [{ ...flow, rateMbps: 100, ecmp: "off" }],
+    }),
+    { "s1-a": 100, "s1-b": 100 },
+  );
+});
+
+Deno.test("flow connector: ecmp hash pins each flow to one path", () => {
+  const rates = seedRates({
+    ecmp: "hash",
+    flows: ["f1", "f2", "f3", "f4"].map((id) => ({
+      id,
+      fromDeviceId: "leaf-a",
+      toDeviceId: "leaf-b",
+      rateMbps: 10,
+    })),
+  });
+  const viaSpine1 = (rates["s1-a"] ?? 0) / 10;
+  const viaSpine2 = (rates["s2-a"] ?? 0) / 10;
+  assertEquals(viaSpine1 + viaSpine2, 4);
+  assertEquals(rates["s1-a"], rates["s1-b"]);
+  assertEquals(rates["s2-a"], rates["s2-b"]);
+});
+
+Deno.test("flow connector: reroutes around failures and reports blackholes", () => {
+  // Triangle a-b-c plus a stub c-d: losing a-c reroutes via b; losing c
+  // blackholes the flow to d.
+  const triangle = [
+    { id: "ab", from: { deviceId: "a" }, to: { deviceId: "b" } },
+    { id: "bc", from: { deviceId: "b" }, to: { deviceId: "c" } },
+    { id: "ac", from: { deviceId: "a" }, to: { deviceId: "c" } },
+    { id: "cd", from: { deviceId: "c" }, to: { deviceId: "d" } },
+  ];
+  const batches: TrafficUpdate[][] = [];
+  const clock = createSimulationClock({ paused: true });
+  const stop = createFlowTrafficConnector({
+    config: {
+      tickSeconds: 0.1,
+      flows: [{ id: "f", fromDeviceId: "a", toDeviceId: "d", rateMbps: 10 }],
+      events: [
+        { t: 0, connectionId: "ac", status: "down" },
+        { t: 0.15, deviceId: "c", status: "down" },
+      ],
+    },
+    connections: triangle,
+    clock,
+  }).start((payload) => {
+    if (Array.isArray(payload)) batches.push(payload as TrafficUpdate[]);
+  });
+  clock.step(0.3);
+  stop();
+
+  const rerouted = new Map(batches[0].map((t) => [t.connectionId, t]));
+  assertEquals(rerouted.get("ac")?.status, "down");
+  assertEquals(rerouted.get("ab")?.rateMbps, 10);
+  assertEquals(rerouted.get("bc")?.rateMbps, 10);
+
+  const blackholed = new Map(batches[1].map((t) => [t.connectionId, t]));
+  assertEquals(blackholed.get("ab")?.status, "blackholed");
+  assertEquals(blackholed.get("ab")?.rateMbps, 0);
+  assertEquals(blackholed.get("ab")?.blackholedFlowIds, ["f"]);
+  assertEquals(blackholed.get("bc")?.status, "down");
+  assertEquals(blackholed.get("cd")?.status, "down");
+});
+
+Deno.test("flow connector: routes around simulated failures from the start", () => {
+  let initial: TrafficUpdate[] = [];
+  const stop = createFlowTrafficConnector({
+    config: {
+      flows: [
+        {
+          id: "f",
+          fromDeviceId: "leaf-a",
+          toDeviceId: "leaf-b",
+          rateMbps: 100,
+        },
+      ],
+    },
+    connections: fabric,
+    failures: { deviceIds: ["spine-1"] },
+  }).start((payload) => {
+    const rec = payload as { initial?: TrafficUpdate[] };
+    if (rec.initial) initial = rec.initial;
+  });
+  stop();
+
+  const byId = new Map(initial.map((t) => [t.connectionId, t]));
+  assertEquals(byId.get("s1-a")?.status, "down");
+  assertEquals(byId.get("s1-b")?.status, "down");
+  assertEquals(byId.get("s2-a")?.rateMbps, 100);
+  assertEquals(byId.get("s2-b")?.rateMbps, 100);
+});
+
+Deno.test("flow connector: expands a site traffic matrix into flows", () => {
+  const devices = [
+    { id: "isp", site: "wan" },
+    { id: "edge", site: "office" },
+    { id: "sw", site: "office" },
+  ];
+  let initial: TrafficUpdate[] = [];
+  const stop = createFlowTrafficConnector({
+    config: {
+      flows: [{ id: "f", fromDeviceId: "sw", toDeviceId: "edge", rateMbps: 5 }],
+      matrix: { demands: { wan: { office: 300 }, office: { wan: 20 } } },
+    },
+    connections,
+    connectionTypes,
+    devices,
+  }).start((payload) => {
+    const rec = payload as { initial?: TrafficUpdate[] };
+    if (rec.initial) initial = rec.initial;
+  });
+  stop();
+
+  // "edge" represents the office (two links against one for "sw").
+  const byId = new Map(initial.map((t) => [t.connectionId, t]));
+  assertEquals(byId.get("wan")?.aToB?.rateMbps, 300);
+  assertEquals(byId.get("wan")?.bToA?.rateMbps, 20);
+  assertEquals(byId.get("lan")?.rateMbps, 5);
+});
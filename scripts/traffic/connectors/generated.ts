@@ -1,25 +1,30 @@
 import type { OnTrafficUpdate, StopTraffic, TrafficUpdate } from "../types.ts";
-import { clamp, isObject } from "../util.ts";
+import { clamp, createSeededRandom, isObject } from "../util.ts";
+import { createProfileSampler, parseTrafficProfiles } from "../profiles.ts";
+import { createSimulationClock, type SimulationClock } from "../clock.ts";
 
 // Generated connector: random-walk updates driven by a config file.
 // Config format (minimal):
 // {
 //   "tickSeconds": 1,
+//   "seed": 42,
 //   "initial": [{ connectionId, status, rateMbps, utilization }, ...],
 //   "links": {
-//     "conn-id": { "rateMbps": {"min":0,"max":1000,"delta":50}, "utilization": {"min":0,"max":1,"delta":0.05} }
+//     "conn-id": { "rateMbps": {"min":0,"max":1000,"delta":50}, "utilization": {"min":0,"max":1,"delta":0.05},
+//                  "profile": [{ "kind": "diurnal", "periodSeconds": 120 }] }
 //   },
 //   "events": [{"t": 10, "connectionId": "...", "status": "down" }, ...]
 // }
+// The walk steps once per `tickSeconds` of simulated time (or once per clock
+// frame, when frames are longer), so with a `seed` (instead of `Math.random`)
+// every run at the same speed produces the same updates.
+// A link's `profile` (see `TrafficProfile`) scales the walked rate over time.
 export function createGeneratedTrafficConnector({
   config,
   speedMultiplier = 1,
-}: { config: unknown; speedMultiplier?: number }) {
+  clock,
+}: { config: unknown; speedMultiplier?: number; clock?: SimulationClock }) {
   if (!isObject(config)) throw new Error("config is required");
-  const normalizedSpeed =
-    Number.isFinite(speedMultiplier) && speedMultiplier > 0
-      ? speedMultiplier
-      : 1;
 
   const cfg = config as Record<string, unknown>;
 
@@ -31,6 +36,9 @@ export function createGeneratedTrafficConnector({
     ? (cfg.links as Record<string, unknown>)
     : {};
   const events = Array.isArray(cfg.events) ? cfg.events : [];
+  const seed = typeof cfg.seed === "number" || typeof cfg.seed === "string"
+    ? cfg.seed
+    : null;
 
   const eventsQueueBase = events
     .map((e) => ({ t: typeof e?.t === "number" ? e.t : 0, ...e }))
@@ -39,6 +47,7 @@ export function createGeneratedTrafficConnector({
 
   return {
     kind: "generated",
+    playback: { durationSec: eventsQueueBase.at(-1)?.t ?? null },
     start(onUpdate: OnTrafficUpdate): StopTraffic {
       if (typeof onUpdate !== "function") {
         throw new Error("onUpdate callback is required");
@@ -47,18 +56,33 @@ export function createGeneratedTrafficConnector({
       // Seed.
       onUpdate({ initial, updates: [] });
 
+      const random = seed == null ? Math.random : createSeededRandom(seed);
       const state = new Map();
       initial.forEach((t) => {
         if (!isObject(t) || typeof t.connectionId !== "string") return;
         state.set(t.connectionId, { ...t } as TrafficUpdate);
       });
+      // The walk runs on unshaped values; profiles scale what is emitted.
+      const walked = new Map<
+        string,
+        { rateMbps: number; utilization: number }
+      >();
+      const samplers = new Map(
+        Object.entries(links).map(([connectionId, rules]) => [
+          connectionId,
+          createProfileSampler(
+            parseTrafficProfiles(isObject(rules) ? rules.profile : null),
+            random,
+          ),
+        ]),
+      );
 
-      const start = performance.now();
+      const runClock = clock ?? createSimulationClock({ speedMultiplier });
+      const startSec = runClock.nowSec();
       let eventIdx = 0;
 
-      const tick = () => {
-        const elapsedSec = ((performance.now() - start) / 1000) *
-          normalizedSpeed;
+      const tick = (nowSec: number, dtSec: number) => {
+        const elapsedSec = nowSec - startSec;
         const batch = [];
 
         // Apply scheduled events.
@@ -71,6 +95,13 @@ export function createGeneratedTrafficConnector({
           const prev = state.get(ev.connectionId) ||
             { connectionId: ev.connectionId };
           state.set(ev.connectionId, { ...prev, ...ev });
+          const base = walked.get(ev.connectionId);
+          if (base && typeof ev.rateMbps === "number") {
+            base.rateMbps = ev.rateMbps;
+          }
+          if (base && typeof ev.utilization === "number") {
+            base.utilization = ev.utilization;
+          }
           eventIdx += 1;
         }
 
@@ -95,17 +126,22 @@ export function createGeneratedTrafficConnector({
               ? rules.capacityMbps
               : null;
 
+          // Sampled every tick so bursts keep their timing while down.
+          const shape = samplers.get(connectionId)!(elapsedSec, dtSec);
+
           if (status === "down") {
             // Keep it pinned at 0 unless events change it.
             return;
           }
 
-          let nextRate: number = typeof prev.rateMbps === "number"
-            ? prev.rateMbps
-            : 0;
-          let nextUtil: number = typeof prev.utilization === "number"
-            ? prev.utilization
-            : 0;
+          const base = walked.get(connectionId) ?? {
+            rateMbps: typeof prev.rateMbps === "number" ? prev.rateMbps : 0,
+            utilization: typeof prev.utilization === "number"
+              ? prev.utilization
+              : 0,
+          };
+          let nextRate = base.rateMbps;
+          let nextUtil = base.utilization;
 
           if (rateRule) {
             const min = typeof rateRule.min === "number" ? rateRule.min : 0;
@@ -117,11 +153,15 @@ export function createGeneratedTrafficConnector({
               : 0;
             if (delta > 0) {
               nextRate = clamp(
-                (Number(nextRate) || 0) + (Math.random() * 2 - 1) * delta,
+                (Number(nextRate) || 0) + (random() * 2 - 1) * delta,
                 min,
                 max,
               );
             }
+            base.rateMbps = nextRate;
+            nextRate = clamp(nextRate * shape, min, max);
+          } else {
+            nextRate *= shape;
           }
 
           if (utilRule) {
@@ -132,12 +172,17 @@ export function createGeneratedTrafficConnector({
               : 0;
             if (delta > 0) {
               nextUtil = clamp(
-                (Number(nextUtil) || 0) + (Math.random() * 2 - 1) * delta,
+                (Number(nextUtil) || 0) + (random() * 2 - 1) * delta,
                 min,
                 max,
               );
             }
+            base.utilization = nextUtil;
+            nextUtil = clamp(nextUtil * shape, min, max);
+          } else {
+            nextUtil = clamp(nextUtil * shape, 0, 1);
           }
+          walked.set(connectionId, base);
 
           // If a capacity is supplied, keep utilization consistent with rate.
           // This makes "link speed" (capacity) and traffic (rate) coherent.
@@ -150,7 +195,7 @@ export function createGeneratedTrafficConnector({
               : 1;
 
             const base = clamp((Number(nextRate) || 0) / capacityMbps, 0, 1);
-            const jitter = (Math.random() * 2 - 1) * 0.03; // +/- 3% wiggle keeps it from looking too perfect
+            const jitter = (random() * 2 - 1) * 0.03; // +/- 3% wiggle keeps it from looking too perfect
             nextUtil = clamp(base + jitter, utilMin, utilMax);
           }
 
@@ -174,11 +219,11 @@ export function createGeneratedTrafficConnector({
         if (batch.length) onUpdate(batch);
       };
 
-      const timer = setInterval(
-        tick,
-        Math.max(100, (tickSeconds * 1000) / normalizedSpeed),
-      );
-      return () => clearInterval(timer);
+      const unsubscribe = runClock.every(tickSeconds, tick);
+      return () => {
+        unsubscribe();
+        if (!clock) runClock.dispose();
+      };
     },
   };
 }
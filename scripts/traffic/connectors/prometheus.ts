@@ -0,0 +1,129 @@
+import type { FetchText, OnTrafficUpdate, StopTraffic } from "../types.ts";
+import { defaultFetchText } from "../fetch.ts";
+import { type CounterSample, createCounterRateDeriver } from "../counters.ts";
+import { parsePrometheusText } from "../prometheus.ts";
+import { isObject } from "../util.ts";
+
+export type PrometheusMapping = {
+  inMetric: string;
+  outMetric: string;
+  deviceLabel: string;
+  interfaceLabel: string;
+  counterBits: 32 | 64;
+};
+
+export type PrometheusTrafficConnectorOptions = {
+  url: string;
+  connections: unknown;
+  connectionTypes?: unknown;
+  mapping?: unknown;
+  fetchText?: FetchText;
+  intervalMs?: number;
+  speedMultiplier?: number;
+  now?: () => number;
+};
+
+const DEFAULT_MAPPING: PrometheusMapping = {
+  inMetric: "ifHCInOctets",
+  outMetric: "ifHCOutOctets",
+  deviceLabel: "device",
+  interfaceLabel: "ifName",
+  counterBits: 64,
+};
+
+export const parsePrometheusMapping = (raw: unknown): PrometheusMapping => {
+  const rec = isObject(raw) ? raw : {};
+  const str = (v: unknown, fallback: string) =>
+    typeof v === "string" && v.trim() ? v.trim() : fallback;
+  return {
+    inMetric: str(rec.inMetric, DEFAULT_MAPPING.inMetric),
+    outMetric: str(rec.outMetric, DEFAULT_MAPPING.outMetric),
+    deviceLabel: str(rec.deviceLabel, DEFAULT_MAPPING.deviceLabel),
+    interfaceLabel: str(rec.interfaceLabel, DEFAULT_MAPPING.interfaceLabel),
+    counterBits: rec.counterBits === 32 ? 32 : 64,
+  };
+};
+
+// Prometheus connector: polls a text-format endpoint for per-interface octet
+// counters and hands them to the counter-rate derivation layer
+// (`../counters.ts`), which matches device + interface labels onto connection
+// ends and handles wraps/restarts.
+// traffic.connector.json:
+// {
+//   "kind": "prometheus",
+//   "url": "http://exporter:9116/metrics",
+//   "intervalMs": 10000,
+//   "prometheus": {
+//     "inMetric": "ifHCInOctets",
+//     "outMetric": "ifHCOutOctets",
+//     "deviceLabel": "device",
+//     "interfaceLabel": "ifName",
+//     "counterBits": 64
+//   }
+// }
+export function createPrometheusTrafficConnector({
+  url,
+  connections,
+  connectionTypes,
+  mapping,
+  fetchText = defaultFetchText,
+  intervalMs = 10000,
+  speedMultiplier = 1,
+  now = () => Date.now(),
+}: PrometheusTrafficConnectorOptions) {
+  if (!url) throw new Error("url is required");
+  if (!Array.isArray(connections)) throw new Error("connections is required");
+  const normalizedSpeed =
+    Number.isFinite(speedMultiplier) && speedMultiplier > 0
+      ? speedMultiplier
+      : 1;
+
+  const rules = parsePrometheusMapping(mapping);
+  const deriver = createCounterRateDeriver({
+    connections,
+    connectionTypes,
+    options: { counterBits: rules.counterBits },
+  });
+
+  return {
+    kind: "prometheus",
+    start(onUpdate: OnTrafficUpdate): StopTraffic {
+      if (typeof onUpdate !== "function") {
+        throw new Error("onUpdate callback is required");
+      }
+
+      const tick = async () => {
+        const text = await fetchText(url);
+        const at = now();
+
+        const byEndpoint = new Map<string, CounterSample>();
+        for (const sample of parsePrometheusText(text)) {
+          const isIn = sample.name === rules.inMetric;
+          const isOut = sample.name === rules.outMetric;
+          if (!isIn && !isOut) continue;
+          const deviceId = sample.labels[rules.deviceLabel];
+          const interfaceId = sample.labels[rules.interfaceLabel];
+          if (!deviceId || !interfaceId) continue;
+
+          const key = `${deviceId}\u0000${interfaceId}`;
+          const counters = byEndpoint.get(key) || { deviceId, interfaceId };
+          if (isIn) counters.inOctets = sample.value;
+          else counters.outOctets = sample.value;
+          byEndpoint.set(key, counters);
+        }
+
+        const batch = deriver.derive(Array.from(byEndpoint.values()), at);
+        if (batch.length) onUpdate(batch);
+      };
+
+      // Fire immediately (baseline) then poll.
+      tick().catch((err) => console.error(err));
+      const timer = setInterval(
+        () => tick().catch((err) => console.error(err)),
+        Math.max(100, intervalMs / normalizedSpeed),
+      );
+
+      return () => clearInterval(timer);
+    },
+  };
+}
@@ -0,0 +1,120 @@
+import { assertEquals } from "@std/assert";
+import { createPrometheusTrafficConnector } from "./prometheus.ts";
+import { parsePrometheusText } from "../prometheus.ts";
+
+const connections = [
+  {
+    id: "c1",
+    connectionType: "eth-1g",
+    from: { deviceId: "sw1", interfaceId: "Gi1/0/1" },
+    to: { deviceId: "sw2" },
+  },
+  {
+    id: "c2",
+    connectionType: "eth-100m",
+    from: { deviceId: "sw1", portId: "p2" },
+    to: { deviceId: "sw3" },
+  },
+];
+const connectionTypes = {
+  "eth-1g": { capacityMbps: 1000 },
+  "eth-100m": { capacityMbps: 100 },
+};
+
+const exposition = (rows: Array<[string, string, string, number]>) =>
+  [
+    "# HELP ifHCOutOctets Outbound octets",
+    "# TYPE ifHCOutOctets counter",
+    ...rows.map(([name, device, ifName, v]) =>
+      `${name}{device="${device}",ifName="${ifName}"} ${v}`
+    ),
+  ].join("\n");
+
+// Runs the connector for two polls (the first one only records a baseline).
+const pollTwice = async (
+  responses: string[],
+  times: number[],
+  mapping?: unknown,
+) => {
+  const connector = createPrometheusTrafficConnector({
+    url: "/metrics",
+    connections,
+    connectionTypes,
+    mapping,
+    intervalMs: 100,
+    fetchText: () => Promise.resolve(responses.shift() ?? ""),
+    now: () => times.shift() ?? 0,
+  });
+  const payloads: unknown[] = [];
+  const stop = connector.start((payload) => payloads.push(payload));
+  await new Promise((resolve) => setTimeout(resolve, 150));
+  stop();
+  return payloads;
+};
+
+Deno.test("prometheus: parses labels, escapes, and skips comments", () => {
+  const samples = parsePrometheusText(
+    [
+      "# TYPE x counter",
+      'x{a="1",b="q\\"uote"} 42 1700000000000',
+      "y 3.5",
+      "bad{line",
+    ].join("\n"),
+  );
+  assertEquals(samples, [
+    { name: "x", labels: { a: "1", b: 'q"uote' }, value: 42 },
+    { name: "y", labels: {}, value: 3.5 },
+  ]);
+});
+
+Deno.test("prometheus connector: derives rates from counter deltas", async () => {
+  const payloads = await pollTwice(
+    [
+      exposition([
+        ["ifHCOutOctets", "sw1", "Gi1/0/1", 0],
+        ["ifHCInOctets", "sw1", "Gi1/0/1", 0],
+        ["ifHCOutOctets", "sw1", "p2", 1000],
+      ]),
+      exposition([
+        // 125 MB out over 10s = 100 Mbps; 25 MB in = 20 Mbps.
+        ["ifHCOutOctets", "sw1", "Gi1/0/1", 125_000_000],
+        ["ifHCInOctets", "sw1", "Gi1/0/1", 25_000_000],
+        // A 64-bit counter going backwards is a restart: no rate this poll.
+        ["ifHCOutOctets", "sw1", "p2", 10],
+      ]),
+    ],
+    [0, 10_000],
+  );
+
+  assertEquals(payloads, [[
+    {
+      connectionId: "c1",
+      status: "up",
+      rateMbps: 100,
+      utilization: 0.1,
+      aToB: { rateMbps: 100, utilization: 0.1 },
+      bToA: { rateMbps: 20, utilization: 0.02 },
+    },
+  ]]);
+});
+
+Deno.test("prometheus connector: handles 32-bit counter wraps", async () => {
+  const payloads = await pollTwice(
+    [
+      exposition([["ifHCOutOctets", "sw1", "p2", 2 ** 32 - 250_000]]),
+      exposition([["ifHCOutOctets", "sw1", "p2", 1_000_000]]),
+    ],
+    [0, 1_000],
+    { counterBits: 32 },
+  );
+
+  assertEquals(payloads, [[
+    {
+      connectionId: "c2",
+      status: "up",
+      rateMbps: 10,
+      utilization: 0.1,
+      aToB: { rateMbps: 10, utilization: 0.1 },
+    },
+  ]]);
+});
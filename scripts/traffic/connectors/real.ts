@@ -1,5 +1,6 @@
 import type { FetchJson, OnTrafficUpdate, StopTraffic } from "../types.ts";
 import { defaultFetchJson } from "../fetch.ts";
+import type { CounterRateDeriver } from "../counters.ts";
 import { isObject } from "../util.ts";
 
 export type RealTrafficConnectorOptions = {
@@ -7,6 +8,9 @@ export type RealTrafficConnectorOptions = {
   fetchJson?: FetchJson;
   intervalMs?: number;
   speedMultiplier?: number;
+  // Opt-in: the endpoint returns raw `CounterSample[]` instead of rates.
+  counterDeriver?: CounterRateDeriver;
+  now?: () => number;
 };
 
 export function createRealTrafficConnector({
@@ -14,6 +18,8 @@ export function createRealTrafficConnector({
   fetchJson = defaultFetchJson,
   intervalMs = 5000,
   speedMultiplier = 1,
+  counterDeriver,
+  now = () => Date.now(),
 }: RealTrafficConnectorOptions) {
   if (!url) throw new Error("url is required");
   const normalizedSpeed =
@@ -30,6 +36,11 @@ export function createRealTrafficConnector({
 
       const tick = async () => {
         const data = await fetchJson(url);
+        if (counterDeriver) {
+          const batch = counterDeriver.derive(data, now());
+          if (batch.length) onUpdate(batch);
+          return;
+        }
         if (Array.isArray(data)) onUpdate(data);
         else if (isObject(data) && Array.isArray(data.initial)) onUpdate(data);
       };
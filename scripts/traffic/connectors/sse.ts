@@ -0,0 +1,153 @@
+import type {
+  OnTrafficStatus,
+  OnTrafficUpdate,
+  StopTraffic,
+} from "../types.ts";
+import { coerceTrafficPayload } from "../fetch.ts";
+
+export type EventSourceMessageLike = { data: unknown; lastEventId?: string };
+
+export type EventSourceLike = {
+  readyState: number;
+  onopen: ((ev: unknown) => void) | null;
+  onerror: ((ev: unknown) => void) | null;
+  addEventListener: (
+    type: string,
+    listener: (ev: EventSourceMessageLike) => void,
+  ) => void;
+  close: () => void;
+};
+
+export type SseTrafficConnectorOptions = {
+  url: string;
+  eventName?: string;
+  createEventSource?: (url: string) => EventSourceLike;
+  reconnectDelayMs?: number;
+  reconnectMaxDelayMs?: number;
+};
+
+// EventSource.readyState values.
+const CONNECTING = 0;
+const CLOSED = 2;
+
+const defaultCreateEventSource = (url: string): EventSourceLike =>
+  new EventSource(url) as unknown as EventSourceLike;
+
+const withLastEventId = (url: string, lastEventId: string) =>
+  `${url}${url.includes("?") ? "&" : "?"}lastEventId=${
+    encodeURIComponent(lastEventId)
+  }`;
+
+// SSE connector: the collector streams `TrafficUpdate[]` (or a timeline
+// `{ initial, updates }`) as JSON `data:` lines, optionally under a named
+// event. Servers should tag events with `id:` so missed updates can be
+// replayed: the browser resends the cursor as `Last-Event-ID` on its own
+// reconnects, and when the stream is closed for good we reopen it ourselves
+// (with backoff) passing the cursor as a `lastEventId` query parameter, since
+// EventSource cannot set request headers.
+export function createSseTrafficConnector({
+  url,
+  eventName,
+  createEventSource = defaultCreateEventSource,
+  reconnectDelayMs = 1000,
+  reconnectMaxDelayMs = 30000,
+}: SseTrafficConnectorOptions) {
+  if (!url) throw new Error("url is required");
+  const eventType = eventName?.trim() || "message";
+  const minDelay = Number.isFinite(reconnectDelayMs) && reconnectDelayMs > 0
+    ? reconnectDelayMs
+    : 1000;
+  const maxDelay = Number.isFinite(reconnectMaxDelayMs) &&
+      reconnectMaxDelayMs >= minDelay
+    ? reconnectMaxDelayMs
+    : Math.max(minDelay, 30000);
+
+  return {
+    kind: "sse",
+    start(onUpdate: OnTrafficUpdate, onStatus?: OnTrafficStatus): StopTraffic {
+      if (typeof onUpdate !== "function") {
+        throw new Error("onUpdate callback is required");
+      }
+
+      let stopped = false;
+      let source: EventSourceLike | null = null;
+      let retryTimer: ReturnType<typeof setTimeout> | null = null;
+      let attempt = 0;
+      let lastEventId = "";
+
+      const scheduleReconnect = () => {
+        if (stopped || retryTimer) return;
+        attempt += 1;
+        const retryInMs = Math.min(maxDelay, minDelay * 2 ** (attempt - 1));
+        onStatus?.({ state: "reconnecting", attempt, retryInMs });
+        retryTimer = setTimeout(() => {
+          retryTimer = null;
+          connect();
+        }, retryInMs);
+      };
+
+      const connect = () => {
+        if (stopped) return;
+        onStatus?.({ state: "connecting", attempt });
+
+        let es: EventSourceLike;
+        try {
+          es = createEventSource(
+            lastEventId ? withLastEventId(url, lastEventId) : url,
+          );
+        } catch (err) {
+          console.error(err);
+          scheduleReconnect();
+          return;
+        }
+        source = es;
+
+        es.onopen = () => {
+          if (stopped || source !== es) return;
+          attempt = 0;
+          onStatus?.({ state: "open" });
+        };
+        es.addEventListener(eventType, (ev) => {
+          if (stopped || source !== es) return;
+          if (ev?.lastEventId) lastEventId = ev.lastEventId;
+          if (typeof ev?.data !== "string") return;
+          let data: unknown;
+          try {
+            data = JSON.parse(ev.data);
+          } catch (err) {
+            console.error(err);
+            return;
+          }
+          const payload = coerceTrafficPayload(data);
+          if (payload) onUpdate(payload);
+        });
+        es.onerror = () => {
+          if (stopped || source !== es) return;
+          // CONNECTING: the browser is already retrying with Last-Event-ID.
+          if (es.readyState === CONNECTING) {
+            onStatus?.({ state: "connecting", attempt: attempt + 1 });
+            return;
+          }
+          if (es.readyState !== CLOSED) return;
+          source = null;
+          scheduleReconnect();
+        };
+      };
+
+      connect();
+
+      return () => {
+        stopped = true;
+        if (retryTimer) clearTimeout(retryTimer);
+        retryTimer = null;
+        const es = source;
+        source = null;
+        if (es) {
+          es.onopen = null;
+          es.onerror = null;
+          es.close();
+        }
+      };
+    },
+  };
+}
@@ -0,0 +1,88 @@
+import { assertEquals } from "@std/assert";
+import {
+  createSseTrafficConnector,
+  type EventSourceLike,
+  type EventSourceMessageLike,
+} from "./sse.ts";
+
+type FakeEventSource = EventSourceLike & {
+  url: string;
+  closed: boolean;
+  emit: (type: string, ev: EventSourceMessageLike) => void;
+};
+
+const createFakeEventSource = (url: string): FakeEventSource => {
+  const listeners = new Map<string, (ev: EventSourceMessageLike) => void>();
+  const es: FakeEventSource = {
+    url,
+    readyState: 0,
+    closed: false,
+    onopen: null,
+    onerror: null,
+    addEventListener: (type, listener) => listeners.set(type, listener),
+    close() {
+      es.closed = true;
+      es.readyState = 2;
+    },
+    emit: (type, ev) => listeners.get(type)?.(ev),
+  };
+  return es;
+};
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+Deno.test("sse connector: only forwards the configured event name", () => {
+  const sources: FakeEventSource[] = [];
+  const connector = createSseTrafficConnector({
+    url: "/stream",
+    eventName: "traffic",
+    createEventSource: (url) => {
+      const es = createFakeEventSource(url);
+      sources.push(es);
+      return es;
+    },
+  });
+
+  const payloads: unknown[] = [];
+  const stop = connector.start((payload) => payloads.push(payload));
+
+  sources[0].emit("message", { data: JSON.stringify([{ connectionId: "x" }]) });
+  sources[0].emit("traffic", {
+    data: JSON.stringify([{ connectionId: "c1", utilization: 0.5 }]),
+    lastEventId: "1",
+  });
+  stop();
+
+  assertEquals(payloads, [[{ connectionId: "c1", utilization: 0.5 }]]);
+  assertEquals(sources[0].closed, true);
+});
+
+Deno.test("sse connector: reopens a closed stream from the last event id", async () => {
+  const sources: FakeEventSource[] = [];
+  const connector = createSseTrafficConnector({
+    url: "/stream?net=home",
+    reconnectDelayMs: 1,
+    createEventSource: (url) => {
+      const es = createFakeEventSource(url);
+      sources.push(es);
+      return es;
+    },
+  });
+
+  const stop = connector.start(() => {});
+  sources[0].emit("message", { data: "[]", lastEventId: "42" });
+
+  // Transient errors are retried by the browser itself.
+  sources[0].onerror?.({});
+  assertEquals(sources.length, 1);
+
+  sources[0].readyState = 2;
+  sources[0].onerror?.({});
+  await wait(5);
+  stop();
+
+  assertEquals(sources.map((s) => s.url), [
+    "/stream?net=home",
+    "/stream?net=home&lastEventId=42",
+  ]);
+});
@@ -1,23 +1,25 @@
 import type { OnTrafficUpdate, StopTraffic, TrafficUpdate } from "../types.ts";
 import { isObject } from "../util.ts";
+import { createSimulationClock, type SimulationClock } from "../clock.ts";
 
 export type TimelineTrafficConnectorOptions = {
   timeline: unknown;
-  tickMs?: number;
   loop?: boolean;
   speedMultiplier?: number;
+  // Shared playback clock; without one the connector plays on its own at
+  // `speedMultiplier`.
+  clock?: SimulationClock;
 };
 
+// Timeline connector: `{ initial, updates: [{ t, connectionId, ... }] }` plays
+// each update `t` simulated seconds after start. Recordings add
+// `payloads: [{ t, payload }]`, delivered verbatim (see `TrafficRecording`).
 export function createTimelineTrafficConnector({
   timeline,
-  tickMs = 250,
   loop = false,
   speedMultiplier = 1,
+  clock,
 }: TimelineTrafficConnectorOptions) {
-  const normalizedSpeed =
-    Number.isFinite(speedMultiplier) && speedMultiplier > 0
-      ? speedMultiplier
-      : 1;
   const timelineRec = isObject(timeline) ? timeline : null;
   const initial = Array.isArray(timelineRec?.initial)
     ? (timelineRec.initial as TrafficUpdate[])
@@ -26,30 +28,46 @@ export function createTimelineTrafficConnector({
     ? (timelineRec.updates as Array<Record<string, unknown>>)
     : [];
 
+  const payloads = Array.isArray(timelineRec?.payloads)
+    ? (timelineRec.payloads as unknown[])
+    : [];
+
   type TimelineUpdate = Record<string, unknown> & {
     t: number;
     offset?: number;
     connectionId?: string;
   };
+  type TimelineEntry =
+    | { t: number; update: TimelineUpdate }
+    | { t: number; payload: unknown };
 
-  const queueBase: TimelineUpdate[] = updates
-    .map((u) => {
-      const rec = isObject(u) ? u : {};
-      return {
-        t: typeof rec.t === "number"
-          ? rec.t
-          : (typeof rec.offset === "number" ? rec.offset : 0),
-        ...rec,
-      } as TimelineUpdate;
-    })
-    .filter((u) =>
-      u && typeof u.connectionId === "string" &&
-      Number.isFinite(u.t) && u.t >= 0
-    )
-    .sort((a, b) => a.t - b.t);
+  const queueBase: TimelineEntry[] = [
+    ...updates
+      .map((u) => {
+        const rec = isObject(u) ? u : {};
+        return {
+          t: typeof rec.t === "number"
+            ? rec.t
+            : (typeof rec.offset === "number" ? rec.offset : 0),
+          ...rec,
+        } as TimelineUpdate;
+      })
+      .filter((u) =>
+        u && typeof u.connectionId === "string" &&
+        Number.isFinite(u.t) && u.t >= 0
+      )
+      .map((update) => ({ t: update.t, update })),
+    ...payloads
+      .filter((p): p is { t: number; payload: unknown } =>
+        isObject(p) && typeof p.t === "number" && Number.isFinite(p.t) &&
+        p.t >= 0
+      )
+      .map(({ t, payload }) => ({ t, payload })),
+  ].sort((a, b) => a.t - b.t);
 
   return {
     kind: "timeline",
+    playback: { durationSec: loop ? null : (queueBase.at(-1)?.t ?? 0) },
     start(onUpdate: OnTrafficUpdate): StopTraffic {
       if (typeof onUpdate !== "function") {
         throw new Error("onUpdate callback is required");
@@ -57,31 +75,46 @@ export function createTimelineTrafficConnector({
 
       onUpdate({ initial, updates: [] });
 
-      let start = performance.now();
+      const runClock = clock ?? createSimulationClock({ speedMultiplier });
       let idx = 0;
-      let queue = queueBase;
-
-      const timer = setInterval(() => {
-        const elapsedSec = ((performance.now() - start) / 1000) *
-          normalizedSpeed;
-        const batch = [];
+      // Clock time at which the current pass through the timeline began.
+      let passStartSec = runClock.nowSec();
 
-        while (idx < queue.length && queue[idx].t <= elapsedSec) {
-          const { t: _t, offset: _offset, ...rest } = queue[idx];
-          batch.push(rest);
+      // Updates due together go out as one batch; a recorded payload keeps
+      // its place in between.
+      const deliverUntil = (elapsedSec: number) => {
+        let batch: Record<string, unknown>[] = [];
+        const flush = () => {
+          if (batch.length) onUpdate(batch);
+          batch = [];
+        };
+        while (idx < queueBase.length && queueBase[idx].t <= elapsedSec) {
+          const entry = queueBase[idx];
+          if ("update" in entry) {
+            const { t: _t, offset: _offset, ...rest } = entry.update;
+            batch.push(rest);
+          } else {
+            flush();
+            onUpdate(entry.payload);
+          }
           idx += 1;
         }
+        flush();
+      };
 
-        if (batch.length) onUpdate(batch);
+      const unsubscribe = runClock.onAdvance((nowSec) => {
+        deliverUntil(nowSec - passStartSec);
 
-        if (loop && idx >= queue.length) {
-          start = performance.now();
+        if (loop && idx >= queueBase.length) {
+          passStartSec = nowSec;
           idx = 0;
-          queue = queueBase;
         }
-      }, Math.max(50, tickMs / normalizedSpeed));
+      });
 
-      return () => clearInterval(timer);
+      return () => {
+        unsubscribe();
+        if (!clock) runClock.dispose();
+      };
     },
   };
 }
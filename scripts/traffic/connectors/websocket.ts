@@ -0,0 +1,130 @@
+import type {
+  OnTrafficStatus,
+  OnTrafficUpdate,
+  StopTraffic,
+} from "../types.ts";
+import { coerceTrafficPayload } from "../fetch.ts";
+
+export type WebSocketLike = {
+  onopen: ((ev: unknown) => void) | null;
+  onmessage: ((ev: { data: unknown }) => void) | null;
+  onclose: ((ev: unknown) => void) | null;
+  onerror: ((ev: unknown) => void) | null;
+  close: () => void;
+};
+
+export type WebSocketTrafficConnectorOptions = {
+  url: string;
+  createSocket?: (url: string) => WebSocketLike;
+  reconnectDelayMs?: number;
+  reconnectMaxDelayMs?: number;
+};
+
+const defaultCreateSocket = (url: string): WebSocketLike =>
+  new WebSocket(url) as unknown as WebSocketLike;
+
+// WebSocket connector: the collector pushes `TrafficUpdate[]` (or a timeline
+// `{ initial, updates }`) as JSON text frames. Dropped connections are retried
+// with exponential backoff; the delay resets once a socket opens again.
+export function createWebSocketTrafficConnector({
+  url,
+  createSocket = defaultCreateSocket,
+  reconnectDelayMs = 1000,
+  reconnectMaxDelayMs = 30000,
+}: WebSocketTrafficConnectorOptions) {
+  if (!url) throw new Error("url is required");
+  const minDelay = Number.isFinite(reconnectDelayMs) && reconnectDelayMs > 0
+    ? reconnectDelayMs
+    : 1000;
+  const maxDelay = Number.isFinite(reconnectMaxDelayMs) &&
+      reconnectMaxDelayMs >= minDelay
+    ? reconnectMaxDelayMs
+    : Math.max(minDelay, 30000);
+
+  return {
+    kind: "websocket",
+    start(onUpdate: OnTrafficUpdate, onStatus?: OnTrafficStatus): StopTraffic {
+      if (typeof onUpdate !== "function") {
+        throw new Error("onUpdate callback is required");
+      }
+
+      let stopped = false;
+      let socket: WebSocketLike | null = null;
+      let retryTimer: ReturnType<typeof setTimeout> | null = null;
+      let attempt = 0;
+
+      const scheduleReconnect = () => {
+        if (stopped || retryTimer) return;
+        attempt += 1;
+        const retryInMs = Math.min(maxDelay, minDelay * 2 ** (attempt - 1));
+        onStatus?.({ state: "reconnecting", attempt, retryInMs });
+        retryTimer = setTimeout(() => {
+          retryTimer = null;
+          connect();
+        }, retryInMs);
+      };
+
+      const connect = () => {
+        if (stopped) return;
+        onStatus?.({ state: "connecting", attempt });
+
+        let ws: WebSocketLike;
+        try {
+          ws = createSocket(url);
+        } catch (err) {
+          console.error(err);
+          scheduleReconnect();
+          return;
+        }
+        socket = ws;
+
+        ws.onopen = () => {
+          if (stopped || socket !== ws) return;
+          attempt = 0;
+          onStatus?.({ state: "open" });
+        };
+        ws.onmessage = (ev) => {
+          if (stopped || socket !== ws) return;
+          if (typeof ev?.data !== "string") return;
+          let data: unknown;
+          try {
+            data = JSON.parse(ev.data);
+          } catch (err) {
+            console.error(err);
+            return;
+          }
+          const payload = coerceTrafficPayload(data);
+          if (payload) onUpdate(payload);
+        };
+        // Browsers fire `error` followed by `close`; only `close` reconnects.
+        ws.onerror = () => {};
+        ws.onclose = () => {
+          if (stopped || socket !== ws) return;
+          socket = null;
+          scheduleReconnect();
+        };
+      };
+
+      connect();
+
+      return () => {
+        stopped = true;
+        if (retryTimer) clearTimeout(retryTimer);
+        retryTimer = null;
+        const ws = socket;
+        socket = null;
+        if (ws) {
+          ws.onopen = null;
+          ws.onmessage = null;
+          ws.onclose = null;
+          ws.onerror = null;
+          try {
+            ws.close();
+          } catch {
+            // Socket may already be closed.
+          }
+        }
+      };
+    },
+  };
+}
@@ -0,0 +1,90 @@
+import { assertEquals } from "@std/assert";
+import {
+  createWebSocketTrafficConnector,
+  type WebSocketLike,
+} from "./websocket.ts";
+import type { TrafficConnectorStatus } from "../types.ts";
+
+const createFakeSocket = () => {
+  const socket: WebSocketLike & { closed: boolean } = {
+    onopen: null,
+    onmessage: null,
+    onclose: null,
+    onerror: null,
+    closed: false,
+    close() {
+      socket.closed = true;
+    },
+  };
+  return socket;
+};
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+Deno.test("websocket connector: forwards parsed frames and reports status", () => {
+  const sockets: ReturnType<typeof createFakeSocket>[] = [];
+  const connector = createWebSocketTrafficConnector({
+    url: "ws://example.test/",
+    createSocket: () => {
+      const s = createFakeSocket();
+      sockets.push(s);
+      return s;
+    },
+  });
+
+  const payloads: unknown[] = [];
+  const statuses: TrafficConnectorStatus[] = [];
+  const stop = connector.start(
+    (payload) => payloads.push(payload),
+    (status) => statuses.push(status),
+  );
+
+  sockets[0].onopen?.({});
+  sockets[0].onmessage?.({
+    data: JSON.stringify([{ connectionId: "c1", rateMbps: 10 }]),
+  });
+  sockets[0].onmessage?.({ data: "not json" });
+  stop();
+
+  assertEquals(payloads, [[{ connectionId: "c1", rateMbps: 10 }]]);
+  assertEquals(statuses, [
+    { state: "connecting", attempt: 0 },
+    { state: "open" },
+  ]);
+  assertEquals(sockets[0].closed, true);
+});
+
+Deno.test("websocket connector: reconnects with backoff after close", async () => {
+  const sockets: ReturnType<typeof createFakeSocket>[] = [];
+  const connector = createWebSocketTrafficConnector({
+    url: "ws://example.test/",
+    reconnectDelayMs: 1,
+    reconnectMaxDelayMs: 2,
+    createSocket: () => {
+      const s = createFakeSocket();
+      sockets.push(s);
+      return s;
+    },
+  });
+
+  const statuses: TrafficConnectorStatus[] = [];
+  const stop = connector.start(() => {}, (status) => statuses.push(status));
+
+  sockets[0].onclose?.({});
+  await wait(5);
+  sockets[1].onclose?.({});
+  await wait(5);
+  sockets[2].onclose?.({});
+  stop();
+  await wait(5);
+
+  assertEquals(sockets.length, 3);
+  assertEquals(
+    statuses.filter((s) => s.state === "reconnecting"),
+    [
+      { state: "reconnecting", attempt: 1, retryInMs: 1 },
+      { state: "reconnecting", attempt: 2, retryInMs: 2 },
+      { state: "reconnecting", attempt: 3, retryInMs: 2 },
+    ],
+  );
+});
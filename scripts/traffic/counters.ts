@@ -0,0 +1,259 @@
+import type { TrafficUpdate } from "./types.ts";
+import { buildCapacityByConnectionId } from "./capacity.ts";
+import { clamp, isObject } from "./util.ts";
+
+type ConnectionLike = {
+  id?: unknown;
+  from?: { deviceId?: unknown; interfaceId?: unknown; portId?: unknown };
+  to?: { deviceId?: unknown; interfaceId?: unknown; portId?: unknown };
+};
+
+type End = "from" | "to";
+
+// Raw interface counters for one end of a connection. The end is identified
+// either by `connectionId` + `end`, or by `deviceId` + `interfaceId` (matched
+// against both ends of every connection).
+export type CounterSample = {
+  connectionId?: string;
+  end?: End;
+  deviceId?: string;
+  interfaceId?: string;
+  inOctets?: number;
+  outOctets?: number;
+  inPackets?: number;
+  outPackets?: number;
+  counterBits?: 32 | 64;
+  // Device uptime; a decrease means the device restarted.
+  uptimeSec?: number;
+  // Sample time (ms); defaults to the poll time.
+  timestamp?: number;
+};
+
+export type DirectionalRate = {
+  rateMbps: number;
+  utilization: number;
+  packetsPerSec?: number;
+};
+
+export type CounterDerivationOptions = {
+  counterBits: 32 | 64;
+};
+
+export const parseCounterDerivationOptions = (
+  raw: unknown,
+): CounterDerivationOptions => {
+  const rec = isObject(raw) ? raw : {};
+  return { counterBits: rec.counterBits === 32 ? 32 : 64 };
+};
+
+const COUNTER_FIELDS = [
+  "inOctets",
+  "outOctets",
+  "inPackets",
+  "outPackets",
+] as const;
+type CounterField = typeof COUNTER_FIELDS[number];
+
+type EndState = {
+  at: number;
+  uptimeSec?: number;
+  counters: Partial<Record<CounterField, number>>;
+};
+
+type EndRates = Partial<Record<CounterField, number>>;
+
+const endpointKey = (deviceId: string, interfaceId: string) =>
+  `${deviceId}\u0000${interfaceId}`;
+
+const numberOrUndefined = (v: unknown) =>
+  typeof v === "number" && Number.isFinite(v) && v >= 0 ? v : undefined;
+
+// Delta between two readings of a monotonic counter. Going backwards means
+// either a wrap (32-bit counters roll over within minutes on fast links) or a
+// reset by a device restart; 64-bit counters never wrap in practice.
+const counterDelta = (
+  prev: number,
+  next: number,
+  bits: 32 | 64,
+): { delta: number; wrapped: boolean } | null => {
+  if (next >= prev) return { delta: next - prev, wrapped: false };
+  if (bits === 32 && prev < 2 ** 32) {
+    return { delta: next + 2 ** 32 - prev, wrapped: true };
+  }
+  return null;
+};
+
+const round = (v: number, places: number) => {
+  const f = 10 ** places;
+  return Math.round(v * f) / f;
+};
+
+// Turns successive raw counter polls into `TrafficUpdate`s with per-direction
+// rates (`aToB` / `bToA`, where A is the connection's `from` end). The first
+// poll of an interface only records a baseline. A→B traffic is read from the
+// `from` end's out-counters, falling back to the `to` end's in-counters (and
+// the mirror for B→A). `rateMbps`/`utilization` carry the busier direction so
+// non-directional consumers keep working.
+export function createCounterRateDeriver({
+  connections,
+  connectionTypes,
+  options,
+}: {
+  connections: unknown;
+  connectionTypes?: unknown;
+  options?: unknown;
+}) {
+  const { counterBits } = parseCounterDerivationOptions(options);
+  const capacityByConnectionId = buildCapacityByConnectionId(
+    connections,
+    connectionTypes,
+  );
+
+  const connectionIds = new Set<string>();
+  const endByEndpoint = new Map<string, { connectionId: string; end: End }>();
+  (Array.isArray(connections) ? connections as ConnectionLike[] : []).forEach(
+    (c) => {
+      const id = String(c?.id || "").trim();
+      if (!id) return;
+      connectionIds.add(id);
+      (["from", "to"] as const).forEach((end) => {
+        const deviceId = String(c?.[end]?.deviceId || "").trim();
+        const interfaceId = String(
+          c?.[end]?.interfaceId || c?.[end]?.portId || "",
+        ).trim();
+        if (!deviceId || !interfaceId) return;
+        endByEndpoint.set(endpointKey(deviceId, interfaceId), {
+          connectionId: id,
+          end,
+        });
+      });
+    },
+  );
+
+  const resolveEnd = (sample: CounterSample) => {
+    if (sample.connectionId && connectionIds.has(sample.connectionId)) {
+      return {
+        connectionId: sample.connectionId,
+        end: sample.end === "to" ? "to" as const : "from" as const,
+      };
+    }
+    if (sample.deviceId && sample.interfaceId) {
+      return endByEndpoint.get(
+        endpointKey(sample.deviceId, sample.interfaceId),
+      ) ?? null;
+    }
+    return null;
+  };
+
+  const prevByEnd = new Map<string, EndState>();
+
+  const derive = (samples: unknown, at: number): TrafficUpdate[] => {
+    if (!Array.isArray(samples)) return [];
+
+    const ratesByConn = new Map<string, { from?: EndRates; to?: EndRates }>();
+
+    for (const raw of samples) {
+      if (!isObject(raw)) continue;
+      const sample = raw as CounterSample;
+      const resolved = resolveEnd(sample);
+      if (!resolved) continue;
+
+      const key = `${resolved.connectionId}\u0000${resolved.end}`;
+      const next: EndState = {
+        at: numberOrUndefined(sample.timestamp) ?? at,
+        uptimeSec: numberOrUndefined(sample.uptimeSec),
+        counters: {},
+      };
+      COUNTER_FIELDS.forEach((f) => {
+        const v = numberOrUndefined(sample[f]);
+        if (v !== undefined) next.counters[f] = v;
+      });
+
+      const prev = prevByEnd.get(key);
+      prevByEnd.set(key, next);
+      if (!prev) continue;
+
+      const seconds = (next.at - prev.at) / 1000;
+      if (!(seconds > 0)) continue;
+      if (
+        prev.uptimeSec !== undefined && next.uptimeSec !== undefined &&
+        next.uptimeSec < prev.uptimeSec
+      ) {
+        // Device restarted: counters restarted from zero, re-baseline.
+        continue;
+      }
+
+      const bits = sample.counterBits === 32 || sample.counterBits === 64
+        ? sample.counterBits
+        : counterBits;
+      const cap = capacityByConnectionId.get(resolved.connectionId) || null;
+
+      const rates: EndRates = {};
+      for (const f of COUNTER_FIELDS) {
+        const before = prev.counters[f];
+        const after = next.counters[f];
+        if (before === undefined || after === undefined) continue;
+        const d = counterDelta(before, after, bits);
+        if (!d) continue;
+        const perSec = d.delta / seconds;
+        // A "wrap" that implies more than the link can carry was really a
+        // counter reset.
+        if (
+          d.wrapped && cap && f.endsWith("Octets") &&
+          (perSec * 8) / 1e6 > cap * 1.1
+        ) {
+          continue;
+        }
+        rates[f] = perSec;
+      }
+
+      const entry = ratesByConn.get(resolved.connectionId) || {};
+      entry[resolved.end] = rates;
+      ratesByConn.set(resolved.connectionId, entry);
+    }
+
+    const updates: TrafficUpdate[] = [];
+    for (const [connectionId, ends] of ratesByConn) {
+      const cap = capacityByConnectionId.get(connectionId) || null;
+      const direction = (
+        octets: number | undefined,
+        packets: number | undefined,
+      ): DirectionalRate | null => {
+        if (octets === undefined) return null;
+        const rateMbps = (octets * 8) / 1e6;
+        return {
+          rateMbps: round(rateMbps, 1),
+          utilization: cap ? round(clamp(rateMbps / cap, 0, 1), 2) : 0,
+          ...(packets !== undefined
+            ? { packetsPerSec: Math.round(packets) }
+            : {}),
+        };
+      };
+
+      const aToB = direction(
+        ends.from?.outOctets ?? ends.to?.inOctets,
+        ends.from?.outPackets ?? ends.to?.inPackets,
+      );
+      const bToA = direction(
+        ends.from?.inOctets ?? ends.to?.outOctets,
+        ends.from?.inPackets ?? ends.to?.outPackets,
+      );
+      if (!aToB && !bToA) continue;
+
+      updates.push({
+        connectionId,
+        status: "up",
+        rateMbps: Math.max(aToB?.rateMbps ?? 0, bToA?.rateMbps ?? 0),
+        utilization: Math.max(aToB?.utilization ?? 0, bToA?.utilization ?? 0),
+        ...(aToB ? { aToB } : {}),
+        ...(bToA ? { bToA } : {}),
+      });
+    }
+
+    return updates;
+  };
+
+  return { derive };
+}
+
+export type CounterRateDeriver = ReturnType<typeof createCounterRateDeriver>;
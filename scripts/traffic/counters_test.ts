@@ -0,0 +1,70 @@
+import { assertEquals } from "@std/assert";
+import { createCounterRateDeriver } from "./counters.ts";
+
+const connections = [
+  {
+    id: "c1",
+    connectionType: "eth-1g",
+    from: { deviceId: "a", interfaceId: "e1" },
+    to: { deviceId: "b", interfaceId: "e9" },
+  },
+];
+const connectionTypes = { "eth-1g": { capacityMbps: 1000 } };
+
+Deno.test("counters: derives per-direction rates from either end", () => {
+  const deriver = createCounterRateDeriver({ connections, connectionTypes });
+
+  assertEquals(
+    deriver.derive([
+      { connectionId: "c1", end: "from", outOctets: 0, outPackets: 0 },
+      { deviceId: "b", interfaceId: "e9", outOctets: 1_000 },
+    ], 0),
+    [],
+  );
+
+  const updates = deriver.derive([
+    // 250 MB over 10s = 200 Mbps A→B.
+    {
+      connectionId: "c1",
+      end: "from",
+      outOctets: 250_000_000,
+      outPackets: 50_000,
+    },
+    // B→A comes from the `to` end's out-counter: 12.5 MB / 10s = 10 Mbps.
+    { deviceId: "b", interfaceId: "e9", outOctets: 12_501_000 },
+  ], 10_000);
+
+  assertEquals(updates, [{
+    connectionId: "c1",
+    status: "up",
+    rateMbps: 200,
+    utilization: 0.2,
+    aToB: { rateMbps: 200, utilization: 0.2, packetsPerSec: 5000 },
+    bToA: { rateMbps: 10, utilization: 0.01 },
+  }]);
+});
+
+Deno.test("counters: re-baselines after restarts and implausible wraps", () => {
+  const deriver = createCounterRateDeriver({
+    connections,
+    connectionTypes,
+    options: { counterBits: 32 },
+  });
+  const poll = (outOctets: number, uptimeSec: number, at: number) =>
+    deriver.derive(
+      [{ deviceId: "a", interfaceId: "e1", outOctets, uptimeSec }],
+      at,
+    );
+
+  poll(4_000_000_000, 100, 0);
+  // Uptime went backwards: device restarted, no rate.
+  assertEquals(poll(1_000, 5, 1_000), []);
+  // 125 MB in 1s = 1000 Mbps.
+  assertEquals(poll(125_001_000, 6, 2_000)[0].rateMbps, 1000);
+  // Counter dropped while uptime kept growing, but as a wrap it would mean
+  // ~33 Gbps on a 1G link: treated as a reset.
+  assertEquals(poll(10, 7, 3_000), []);
+  // 32-bit wrap that fits the link is accepted: 50 MB in 1s = 400 Mbps.
+  poll(2 ** 32 - 10_000_000, 8, 4_000);
+  assertEquals(poll(40_000_000, 9, 5_000)[0].rateMbps, 400);
+});
@@ -1,4 +1,4 @@
-import type { FetchJson } from "./types.ts";
+import type { FetchJson, FetchText } from "./types.ts";
 import { isObject } from "./util.ts";
 
 export const defaultFetchJson: FetchJson = async (path: string) => {
@@ -7,6 +7,12 @@ export const defaultFetchJson: FetchJson = async (path: string) => {
   return res.json();
 };
 
+export const defaultFetchText: FetchText = async (path: string) => {
+  const res = await fetch(path);
+  if (!res.ok) throw new Error(`Failed to load ${path}`);
+  return res.text();
+};
+
 export const coerceTrafficPayload = (data: unknown): unknown => {
   if (Array.isArray(data)) return data;
   if (isObject(data) && Array.isArray(data.initial)) return data;
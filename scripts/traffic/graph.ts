@@ -1,3 +1,5 @@
+import { connectionCost } from "../lib/graph/cost.ts";
+import { buildShortestPathTree, extractPath } from "../lib/graph/path.ts";
 import { asArray } from "./util.ts";
 
 type ConnectionLike = {
@@ -8,14 +10,24 @@ type ConnectionLike = {
   connection_type?: unknown;
 };
 
-type AdjacencyEdge = { neighborId: string; connectionId: string };
+type AdjacencyEdge = { neighborId: string; connectionId: string; cost: number };
 
-export const buildUndirectedAdjacency = (connections: unknown) => {
+// Edge costs come from `connectionCost`; pass `connectionTypes` so links
+// without an explicit cost/metric are weighted by capacity.
+export const buildUndirectedAdjacency = (
+  connections: unknown,
+  connectionTypes?: unknown,
+) => {
   const adj = new Map<string, AdjacencyEdge[]>();
-  const add = (fromId: string, toId: string, connectionId: string) => {
+  const add = (
+    fromId: string,
+    toId: string,
+    connectionId: string,
+    cost: number,
+  ) => {
     if (!fromId || !toId || !connectionId) return;
     if (!adj.has(fromId)) adj.set(fromId, []);
-    adj.get(fromId)!.push({ neighborId: toId, connectionId });
+    adj.get(fromId)!.push({ neighborId: toId, connectionId, cost });
   };
 
   asArray<ConnectionLike>(connections).forEach((c) => {
@@ -23,8 +35,9 @@ export const buildUndirectedAdjacency = (connections: unknown) => {
     const a = String(c?.from?.deviceId || "").trim();
     const b = String(c?.to?.deviceId || "").trim();
     if (!connectionId || !a || !b) return;
-    add(a, b, connectionId);
-    add(b, a, connectionId);
+    const cost = connectionCost(c, connectionTypes);
+    add(a, b, connectionId, cost);
+    add(b, a, connectionId, cost);
   });
 
   // Deterministic traversal order.
@@ -40,6 +53,23 @@ export const buildUndirectedAdjacency = (connections: unknown) => {
   return adj;
 };
 
+const treeFrom = (
+  adjacency: Map<string, AdjacencyEdge[]>,
+  fromDeviceId: string,
+  toDeviceId: string,
+) =>
+  buildShortestPathTree(
+    (deviceId) =>
+      (adjacency.get(deviceId) || []).map((e) => ({
+        neighbor: e.neighborId,
+        connectionId: e.connectionId,
+        cost: e.cost,
+      })),
+    fromDeviceId,
+    toDeviceId,
+  );
+
+// Lowest-cost path (see `connectionCost`), preferring fewer hops on ties.
 export const findShortestPathConnectionIds = (
   {
     adjacency,
@@ -54,39 +84,87 @@ export const findShortestPathConnectionIds = (
   if (!fromDeviceId || !toDeviceId) return null;
   if (fromDeviceId === toDeviceId) return [];
 
-  const visited = new Set([fromDeviceId]);
-  const prev = new Map<
-    string,
-    { prevDeviceId: string; viaConnectionId: string }
-  >(); // deviceId -> { prevDeviceId, viaConnectionId }
-  const queue = [fromDeviceId];
-
-  while (queue.length) {
-    const cur = queue.shift();
-    if (!cur) break;
-    if (cur === toDeviceId) break;
-
-    const neighbors = adjacency.get(cur) || [];
-    for (const edge of neighbors) {
-      const next = edge.neighborId;
-      if (visited.has(next)) continue;
-      visited.add(next);
-      prev.set(next, { prevDeviceId: cur, viaConnectionId: edge.connectionId });
-      queue.push(next);
+  const tree = treeFrom(adjacency, fromDeviceId, toDeviceId);
+  return extractPath(tree, fromDeviceId, toDeviceId)?.links ?? null;
+};
+
+// All lowest-cost paths between two devices, in deterministic order.
+// Parallel links between the same pair of devices count as distinct paths.
+// Enumeration stops after `maxPaths` to keep dense fabrics bounded.
+export const findEqualCostPathsConnectionIds = (
+  {
+    adjacency,
+    fromDeviceId,
+    toDeviceId,
+    maxPaths = 16,
+  }: {
+    adjacency: Map<string, AdjacencyEdge[]>;
+    fromDeviceId: string;
+    toDeviceId: string;
+    maxPaths?: number;
+  },
+): string[][] => {
+  if (!fromDeviceId || !toDeviceId) return [];
+  if (fromDeviceId === toDeviceId) return [[]];
+
+  const { dist, preds } = treeFrom(adjacency, fromDeviceId, toDeviceId);
+  if (!dist.has(toDeviceId)) return [];
+
+  const paths: string[][] = [];
+  const walk = (deviceId: string, suffix: string[]) => {
+    if (paths.length >= maxPaths) return;
+    if (deviceId === fromDeviceId) {
+      paths.push([...suffix].reverse());
+      return;
     }
-  }
+    for (const p of preds.get(deviceId) || []) {
+      walk(p.prev, [...suffix, p.connectionId]);
+    }
+  };
+  walk(toDeviceId, []);
+
+  return paths.sort((a, b) => a.join("\n").localeCompare(b.join("\n")));
+};
 
-  if (!visited.has(toDeviceId)) return null;
+export type PathHop = { connectionId: string; dir: "aToB" | "bToA" };
 
-  const path: string[] = [];
-  let cur = toDeviceId;
-  while (cur !== fromDeviceId) {
-    const p = prev.get(cur);
-    if (!p) return null;
-    path.push(p.viaConnectionId);
-    cur = p.prevDeviceId;
-  }
+// Annotates a path with the direction each connection is traversed in
+// ("aToB" when walking from the connection's `from` device to its `to`).
+export const orientPathConnectionIds = (
+  {
+    connections,
+    fromDeviceId,
+    pathConnectionIds,
+  }: {
+    connections: unknown;
+    fromDeviceId: string;
+    pathConnectionIds: string[];
+  },
+): PathHop[] | null => {
+  const endsById = new Map<string, { a: string; b: string }>();
+  asArray<ConnectionLike>(connections).forEach((c) => {
+    const id = String(c?.id || "").trim();
+    if (!id) return;
+    endsById.set(id, {
+      a: String(c?.from?.deviceId || "").trim(),
+      b: String(c?.to?.deviceId || "").trim(),
+    });
+  });
 
-  path.reverse();
-  return path;
+  const hops: PathHop[] = [];
+  let cur = fromDeviceId;
+  for (const connectionId of pathConnectionIds) {
+    const ends = endsById.get(connectionId);
+    if (!ends) return null;
+    if (ends.a === cur) {
+      hops.push({ connectionId, dir: "aToB" });
+      cur = ends.b;
+    } else if (ends.b === cur) {
+      hops.push({ connectionId, dir: "bToA" });
+      cur = ends.a;
+    } else {
+      return null;
+    }
+  }
+  return hops;
 };
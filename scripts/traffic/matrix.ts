@@ -0,0 +1,234 @@
+import { asArray, isObject } from "./util.ts";
+
+// Demand in Mbps from each source site to each destination site.
+export type TrafficMatrix = Record<string, Record<string, number>>;
+
+const fail = (msg: string): never => {
+  throw new Error(`traffic matrix: ${msg}`);
+};
+
+// Cells of one CSV line, trimmed. Quoted cells may hold commas and `""` for
+// a quote; quoted line breaks are not supported.
+const splitCsvLine = (line: string): string[] => {
+  const cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i += 1;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"' && !cell.trim()) {
+      // Only an opening quote starts a quoted cell; others are literal.
+      quoted = true;
+    } else if (ch === ",") {
+      cells.push(cell.trim());
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+};
+
+const addDemand = (
+  matrix: TrafficMatrix,
+  fromSite: string,
+  toSite: string,
+  rateMbps: number,
+) => {
+  if (!Number.isFinite(rateMbps) || rateMbps < 0) {
+    fail(`invalid demand ${fromSite} -> ${toSite}`);
+  }
+  matrix[fromSite] = { ...matrix[fromSite], [toSite]: rateMbps };
+};
+
+// Spreadsheet export: the header row names destination sites, each following
+// row starts with its source site. The top-left cell is ignored; empty cells
+// mean no demand and `#` lines are comments. Values may use thousands
+// separators (`"1,000"`).
+//
+//   from\to,hq,branch-1
+//   hq,,40
+//   branch-1,25,
+export const parseTrafficMatrixCsv = (text: string): TrafficMatrix => {
+  const rows = text
+    .replace(/^\uFEFF/, "")
+    .split(/\r?\n/)
+    .map((line, idx) => ({ line: idx + 1, cells: splitCsvLine(line) }))
+    .filter(({ cells }) =>
+      !(cells.length === 1 && !cells[0]) && !cells[0].startsWith("#")
+    );
+  if (!rows.length) fail("CSV is empty");
+
+  const [header, ...body] = rows;
+  const toSites = header.cells.slice(1);
+  if (!toSites.length || toSites.some((s) => !s)) {
+    fail("CSV header must name every destination site");
+  }
+
+  const matrix: TrafficMatrix = {};
+  body.forEach(({ line, cells }) => {
+    const fromSite = cells[0];
+    if (!fromSite) fail(`line ${line}: missing source site`);
+    if (cells.length - 1 > toSites.length) {
+      fail(`line ${line}: more cells than destination sites`);
+    }
+    cells.slice(1).forEach((value, idx) => {
+      if (!value) return;
+      const rate = Number(value.replaceAll(",", ""));
+      if (!Number.isFinite(rate)) fail(`line ${line}: "${value}" is not Mbps`);
+      addDemand(matrix, fromSite, toSites[idx], rate);
+    });
+  });
+  return matrix;
+};
+
+// JSON form: either nested `{ "<from>": { "<to>": mbps } }` or a list of
+// `{ "fromSite", "toSite", "rateMbps" }` rows.
+export const parseTrafficMatrix = (raw: unknown): TrafficMatrix => {
+  const matrix: TrafficMatrix = {};
+  if (Array.isArray(raw)) {
+    raw.forEach((row, idx) => {
+      const rec = isObject(row) ? row : {};
+      const fromSite = String(rec.fromSite ?? "").trim();
+      const toSite = String(rec.toSite ?? "").trim();
+      if (!fromSite || !toSite) fail(`row ${idx + 1}: missing site`);
+      addDemand(matrix, fromSite, toSite, Number(rec.rateMbps));
+    });
+    return matrix;
+  }
+  if (!isObject(raw)) return fail("expected an object or a list of demands");
+
+  Object.entries(raw).forEach(([fromSite, row]) => {
+    if (!isObject(row)) fail(`"${fromSite}" must map sites to Mbps`);
+    Object.entries(row as Record<string, unknown>).forEach(([toSite, rate]) =>
+      addDemand(matrix, fromSite, toSite, Number(rate))
+    );
+  });
+  return matrix;
+};
+
+type DeviceLike = { id?: unknown; site?: unknown };
+type ConnectionLike = {
+  from?: { deviceId?: unknown };
+  to?: { deviceId?: unknown };
+};
+
+// One device stands in for each site: the best-connected one (ties by id),
+// unless `overrides` names it.
+export const pickSiteRepresentatives = (
+  devices: unknown,
+  connections: unknown,
+  overrides: Record<string, string> = {},
+): Map<string, string> => {
+  const degree = new Map<string, number>();
+  asArray<ConnectionLike>(connections).forEach((c) => {
+    [c?.from?.deviceId, c?.to?.deviceId].forEach((id) => {
+      const key = String(id ?? "").trim();
+      if (key) degree.set(key, (degree.get(key) ?? 0) + 1);
+    });
+  });
+
+  const bySite = new Map<string, string>();
+  asArray<DeviceLike>(devices).forEach((d) => {
+    const id = String(d?.id ?? "").trim();
+    const site = String(d?.site ?? "").trim();
+    if (!id || !site) return;
+    const current = bySite.get(site);
+    const better = !current ||
+      (degree.get(id) ?? 0) > (degree.get(current) ?? 0) ||
+      ((degree.get(id) ?? 0) === (degree.get(current) ?? 0) && id < current);
+    if (better) bySite.set(site, id);
+  });
+
+  Object.entries(overrides).forEach(([site, id]) => bySite.set(site, id));
+  return bySite;
+};
+
+// Flow config for the flow connector's `matrix` key:
+// {
+//   "demands": { "branch-1": { "hq": 40 } },   // or "path": "matrix.csv"
+//   "representatives": { "hq": "hq-core-1" },  // optional
+//   "ecmp": "even"                             // optional
+// }
+// Each positive demand between two different sites becomes a flow
+// `matrix:<from>-><to>` between the sites' representative devices.
+export const expandTrafficMatrix = (
+  {
+    config,
+    devices,
+    connections,
+  }: {
+    config: unknown;
+    devices: unknown;
+    connections: unknown;
+  },
+): Array<Record<string, unknown>> => {
+  if (!isObject(config)) return fail("config must be an object");
+  if (!Array.isArray(devices)) return fail("devices are required");
+
+  const matrix = parseTrafficMatrix(config.demands);
+  const overrides = isObject(config.representatives)
+    ? Object.fromEntries(
+      Object.entries(config.representatives).map(([site, id]) => [
+        site,
+        String(id),
+      ]),
+    )
+    : {};
+  const representatives = pickSiteRepresentatives(
+    devices,
+    connections,
+    overrides,
+  );
+  const deviceOf = (site: string) =>
+    representatives.get(site) ?? fail(`no device in site "${site}"`);
+
+  const flows: Array<Record<string, unknown>> = [];
+  Object.entries(matrix).forEach(([fromSite, row]) => {
+    Object.entries(row).forEach(([toSite, rateMbps]) => {
+      if (fromSite === toSite || rateMbps <= 0) return;
+      flows.push({
+        id: `matrix:${fromSite}->${toSite}`,
+        fromDeviceId: deviceOf(fromSite),
+        toDeviceId: deviceOf(toSite),
+        rateMbps,
+        ...(typeof config.ecmp === "string" ? { ecmp: config.ecmp } : {}),
+      });
+    });
+  });
+  return flows;
+};
+
+// Inlines a matrix kept in its own file (`path`, CSV or JSON) into the flow
+// config so the connector only sees `demands`.
+export const resolveTrafficMatrixPath = async (
+  config: unknown,
+  {
+    basePath,
+    loadJson,
+    loadText,
+  }: {
+    basePath: string;
+    loadJson: (path: string) => Promise<unknown>;
+    loadText: (path: string) => Promise<string>;
+  },
+): Promise<unknown> => {
+  if (!isObject(config) || !isObject(config.matrix)) return config;
+  const { path, ...matrix } = config.matrix;
+  if (typeof path !== "string" || !path.trim()) return config;
+
+  const fullPath = `${basePath}/${path.trim()}`;
+  const demands = /\.csv$/i.test(fullPath)
+    ? parseTrafficMatrixCsv(await loadText(fullPath))
+    : await loadJson(fullPath);
+  return { ...config, matrix: { ...matrix, demands } };
+};
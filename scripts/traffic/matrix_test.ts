@@ -0,0 +1,131 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import {
+  expandTrafficMatrix,
+  parseTrafficMatrix,
+  parseTrafficMatrixCsv,
+  pickSiteRepresentatives,
+  resolveTrafficMatrixPath,
+} from "./matrix.ts";
+
+const devices = [
+  { id: "hq-core", site: "hq" },
+  { id: "hq-app", site: "hq" },
+  { id: "b1-rtr", site: "branch-1" },
+  { id: "b1-pos", site: "branch-1" },
+  { id: "b2-rtr", site: "branch-2" },
+];
+const connections = [
+  { id: "c1", from: { deviceId: "hq-core" }, to: { deviceId: "hq-app" } },
+  { id: "c2", from: { deviceId: "hq-core" }, to: { deviceId: "b1-rtr" } },
+  { id: "c3", from: { deviceId: "hq-core" }, to: { deviceId: "b2-rtr" } },
+  { id: "c4", from: { deviceId: "b1-rtr" }, to: { deviceId: "b1-pos" } },
+];
+
+Deno.test("matrix: parses a spreadsheet CSV export", () => {
+  const csv = [
+    "# demand in Mbps",
+    'from\\to,hq,branch-1,"branch-2"',
+    "hq,,40,12.5",
+    "branch-1,25,,",
+    "",
+  ].join("\r\n");
+  assertEquals(parseTrafficMatrixCsv(csv), {
+    hq: { "branch-1": 40, "branch-2": 12.5 },
+    "branch-1": { hq: 25 },
+  });
+
+  assertThrows(() => parseTrafficMatrixCsv("x,hq\nhq,lots"), Error, "line 2");
+  assertThrows(() => parseTrafficMatrixCsv("x,hq\nhq,1,2"), Error, "line 2");
+  assertThrows(() => parseTrafficMatrixCsv(""), Error, "empty");
+});
+
+Deno.test("matrix: keeps commas inside quoted CSV cells", () => {
+  const csv = [
+    // Leading byte order mark, as some spreadsheet apps write it.
+    '\uFEFFfrom\\to,"New York, NY","The ""Lab"""',
+    '"New York, NY",,"1,000"',
+    'The "Lab",2.5,',
+  ].join("\n");
+  assertEquals(parseTrafficMatrixCsv(csv), {
+    "New York, NY": { 'The "Lab"': 1000 },
+    'The "Lab"': { "New York, NY": 2.5 },
+  });
+  assertThrows(
+    () => parseTrafficMatrixCsv('x,hq\nhq,"1,000",3'),
+    Error,
+    "more cells",
+  );
+});
+
+Deno.test("matrix: accepts nested and row JSON", () => {
+  const nested = parseTrafficMatrix({ hq: { "branch-1": 40 } });
+  const rows = parseTrafficMatrix([
+    { fromSite: "hq", toSite: "branch-1", rateMbps: 40 },
+  ]);
+  assertEquals(nested, { hq: { "branch-1": 40 } });
+  assertEquals(rows, nested);
+  assertThrows(() => parseTrafficMatrix({ hq: { "branch-1": -1 } }));
+});
+
+Deno.test("matrix: best-connected device represents each site", () => {
+  const reps = pickSiteRepresentatives(devices, connections);
+  assertEquals(Object.fromEntries(reps), {
+    hq: "hq-core",
+    "branch-1": "b1-rtr",
+    "branch-2": "b2-rtr",
+  });
+  assertEquals(
+    pickSiteRepresentatives(devices, connections, { hq: "hq-app" }).get("hq"),
+    "hq-app",
+  );
+});
+
+Deno.test("matrix: expands demands into flows between representatives", () => {
+  const flows = expandTrafficMatrix({
+    config: {
+      demands: { hq: { hq: 5, "branch-1": 40, "branch-2": 0 } },
+      representatives: { hq: "hq-app" },
+      ecmp: "even",
+    },
+    devices,
+    connections,
+  });
+  assertEquals(flows, [{
+    id: "matrix:hq->branch-1",
+    fromDeviceId: "hq-app",
+    toDeviceId: "b1-rtr",
+    rateMbps: 40,
+    ecmp: "even",
+  }]);
+
+  assertThrows(
+    () =>
+      expandTrafficMatrix({
+        config: { demands: { hq: { lab: 1 } } },
+        devices,
+        connections,
+      }),
+    Error,
+    'no device in site "lab"',
+  );
+});
+
+Deno.test("matrix: inlines a CSV matrix file", async () => {
+  const loaded: string[] = [];
+  const config = await resolveTrafficMatrixPath(
+    { flows: [], matrix: { path: "demand.csv", ecmp: "hash" } },
+    {
+      basePath: "data/networks/branch-hq",
+      loadJson: () => Promise.reject(new Error("unexpected JSON load")),
+      loadText: (path) => {
+        loaded.push(path);
+        return Promise.resolve("from,hq\nbranch-1,10");
+      },
+    },
+  );
+  assertEquals(loaded, ["data/networks/branch-hq/demand.csv"]);
+  assertEquals(config, {
+    flows: [],
+    matrix: { ecmp: "hash", demands: { "branch-1": { hq: 10 } } },
+  });
+});
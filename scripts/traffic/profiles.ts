@@ -0,0 +1,110 @@
+import { isObject } from "./util.ts";
+
+// Shapes a generated link's rate over simulated time. Each profile yields a
+// multiplier; a link with several profiles multiplies them.
+//
+// - `diurnal`: sine between `min` and `max`, highest at `peakAtSeconds` of
+//   every `periodSeconds`
+// - `businessHours`: `high` between `startSeconds` and `endSeconds` of every
+//   `periodSeconds`, `low` otherwise
+// - `burst`: Poisson-arriving spikes (`perMinute` on average) that multiply the
+//   rate by `multiplier` for `durationSeconds`
+//
+// Periods default to a day (86400 s); shrink them to fit a demo.
+export type TrafficProfile =
+  | {
+    kind: "diurnal";
+    periodSeconds: number;
+    peakAtSeconds: number;
+    min: number;
+    max: number;
+  }
+  | {
+    kind: "businessHours";
+    periodSeconds: number;
+    startSeconds: number;
+    endSeconds: number;
+    low: number;
+    high: number;
+  }
+  | {
+    kind: "burst";
+    perMinute: number;
+    durationSeconds: number;
+    multiplier: number;
+  };
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+const num = (v: unknown, fallback: number, min = 0): number =>
+  typeof v === "number" && Number.isFinite(v) && v >= min ? v : fallback;
+
+const parseProfile = (raw: unknown): TrafficProfile | null => {
+  if (!isObject(raw)) return null;
+  if (raw.kind === "diurnal") {
+    const periodSeconds = num(raw.periodSeconds, DAY_SECONDS, 1);
+    return {
+      kind: "diurnal",
+      periodSeconds,
+      peakAtSeconds: num(raw.peakAtSeconds, periodSeconds / 2),
+      min: num(raw.min, 0.3),
+      max: num(raw.max, 1),
+    };
+  }
+  if (raw.kind === "businessHours") {
+    const periodSeconds = num(raw.periodSeconds, DAY_SECONDS, 1);
+    return {
+      kind: "businessHours",
+      periodSeconds,
+      startSeconds: num(raw.startSeconds, periodSeconds * 8 / 24),
+      endSeconds: num(raw.endSeconds, periodSeconds * 18 / 24),
+      low: num(raw.low, 0.2),
+      high: num(raw.high, 1),
+    };
+  }
+  if (raw.kind === "burst") {
+    return {
+      kind: "burst",
+      perMinute: num(raw.perMinute, 1),
+      durationSeconds: num(raw.durationSeconds, 5),
+      multiplier: num(raw.multiplier, 3),
+    };
+  }
+  return null;
+};
+
+// A link's `profile` is one profile or a list; unknown kinds are skipped.
+export const parseTrafficProfiles = (raw: unknown): TrafficProfile[] =>
+  (Array.isArray(raw) ? raw : [raw])
+    .map(parseProfile)
+    .filter((p): p is TrafficProfile => !!p);
+
+const positiveModulo = (v: number, m: number) => ((v % m) + m) % m;
+
+// Returns the combined multiplier at simulated time `t` (seconds), advanced by
+// `dt` since the previous call. Bursts draw from `random`, so calls must come
+// in time order.
+export const createProfileSampler = (
+  profiles: TrafficProfile[],
+  random: () => number,
+) => {
+  const burstUntil = profiles.map(() => -Infinity);
+
+  return (t: number, dt: number): number =>
+    profiles.reduce((m, p, idx) => {
+      if (p.kind === "diurnal") {
+        const phase = (2 * Math.PI * (t - p.peakAtSeconds)) / p.periodSeconds;
+        return m * (p.min + ((p.max - p.min) * (1 + Math.cos(phase))) / 2);
+      }
+      if (p.kind === "businessHours") {
+        const at = positiveModulo(t, p.periodSeconds);
+        const open = at >= p.startSeconds && at < p.endSeconds;
+        return m * (open ? p.high : p.low);
+      }
+      if (t >= burstUntil[idx]) {
+        const chance = 1 - Math.exp(-(p.perMinute / 60) * Math.max(0, dt));
+        if (random() < chance) burstUntil[idx] = t + p.durationSeconds;
+      }
+      return t < burstUntil[idx] ? m * p.multiplier : m;
+    }, 1);
+};
@@ -0,0 +1,63 @@
+import { assertAlmostEquals, assertEquals } from "@std/assert";
+import { createProfileSampler, parseTrafficProfiles } from "./profiles.ts";
+import { createSeededRandom } from "./util.ts";
+
+Deno.test("profiles: diurnal sine peaks at its peak time", () => {
+  const sample = createProfileSampler(
+    parseTrafficProfiles({
+      kind: "diurnal",
+      periodSeconds: 100,
+      peakAtSeconds: 25,
+      min: 0.2,
+    }),
+    Math.random,
+  );
+  assertAlmostEquals(sample(25, 1), 1);
+  assertAlmostEquals(sample(75, 1), 0.2);
+  assertAlmostEquals(sample(50, 1), 0.6);
+});
+
+Deno.test("profiles: business hours step repeats every period", () => {
+  const [profile] = parseTrafficProfiles({
+    kind: "businessHours",
+    periodSeconds: 24,
+    low: 0.1,
+  });
+  // Defaults to 08:00-18:00 of the period.
+  assertEquals(profile, {
+    kind: "businessHours",
+    periodSeconds: 24,
+    startSeconds: 8,
+    endSeconds: 18,
+    low: 0.1,
+    high: 1,
+  });
+  const sample = createProfileSampler([profile], Math.random);
+  assertEquals([7, 8, 17, 18, 32].map((t) => sample(t, 1)), [
+    0.1,
+    1,
+    1,
+    0.1,
+    1,
+  ]);
+});
+
+Deno.test("profiles: bursts are reproducible with a seed and combine", () => {
+  const profiles = parseTrafficProfiles([
+    { kind: "burst", perMinute: 30, durationSeconds: 3, multiplier: 4 },
+    { kind: "businessHours", periodSeconds: 10, startSeconds: 0, low: 0.5 },
+    { kind: "unknown" },
+  ]);
+  assertEquals(profiles.length, 2);
+
+  const run = () => {
+    const sample = createProfileSampler(profiles, createSeededRandom("demo"));
+    return Array.from({ length: 60 }, (_, t) => sample(t, 1));
+  };
+  const series = run();
+  assertEquals(run(), series);
+  // Bursts happen and last for whole durations.
+  assertEquals(series.some((m) => m >= 2), true);
+  assertEquals(new Set(series).size > 1, true);
+  assertEquals(series.every((m) => [0.5, 1, 2, 4].includes(m)), true);
+});
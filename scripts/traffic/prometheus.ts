@@ -0,0 +1,76 @@
+export type PrometheusSample = {
+  name: string;
+  labels: Record<string, string>;
+  value: number;
+};
+
+const unescapeLabelValue = (raw: string) =>
+  raw.replace(/\\(["\\n])/g, (_m, ch: string) => (ch === "n" ? "\n" : ch));
+
+const LABEL_RE = /\s*([a-zA-Z_][a-zA-Z0-9_]*)\s*=\s*"((?:[^"\\]|\\.)*)"\s*,?/y;
+
+const parseLabels = (body: string): Record<string, string> | null => {
+  const labels: Record<string, string> = {};
+  LABEL_RE.lastIndex = 0;
+  while (LABEL_RE.lastIndex < body.length) {
+    const m = LABEL_RE.exec(body);
+    if (!m) return body.slice(LABEL_RE.lastIndex).trim() ? null : labels;
+    labels[m[1]] = unescapeLabelValue(m[2]);
+  }
+  return labels;
+};
+
+const parseValue = (raw: string): number => {
+  if (raw === "+Inf") return Infinity;
+  if (raw === "-Inf") return -Infinity;
+  return Number(raw);
+};
+
+// Index of the `}` closing the label set, honoring quoted values.
+const findLabelsEnd = (s: string): number => {
+  let inQuotes = false;
+  for (let i = 1; i < s.length; i++) {
+    const ch = s[i];
+    if (inQuotes) {
+      if (ch === "\\") i++;
+      else if (ch === '"') inQuotes = false;
+    } else if (ch === '"') inQuotes = true;
+    else if (ch === "}") return i;
+  }
+  return -1;
+};
+
+// Parses the Prometheus text exposition format into flat samples. Comments
+// (`# HELP`, `# TYPE`) and malformed lines are skipped; timestamps are ignored.
+export const parsePrometheusText = (text: string): PrometheusSample[] => {
+  const samples: PrometheusSample[] = [];
+
+  for (const rawLine of text.split("\n")) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#")) continue;
+
+    const nameMatch = /^([a-zA-Z_:][a-zA-Z0-9_:]*)/.exec(line);
+    if (!nameMatch) continue;
+    const name = nameMatch[1];
+    let rest = line.slice(name.length);
+
+    let labels: Record<string, string> = {};
+    if (rest.startsWith("{")) {
+      const close = findLabelsEnd(rest);
+      if (close < 0) continue;
+      const parsed = parseLabels(rest.slice(1, close));
+      if (!parsed) continue;
+      labels = parsed;
+      rest = rest.slice(close + 1);
+    }
+
+    const [valueRaw] = rest.trim().split(/\s+/);
+    if (!valueRaw) continue;
+    const value = parseValue(valueRaw);
+    if (Number.isNaN(value)) continue;
+
+    samples.push({ name, labels, value });
+  }
+
+  return samples;
+};
@@ -0,0 +1,86 @@
+import type { DeviceStatusUpdate, TrafficUpdate } from "../domain/types.ts";
+import { isObject } from "./util.ts";
+
+export const TRAFFIC_RECORDING_FORMAT = "traffic-recording";
+
+// A payload as the connector delivered it, `t` seconds into the recording.
+export type RecordedPayload = { t: number; payload: unknown };
+
+// Captured traffic, stored as a timeline: `initial` is the traffic known when
+// recording started and `payloads` replay verbatim. `updates` stays empty so
+// the file also works as a plain `timeline` traffic source.
+export type TrafficRecording = {
+  format: typeof TRAFFIC_RECORDING_FORMAT;
+  version: 1;
+  recordedAt: string;
+  source: string;
+  initial: TrafficUpdate[];
+  updates: [];
+  payloads: RecordedPayload[];
+};
+
+export const recordingDurationSec = (recording: TrafficRecording): number =>
+  recording.payloads.reduce((max, p) => Math.max(max, p.t), 0);
+
+// Device status known at the start is replayed as a first payload.
+export const createTrafficRecorder = (
+  {
+    now,
+    source,
+    traffic,
+    devices,
+  }: {
+    now: () => number;
+    source: string;
+    traffic: TrafficUpdate[];
+    devices: DeviceStatusUpdate[];
+  },
+) => {
+  const startedAt = now();
+  const payloads: RecordedPayload[] = devices.length
+    ? [{ t: 0, payload: { devices } }]
+    : [];
+
+  return {
+    record: (payload: unknown) => {
+      payloads.push({
+        t: Math.round(now() - startedAt) / 1000,
+        payload: structuredClone(payload),
+      });
+    },
+    finish: (): TrafficRecording => ({
+      format: TRAFFIC_RECORDING_FORMAT,
+      version: 1,
+      recordedAt: new Date(startedAt).toISOString(),
+      source,
+      initial: traffic.map((t) => ({ ...t })),
+      updates: [],
+      payloads: [...payloads],
+    }),
+  };
+};
+
+export const parseTrafficRecording = (raw: unknown): TrafficRecording => {
+  if (!isObject(raw) || raw.format !== TRAFFIC_RECORDING_FORMAT) {
+    throw new Error("not a traffic recording");
+  }
+  if (!Array.isArray(raw.payloads)) {
+    throw new Error("traffic recording has no payloads");
+  }
+  const payloads = raw.payloads.map((p, idx) => {
+    if (!isObject(p) || typeof p.t !== "number" || !(p.t >= 0)) {
+      throw new Error(`traffic recording payloads[${idx}] needs a time "t"`);
+    }
+    return { t: p.t, payload: p.payload };
+  }).sort((a, b) => a.t - b.t);
+
+  return {
+    format: TRAFFIC_RECORDING_FORMAT,
+    version: 1,
+    recordedAt: typeof raw.recordedAt === "string" ? raw.recordedAt : "",
+    source: typeof raw.source === "string" ? raw.source : "",
+    initial: Array.isArray(raw.initial) ? raw.initial as TrafficUpdate[] : [],
+    updates: [],
+    payloads,
+  };
+};
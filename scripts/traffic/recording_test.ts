@@ -0,0 +1,93 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import {
+  createTrafficRecorder,
+  parseTrafficRecording,
+  recordingDurationSec,
+} from "./recording.ts";
+import { createTimelineTrafficConnector } from "./connectors/timeline.ts";
+import { createSimulationClock } from "./clock.ts";
+
+Deno.test("recording: captures payloads with their offset from the start", () => {
+  let at = 10_000;
+  const recorder = createTrafficRecorder({
+    now: () => at,
+    source: "real",
+    traffic: [{ connectionId: "c1", utilization: 0.1 }],
+    devices: [{ deviceId: "core", status: "up" }],
+  });
+  const payload = [{ connectionId: "c1", utilization: 0.4 }];
+  at += 1500;
+  recorder.record(payload);
+  payload[0].utilization = 0.9;
+  at += 250;
+  recorder.record({ devices: [{ deviceId: "core", status: "down" }] });
+
+  const recording = recorder.finish();
+  assertEquals(recording.source, "real");
+  assertEquals(recording.recordedAt, new Date(10_000).toISOString());
+  assertEquals(recording.initial, [{ connectionId: "c1", utilization: 0.1 }]);
+  assertEquals(recording.payloads, [
+    { t: 0, payload: { devices: [{ deviceId: "core", status: "up" }] } },
+    { t: 1.5, payload: [{ connectionId: "c1", utilization: 0.4 }] },
+    { t: 1.75, payload: { devices: [{ deviceId: "core", status: "down" }] } },
+  ]);
+  assertEquals(recordingDurationSec(recording), 1.75);
+});
+
+Deno.test("recording: parse round-trips and rejects other files", () => {
+  const recorder = createTrafficRecorder({
+    now: () => 0,
+    source: "flow",
+    traffic: [],
+    devices: [],
+  });
+  recorder.record([{ connectionId: "c1", rateMbps: 5 }]);
+  const recording = recorder.finish();
+
+  assertEquals(
+    parseTrafficRecording(JSON.parse(JSON.stringify(recording))),
+    recording,
+  );
+  assertThrows(
+    () => parseTrafficRecording({ initial: [], updates: [] }),
+    Error,
+    "not a traffic recording",
+  );
+  assertThrows(
+    () =>
+      parseTrafficRecording({
+        format: "traffic-recording",
+        payloads: [{ payload: [] }],
+      }),
+    Error,
+    'payloads[0] needs a time "t"',
+  );
+});
+
+Deno.test("recording: timeline connector plays payloads on the clock", () => {
+  const recording = parseTrafficRecording({
+    format: "traffic-recording",
+    initial: [{ connectionId: "c1", utilization: 0.1 }],
+    payloads: [
+      { t: 1, payload: [{ connectionId: "c1", utilization: 0.2 }] },
+      { t: 2, payload: { devices: [{ deviceId: "core", status: "down" }] } },
+      { t: 30, payload: [{ connectionId: "c1", utilization: 0.3 }] },
+    ],
+  });
+  const clock = createSimulationClock({ paused: true });
+  const delivered: unknown[] = [];
+  const connector = createTimelineTrafficConnector({
+    timeline: recording,
+    clock,
+  });
+  const stop = connector.start((payload) => delivered.push(payload));
+  clock.seek(2);
+  stop();
+
+  assertEquals(connector.playback, { durationSec: 30 });
+  assertEquals(delivered, [
+    { initial: [{ connectionId: "c1", utilization: 0.1 }], updates: [] },
+    [{ connectionId: "c1", utilization: 0.2 }],
+    { devices: [{ deviceId: "core", status: "down" }] },
+  ]);
+});
@@ -1,10 +1,24 @@
-import type { OnTrafficUpdate, StopTraffic } from "./types.ts";
+import type {
+  FetchText,
+  OnTrafficStatus,
+  OnTrafficUpdate,
+  SimulatedFailures,
+  StopTraffic,
+} from "./types.ts";
 import { isObject } from "./util.ts";
+import { defaultFetchText } from "./fetch.ts";
+import { createCounterRateDeriver } from "./counters.ts";
+import type { SimulationClock } from "./clock.ts";
+import { createCompositeTrafficConnector } from "./connectors/composite.ts";
 import { createFlowTrafficConnector } from "./connectors/flow.ts";
 import { createGeneratedTrafficConnector } from "./connectors/generated.ts";
+import { createPrometheusTrafficConnector } from "./connectors/prometheus.ts";
 import { createRealTrafficConnector } from "./connectors/real.ts";
+import { createSseTrafficConnector } from "./connectors/sse.ts";
 import { createStaticTrafficConnector } from "./connectors/static.ts";
 import { createTimelineTrafficConnector } from "./connectors/timeline.ts";
+import { createWebSocketTrafficConnector } from "./connectors/websocket.ts";
+import { resolveTrafficMatrixPath } from "./matrix.ts";
 
 type LoadJson = (path: string) => Promise<unknown>;
 
@@ -13,7 +27,11 @@ export type TrafficConnectorKind =
   | "generated"
   | "static"
   | "real"
-  | "timeline";
+  | "timeline"
+  | "websocket"
+  | "sse"
+  | "prometheus"
+  | "composite";
 
 export const TRAFFIC_CONNECTOR_OPTIONS: Array<{ id: string; name: string }> = [
   { id: "default", name: "Source: Default" },
@@ -22,18 +40,38 @@ export const TRAFFIC_CONNECTOR_OPTIONS: Array<{ id: string; name: string }> = [
   { id: "static", name: "Source: Static" },
   { id: "real", name: "Source: Real (poll)" },
   { id: "timeline", name: "Source: Timeline" },
+  { id: "websocket", name: "Source: WebSocket (push)" },
+  { id: "sse", name: "Source: Server-Sent Events (push)" },
+  { id: "prometheus", name: "Source: Prometheus (poll)" },
+  // No "composite": it needs its members from `traffic.connector.json`, so it
+  // only runs as a network's Default source.
 ];
 
 export type TrafficConnectorSpec = {
   kind: TrafficConnectorKind;
   configPath?: string;
   url?: string;
+  eventName?: string;
   intervalMs?: number;
+  reconnectDelayMs?: number;
+  reconnectMaxDelayMs?: number;
+  prometheus?: Record<string, unknown>;
+  counters?: Record<string, unknown>;
+  // Composite source: member specs, merged by `connectionId`. `precedence`
+  // lists member ids (a member's `id`, else its kind), highest first.
+  connectors?: TrafficConnectorSpec[];
+  precedence?: string[];
+  // Composite member: name in `precedence` and the links it may report.
+  id?: string;
+  connectionIds?: string[];
 };
 
 export type TrafficConnector = {
   kind: string;
-  start: (onUpdate: OnTrafficUpdate) => StopTraffic;
+  // Set by connectors that run on the simulation clock: how long their
+  // scripted part lasts (null when open-ended).
+  playback?: { durationSec: number | null };
+  start: (onUpdate: OnTrafficUpdate, onStatus?: OnTrafficStatus) => StopTraffic;
 };
 
 export const parseTrafficConnectorSpec = (
@@ -47,7 +85,11 @@ export const parseTrafficConnectorSpec = (
     kind !== "generated" &&
     kind !== "static" &&
     kind !== "real" &&
-    kind !== "timeline"
+    kind !== "timeline" &&
+    kind !== "websocket" &&
+    kind !== "sse" &&
+    kind !== "prometheus" &&
+    kind !== "composite"
   ) {
     return null;
   }
@@ -56,11 +98,58 @@ export const parseTrafficConnectorSpec = (
     ? connector.configPath
     : undefined;
   const url = typeof connector.url === "string" ? connector.url : undefined;
+  const eventName = typeof connector.eventName === "string"
+    ? connector.eventName
+    : undefined;
   const intervalMs = typeof connector.intervalMs === "number"
     ? connector.intervalMs
     : undefined;
+  const reconnectDelayMs = typeof connector.reconnectDelayMs === "number"
+    ? connector.reconnectDelayMs
+    : undefined;
+  const reconnectMaxDelayMs = typeof connector.reconnectMaxDelayMs === "number"
+    ? connector.reconnectMaxDelayMs
+    : undefined;
+  const prometheus = isObject(connector.prometheus)
+    ? connector.prometheus
+    : undefined;
+  const counters = connector.counters === true
+    ? {}
+    : isObject(connector.counters)
+    ? connector.counters
+    : undefined;
+  const stringList = (v: unknown) =>
+    Array.isArray(v) ? v.filter((x): x is string => typeof x === "string") : [];
+  // Members cannot nest another composite.
+  const connectors = kind === "composite" && Array.isArray(connector.connectors)
+    ? connector.connectors
+      .map(parseTrafficConnectorSpec)
+      .filter((m): m is TrafficConnectorSpec =>
+        m != null && m.kind !== "composite"
+      )
+    : undefined;
+  const precedence = kind === "composite"
+    ? stringList(connector.precedence)
+    : undefined;
+  const id = typeof connector.id === "string" ? connector.id : undefined;
+  const connectionIds = Array.isArray(connector.connectionIds)
+    ? stringList(connector.connectionIds)
+    : undefined;
 
-  return { kind, configPath, url, intervalMs };
+  return {
+    kind,
+    configPath,
+    url,
+    eventName,
+    intervalMs,
+    reconnectDelayMs,
+    reconnectMaxDelayMs,
+    prometheus,
+    counters,
+    ...(connectors ? { connectors, precedence } : {}),
+    ...(id ? { id } : {}),
+    ...(connectionIds ? { connectionIds } : {}),
+  };
 };
 
 const resolveInNetwork = (basePath: string, configPath: string) =>
@@ -71,36 +160,75 @@ const normalizeSpeedMultiplier = (value: number): number => {
   return Math.max(0.1, Math.min(64, value));
 };
 
+type CreateTrafficConnectorArgs = {
+  basePath: string;
+  trafficPath: string;
+  loadJson: LoadJson;
+  // Only needed for CSV traffic matrices.
+  loadText?: FetchText;
+  speedMultiplier?: number;
+  // Playback clock for the timeline, flow and generated connectors.
+  clock?: SimulationClock;
+  // What-if failures; only the flow connector routes around them.
+  simulatedFailures?: SimulatedFailures;
+};
+
 export async function createTrafficConnector(
   spec: TrafficConnectorSpec | null,
-  {
+  args: CreateTrafficConnectorArgs,
+): Promise<TrafficConnector> {
+  const {
     basePath,
     trafficPath,
     loadJson,
+    loadText = defaultFetchText,
     speedMultiplier = 1,
-  }: {
-    basePath: string;
-    trafficPath: string;
-    loadJson: LoadJson;
-    speedMultiplier?: number;
-  },
-): Promise<TrafficConnector> {
+    clock,
+    simulatedFailures,
+  } = args;
   const normalizedSpeedMultiplier = normalizeSpeedMultiplier(speedMultiplier);
 
+  if (spec?.kind === "composite") {
+    if (!spec.connectors?.length) {
+      throw new Error("composite connector requires connectors");
+    }
+    const members = await Promise.all(
+      spec.connectors.map(async (member) => ({
+        id: member.id ?? member.kind,
+        connector: await createTrafficConnector(member, args),
+        connectionIds: member.connectionIds,
+      })),
+    );
+    return createCompositeTrafficConnector({
+      members,
+      precedence: spec.precedence,
+    });
+  }
+
   if (spec?.kind === "flow") {
     const configPath = spec.configPath || "traffic.flow.json";
-    const config = await loadJson(resolveInNetwork(basePath, configPath));
+    const config = await resolveTrafficMatrixPath(
+      await loadJson(resolveInNetwork(basePath, configPath)),
+      { basePath, loadJson, loadText },
+    );
 
     const connections = await loadJson(
       resolveInNetwork(basePath, "connections.json"),
     );
     const connectionTypes = await loadJson("data/connectionTypes.json");
+    // Sites of a traffic matrix map onto devices.
+    const devices = isObject(config) && config.matrix != null
+      ? await loadJson(resolveInNetwork(basePath, "devices.json"))
+      : undefined;
 
     return createFlowTrafficConnector({
       config,
       connections,
       connectionTypes,
+      devices,
       speedMultiplier: normalizedSpeedMultiplier,
+      clock,
+      failures: simulatedFailures,
     });
   }
 
@@ -110,6 +238,7 @@ export async function createTrafficConnector(
     return createGeneratedTrafficConnector({
       config,
       speedMultiplier: normalizedSpeedMultiplier,
+      clock,
     });
   }
 
@@ -124,10 +253,63 @@ export async function createTrafficConnector(
     const intervalMs = typeof spec.intervalMs === "number"
       ? spec.intervalMs
       : 5000;
+    const counterDeriver = spec.counters
+      ? createCounterRateDeriver({
+        connections: await loadJson(
+          resolveInNetwork(basePath, "connections.json"),
+        ),
+        connectionTypes: await loadJson("data/connectionTypes.json"),
+        options: spec.counters,
+      })
+      : undefined;
     return createRealTrafficConnector({
       url,
       intervalMs,
       speedMultiplier: normalizedSpeedMultiplier,
+      counterDeriver,
+    });
+  }
+
+  if (spec?.kind === "prometheus") {
+    if (!spec.url) {
+      throw new Error("prometheus connector requires a url");
+    }
+    const connections = await loadJson(
+      resolveInNetwork(basePath, "connections.json"),
+    );
+    const connectionTypes = await loadJson("data/connectionTypes.json");
+    return createPrometheusTrafficConnector({
+      url: spec.url,
+      connections,
+      connectionTypes,
+      mapping: spec.prometheus,
+      intervalMs: typeof spec.intervalMs === "number"
+        ? spec.intervalMs
+        : undefined,
+      speedMultiplier: normalizedSpeedMultiplier,
+    });
+  }
+
+  if (spec?.kind === "websocket") {
+    if (!spec.url) {
+      throw new Error("websocket connector requires a url");
+    }
+    return createWebSocketTrafficConnector({
+      url: spec.url,
+      reconnectDelayMs: spec.reconnectDelayMs,
+      reconnectMaxDelayMs: spec.reconnectMaxDelayMs,
+    });
+  }
+
+  if (spec?.kind === "sse") {
+    if (!spec.url) {
+      throw new Error("sse connector requires a url");
+    }
+    return createSseTrafficConnector({
+      url: spec.url,
+      eventName: spec.eventName,
+      reconnectDelayMs: spec.reconnectDelayMs,
+      reconnectMaxDelayMs: spec.reconnectMaxDelayMs,
     });
   }
 
@@ -137,6 +319,7 @@ export async function createTrafficConnector(
     return createTimelineTrafficConnector({
       timeline,
       speedMultiplier: normalizedSpeedMultiplier,
+      clock,
     });
   }
 
@@ -146,8 +329,9 @@ export async function createTrafficConnector(
     const tl = createTimelineTrafficConnector({
       timeline: source,
       speedMultiplier: normalizedSpeedMultiplier,
+      clock,
     });
-    return { kind: "default", start: tl.start };
+    return { kind: "default", playback: tl.playback, start: tl.start };
   }
 
   const real = createRealTrafficConnector({
@@ -1,6 +1,6 @@
-import type { TrafficUpdate } from "../domain/types.ts";
+import type { DeviceStatusUpdate, TrafficUpdate } from "../domain/types.ts";
 
-export type { TrafficUpdate };
+export type { DeviceStatusUpdate, TrafficUpdate };
 
 export type TrafficTimeline = {
   initial?: TrafficUpdate[];
@@ -11,4 +11,20 @@ export type TrafficPayload = unknown;
 export type OnTrafficUpdate = (payload: TrafficPayload) => void;
 export type StopTraffic = () => void;
 
+// Connection lifecycle for push-based connectors (polling/simulated
+// connectors never report status).
+export type TrafficConnectorStatus =
+  | { state: "connecting"; attempt: number }
+  | { state: "open" }
+  | { state: "reconnecting"; attempt: number; retryInMs: number };
+export type OnTrafficStatus = (status: TrafficConnectorStatus) => void;
+
+// Devices and links to treat as failed for the whole run (what-if mode), on
+// top of any failures the source itself reports.
+export type SimulatedFailures = {
+  deviceIds?: Iterable<string>;
+  connectionIds?: Iterable<string>;
+};
+
 export type FetchJson = (path: string) => Promise<unknown>;
+export type FetchText = (path: string) => Promise<string>;
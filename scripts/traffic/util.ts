@@ -7,3 +7,26 @@ export const isObject = (v: unknown): v is Record<string, unknown> =>
 export const asArray = <T>(
   v: unknown,
 ): T[] => (Array.isArray(v) ? (v as T[]) : []);
+
+// FNV-1a.
+export const hashString = (s: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+// Reproducible stand-in for `Math.random` (mulberry32); string seeds are
+// hashed first.
+export const createSeededRandom = (seed: number | string): () => number => {
+  let a = typeof seed === "number" ? seed >>> 0 : hashString(seed);
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
@@ -1,15 +1,53 @@
 export type {
   FetchJson,
+  FetchText,
+  OnTrafficStatus,
   OnTrafficUpdate,
   StopTraffic,
+  TrafficConnectorStatus,
   TrafficPayload,
   TrafficTimeline,
   TrafficUpdate,
 } from "./traffic/types.ts";
 
+export type {
+  CounterDerivationOptions,
+  CounterRateDeriver,
+  CounterSample,
+  DirectionalRate,
+} from "./traffic/counters.ts";
+export {
+  createCounterRateDeriver,
+  parseCounterDerivationOptions,
+} from "./traffic/counters.ts";
+
 export type { RealTrafficConnectorOptions } from "./traffic/connectors/real.ts";
 export { createRealTrafficConnector } from "./traffic/connectors/real.ts";
 
+export type {
+  PrometheusMapping,
+  PrometheusTrafficConnectorOptions,
+} from "./traffic/connectors/prometheus.ts";
+export {
+  createPrometheusTrafficConnector,
+  parsePrometheusMapping,
+} from "./traffic/connectors/prometheus.ts";
+export type { PrometheusSample } from "./traffic/prometheus.ts";
+export { parsePrometheusText } from "./traffic/prometheus.ts";
+
+export type {
+  WebSocketLike,
+  WebSocketTrafficConnectorOptions,
+} from "./traffic/connectors/websocket.ts";
+export { createWebSocketTrafficConnector } from "./traffic/connectors/websocket.ts";
+
+export type {
+  EventSourceLike,
+  EventSourceMessageLike,
+  SseTrafficConnectorOptions,
+} from "./traffic/connectors/sse.ts";
+export { createSseTrafficConnector } from "./traffic/connectors/sse.ts";
+
 export type { StaticTrafficConnectorOptions } from "./traffic/connectors/static.ts";
 export { createStaticTrafficConnector } from "./traffic/connectors/static.ts";
 
@@ -19,3 +57,9 @@ export { createTimelineTrafficConnector } from "./traffic/connectors/timeline.ts
 export { createGeneratedTrafficConnector } from "./traffic/connectors/generated.ts";
 
 export { createFlowTrafficConnector } from "./traffic/connectors/flow.ts";
+
+export type {
+  CompositeTrafficConnectorOptions,
+  CompositeTrafficMember,
+} from "./traffic/connectors/composite.ts";
+export { createCompositeTrafficConnector } from "./traffic/connectors/composite.ts";
@@ -6,6 +6,7 @@ import type {
   TrafficVizHelpers,
 } from "./types.ts";
 import { GRAPH_COLORS, TRAFFIC_STYLE } from "../config.ts";
+import { peakRateMbps, peakUtilization } from "../domain/traffic.ts";
 
 export function createClassicTrafficVisualization(
   { trafficColor, trafficWidthRate }: TrafficVizHelpers = {},
@@ -14,14 +15,14 @@ export function createClassicTrafficVisualization(
     id: "classic",
     getLinkStroke({ traffic, highlighted, defaultStroke }: LinkStrokeArgs) {
       if (traffic) {
-        return trafficColor?.(traffic.status, traffic.utilization) ||
+        return trafficColor?.(traffic.status, peakUtilization(traffic)) ||
           defaultStroke;
       }
       return highlighted ? GRAPH_COLORS.highlight : defaultStroke;
     },
     getLinkWidth({ traffic, highlighted, defaultWidth }: LinkWidthArgs) {
       const base = traffic
-        ? (trafficWidthRate?.(traffic.rateMbps) ?? defaultWidth)
+        ? (trafficWidthRate?.(peakRateMbps(traffic)) ?? defaultWidth)
         : defaultWidth;
       return highlighted
         ? Math.max(base, TRAFFIC_STYLE.highlightMinWidth)
@@ -31,6 +32,9 @@ export function createClassicTrafficVisualization(
       if (traffic?.status === TRAFFIC_STYLE.downStatus) {
         return TRAFFIC_STYLE.dash.down;
       }
+      if (traffic?.status === TRAFFIC_STYLE.blackholedStatus) {
+        return TRAFFIC_STYLE.dash.blackholed;
+      }
       return TRAFFIC_STYLE.dash.none;
     },
     start() {
@@ -2,7 +2,6 @@ import type { TrafficUpdate } from "../domain/types.ts";
 import { GRAPH_COLORS, GRAPH_DEFAULTS, TRAFFIC_STYLE } from "../config.ts";
 import { getD3 } from "../lib/d3.ts";
 import type {
-  GraphLinkDatum,
   LinkDasharrayArgs,
   LinkStrokeArgs,
   LinkWidthArgs,
@@ -11,46 +10,18 @@ import type {
   TrafficVizHelpers,
   TrafficVizStartArgs,
 } from "./types.ts";
+import {
+  buildFanoutOffsetsByEndpoint,
+  buildLanes,
+  createLanePositioner,
+  isSplit,
+  type Lane,
+  laneTraffic,
+} from "./lanes.ts";
 
 const clamp = (v: number, min: number, max: number) =>
   Math.max(min, Math.min(max, v));
 
-const getEndId = (end: string | { id: string }): string =>
-  typeof end === "string" ? end : end.id;
-
-const buildFanoutOffsetsByEndpoint = (links: GraphLinkDatum[]) => {
-  const byNode = new Map<string, GraphLinkDatum[]>();
-  const add = (nodeId: string, link: GraphLinkDatum) => {
-    const arr = byNode.get(nodeId);
-    if (arr) arr.push(link);
-    else byNode.set(nodeId, [link]);
-  };
-
-  links.forEach((link) => {
-    add(getEndId(link.source), link);
-    add(getEndId(link.target), link);
-  });
-
-  const out = new Map<string, number>();
-  for (const [nodeId, nodeLinks] of byNode.entries()) {
-    const sorted = [...nodeLinks].sort((a, b) => {
-      const aOther = getEndId(a.source) === nodeId
-        ? getEndId(a.target)
-        : getEndId(a.source);
-      const bOther = getEndId(b.source) === nodeId
-        ? getEndId(b.target)
-        : getEndId(b.source);
-      return `${aOther}\n${a.id}`.localeCompare(`${bOther}\n${b.id}`);
-    });
-
-    const mid = (sorted.length - 1) / 2;
-    sorted.forEach((link, idx) => {
-      out.set(`${link.id}|${nodeId}`, idx - mid);
-    });
-  }
-  return out;
-};
-
 const speedFromRate = (rateMbps: unknown) => {
   const r = Math.max(0, Number(rateMbps) || 0);
   // Map 0..10G to a reasonable px/sec-ish range for dash offset.
@@ -83,16 +54,17 @@ export function createFlowDashesTrafficVisualization(
     lastNow = now;
 
     overlay
-      .attr("stroke-dashoffset", (d: GraphLinkDatum) => {
-        const t = getTraffic?.(d.id);
+      .attr("stroke-dashoffset", (d: Lane) => {
+        const lane = laneTraffic(getTraffic?.(d.link.id), d.dir);
         const speedMultiplier = Math.max(
           0.05,
           Number(flowSpeedMultiplier?.() ?? 1) || 1,
         );
-        const speed = speedFromRate(t?.rateMbps) * speedMultiplier;
+        const speed = speedFromRate(lane?.rateMbps) * speedMultiplier;
         const prev = offsetById.get(d.id) ?? 0;
-        // negative makes it look like it moves forward; direction is arbitrary without A->B metrics
-        const next = prev - dt * speed;
+        // Lines run source (A) -> target (B): a decreasing offset moves the
+        // dashes toward B.
+        const next = d.dir === "aToB" ? prev - dt * speed : prev + dt * speed;
         offsetById.set(d.id, next);
         return next;
       });
@@ -100,6 +72,18 @@ export function createFlowDashesTrafficVisualization(
     rafId = requestAnimationFrame(animate);
   };
 
+  const positionLanes = () => {
+    if (!overlay || !linkSelection) return;
+    const lanePos = createLanePositioner(fanoutByEndpoint, getTraffic);
+
+    // Keep overlay in sync with base link positions.
+    overlay
+      .attr("x1", (d: Lane) => lanePos(d).x1)
+      .attr("y1", (d: Lane) => lanePos(d).y1)
+      .attr("x2", (d: Lane) => lanePos(d).x2)
+      .attr("y2", (d: Lane) => lanePos(d).y2);
+  };
+
   return {
     id: "flow-dashes",
 
@@ -135,11 +119,12 @@ export function createFlowDashesTrafficVisualization(
       const c = container as any;
 
       fanoutByEndpoint = buildFanoutOffsetsByEndpoint(links);
+      const lanes = buildLanes(links);
 
       overlay = c.append("g")
         .attr("pointer-events", "none")
         .selectAll("line")
-        .data(links, (d: GraphLinkDatum) => d.id)
+        .data(lanes, (d: Lane) => d.id)
         .join("line")
         .attr("stroke-linecap", "round")
         .attr("stroke-opacity", 0.9);
@@ -165,46 +150,7 @@ export function createFlowDashesTrafficVisualization(
     },
 
     onSimulationTick() {
-      if (!overlay || !linkSelection) return;
-      const cache = new Map<
-        string,
-        { x1: number; y1: number; x2: number; y2: number }
-      >();
-      const linkPos = (d: GraphLinkDatum) => {
-        const hit = cache.get(d.id);
-        if (hit) return hit;
-
-        const source = d.source;
-        const target = d.target;
-        const dx = (target.x ?? 0) - (source.x ?? 0);
-        const dy = (target.y ?? 0) - (source.y ?? 0);
-        const length = Math.max(1e-6, Math.hypot(dx, dy));
-        const nx = -dy / length;
-        const ny = dx / length;
-
-        const sourceOffset =
-          (fanoutByEndpoint.get(`${d.id}|${source.id}`) ?? 0) *
-          GRAPH_DEFAULTS.link.fanoutPx;
-        const targetOffset =
-          (fanoutByEndpoint.get(`${d.id}|${target.id}`) ?? 0) *
-          GRAPH_DEFAULTS.link.fanoutPx;
-
-        const out = {
-          x1: source.x + nx * sourceOffset,
-          y1: source.y + ny * sourceOffset,
-          x2: target.x + nx * targetOffset,
-          y2: target.y + ny * targetOffset,
-        };
-        cache.set(d.id, out);
-        return out;
-      };
-
-      // Keep overlay in sync with base link positions.
-      overlay
-        .attr("x1", (d: GraphLinkDatum) => linkPos(d).x1)
-        .attr("y1", (d: GraphLinkDatum) => linkPos(d).y1)
-        .attr("x2", (d: GraphLinkDatum) => linkPos(d).x2)
-        .attr("y2", (d: GraphLinkDatum) => linkPos(d).y2);
+      positionLanes();
     },
 
     afterLinkStyle(
@@ -224,50 +170,63 @@ export function createFlowDashesTrafficVisualization(
       );
 
       o
-        .attr("stroke", (d: GraphLinkDatum) => {
-          const t = getTraffic?.(d.id);
-          if (!t) return "transparent";
-          return trafficColor?.(t.status, t.utilization) ||
+        .attr("stroke", (d: Lane) => {
+          const t = getTraffic?.(d.link.id);
+          const lane = laneTraffic(t, d.dir);
+          if (!t || !lane) return "transparent";
+          return trafficColor?.(t.status, lane.utilization) ||
             GRAPH_COLORS.trafficOverlayFallback;
         })
-        .attr("stroke-width", (d: GraphLinkDatum) => {
-          const t = getTraffic?.(d.id);
-          if (!t) return 0;
-          const base = trafficWidthRate?.(t.rateMbps) ??
+        .attr("stroke-width", (d: Lane) => {
+          const t = getTraffic?.(d.link.id);
+          const lane = laneTraffic(t, d.dir);
+          if (!t || !lane) return 0;
+          const base = trafficWidthRate?.(lane.rateMbps) ??
             GRAPH_DEFAULTS.link.defaultWidth;
-          const w = clamp(base * 0.35 + 0.8, 1.2, 6);
+          // Split lanes share the link's footprint, so keep them slimmer.
+          const w = isSplit(t)
+            ? clamp(base * 0.25 + 0.6, 1, 4)
+            : clamp(base * 0.35 + 0.8, 1.2, 6);
           return t?.status === TRAFFIC_STYLE.downStatus
             ? Math.max(w, TRAFFIC_STYLE.highlightMinWidth)
             : w;
         })
-        .attr("opacity", (d: GraphLinkDatum) => {
-          const t = getTraffic?.(d.id);
+        .attr("opacity", (d: Lane) => {
+          const t = getTraffic?.(d.link.id);
           if (t?.status === TRAFFIC_STYLE.downStatus) {
             return edgeOpacityMultiplier;
           }
           // Mirror base-link opacity rules.
           if (hasSelection) {
             if (highlightedLinks.size) {
-              return (highlightedLinks.has(d.id) ? 1 : 0.14) *
+              return (highlightedLinks.has(d.link.id) ? 1 : 0.14) *
                 edgeOpacityMultiplier;
             }
             return 0.28 * edgeOpacityMultiplier;
           }
-          return (filteredSet.has(d.source.id) || filteredSet.has(d.target.id))
+          return (filteredSet.has(d.link.source.id) ||
+              filteredSet.has(d.link.target.id))
             ? 0.9 * edgeOpacityMultiplier
             : 0.18 * edgeOpacityMultiplier;
         });
 
       // Keep dasharray changes immediate (avoids odd tweening artifacts).
-      overlay.attr("stroke-dasharray", (d: GraphLinkDatum) => {
-        const t = getTraffic?.(d.id);
-        if (!t) return TRAFFIC_STYLE.dash.none;
+      overlay.attr("stroke-dasharray", (d: Lane) => {
+        const t = getTraffic?.(d.link.id);
+        if (!t || !laneTraffic(t, d.dir)) return TRAFFIC_STYLE.dash.none;
         if (t.status === TRAFFIC_STYLE.downStatus) {
           return TRAFFIC_STYLE.dash.down;
         }
+        if (t.status === TRAFFIC_STYLE.blackholedStatus) {
+          return TRAFFIC_STYLE.dash.blackholed;
+        }
         // Keep pattern stable; only speed should change.
         return TRAFFIC_STYLE.dash.up;
       });
+
+      // Lanes split/merge as directional data appears, even when the
+      // simulation is idle.
+      positionLanes();
     },
 
     destroy() {
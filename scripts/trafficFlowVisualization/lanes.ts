@@ -0,0 +1,123 @@
+import type { DirectionalTraffic, TrafficUpdate } from "../domain/types.ts";
+import {
+  hasDirectionalTraffic,
+  type TrafficDirection,
+} from "../domain/traffic.ts";
+import { GRAPH_DEFAULTS, TRAFFIC_STYLE } from "../config.ts";
+import type { GraphLinkDatum } from "./types.ts";
+
+// Per-direction lanes shared by the animated overlays (flow dashes,
+// particles).
+
+const getEndId = (end: string | { id: string }): string =>
+  typeof end === "string" ? end : end.id;
+
+export const buildFanoutOffsetsByEndpoint = (links: GraphLinkDatum[]) => {
+  const byNode = new Map<string, GraphLinkDatum[]>();
+  const add = (nodeId: string, link: GraphLinkDatum) => {
+    const arr = byNode.get(nodeId);
+    if (arr) arr.push(link);
+    else byNode.set(nodeId, [link]);
+  };
+
+  links.forEach((link) => {
+    add(getEndId(link.source), link);
+    add(getEndId(link.target), link);
+  });
+
+  const out = new Map<string, number>();
+  for (const [nodeId, nodeLinks] of byNode.entries()) {
+    const sorted = [...nodeLinks].sort((a, b) => {
+      const aOther = getEndId(a.source) === nodeId
+        ? getEndId(a.target)
+        : getEndId(a.source);
+      const bOther = getEndId(b.source) === nodeId
+        ? getEndId(b.target)
+        : getEndId(b.source);
+      return `${aOther}\n${a.id}`.localeCompare(`${bOther}\n${b.id}`);
+    });
+
+    const mid = (sorted.length - 1) / 2;
+    sorted.forEach((link, idx) => {
+      out.set(`${link.id}|${nodeId}`, idx - mid);
+    });
+  }
+  return out;
+};
+
+// One lane per direction of each link. Links without directional data (or
+// that are down/blackholed) only use the A→B lane, centered.
+export type Lane = { id: string; dir: TrafficDirection; link: GraphLinkDatum };
+
+export type LanePosition = { x1: number; y1: number; x2: number; y2: number };
+
+export const buildLanes = (links: GraphLinkDatum[]): Lane[] =>
+  links.flatMap((link) =>
+    (["aToB", "bToA"] as const).map((dir) => ({
+      id: `${link.id}|${dir}`,
+      dir,
+      link,
+    }))
+  );
+
+export const isSplit = (t: TrafficUpdate | undefined) =>
+  !!t && t.status !== TRAFFIC_STYLE.downStatus &&
+  t.status !== TRAFFIC_STYLE.blackholedStatus && hasDirectionalTraffic(t);
+
+export const laneTraffic = (
+  t: TrafficUpdate | undefined,
+  dir: TrafficDirection,
+): DirectionalTraffic | undefined => {
+  if (!t) return undefined;
+  if (!isSplit(t)) return dir === "aToB" ? t : undefined;
+  const d = t[dir];
+  return d && (Number(d.rateMbps) || 0) > 0 ? d : undefined;
+};
+
+// Lane endpoints for the current node positions. Create one per frame or
+// tick: link positions are cached for its lifetime.
+export const createLanePositioner = (
+  fanoutByEndpoint: Map<string, number>,
+  getTraffic: ((connectionId: string) => TrafficUpdate | undefined) | null,
+) => {
+  const cache = new Map<string, LanePosition>();
+  const linkPos = (d: GraphLinkDatum) => {
+    const hit = cache.get(d.id);
+    if (hit) return hit;
+
+    const source = d.source;
+    const target = d.target;
+    const dx = (target.x ?? 0) - (source.x ?? 0);
+    const dy = (target.y ?? 0) - (source.y ?? 0);
+    const length = Math.max(1e-6, Math.hypot(dx, dy));
+    const nx = -dy / length;
+    const ny = dx / length;
+
+    const sourceOffset = (fanoutByEndpoint.get(`${d.id}|${source.id}`) ?? 0) *
+      GRAPH_DEFAULTS.link.fanoutPx;
+    const targetOffset = (fanoutByEndpoint.get(`${d.id}|${target.id}`) ?? 0) *
+      GRAPH_DEFAULTS.link.fanoutPx;
+
+    const out = {
+      x1: source.x + nx * sourceOffset,
+      y1: source.y + ny * sourceOffset,
+      x2: target.x + nx * targetOffset,
+      y2: target.y + ny * targetOffset,
+    };
+    cache.set(d.id, out);
+    return out;
+  };
+
+  // Split lanes sit either side of the base link.
+  return (d: Lane): LanePosition => {
+    const p = linkPos(d.link);
+    if (!isSplit(getTraffic?.(d.link.id))) return p;
+    const side = d.dir === "aToB" ? -1 : 1;
+    const dx = p.x2 - p.x1;
+    const dy = p.y2 - p.y1;
+    const length = Math.max(1e-6, Math.hypot(dx, dy));
+    const ox = (-dy / length) * side * TRAFFIC_STYLE.directionLaneOffsetPx;
+    const oy = (dx / length) * side * TRAFFIC_STYLE.directionLaneOffsetPx;
+    return { x1: p.x1 + ox, y1: p.y1 + oy, x2: p.x2 + ox, y2: p.y2 + oy };
+  };
+};
@@ -0,0 +1,77 @@
+// A lane as the particle system sees it for one frame.
+export type ParticleLane = { id: string; emitPerSec: number; lengthPx: number };
+
+export type Particle = { laneId: string; progress: number };
+
+// Dots per second for each lane's rate, linear in Mbps. When the busiest lane
+// would pass `maxPerSecond`, every lane is scaled down by the same factor so
+// the busiest sits at the cap and fast links keep their ratios.
+export const particleEmitRates = (
+  ratesMbps: unknown[],
+  { perSecondPerMbps, maxPerSecond }: {
+    perSecondPerMbps: number;
+    maxPerSecond: number;
+  },
+): number[] => {
+  const rates = ratesMbps.map((r) => Math.max(0, Number(r) || 0));
+  const busiest = Math.max(0, ...rates) * perSecondPerMbps;
+  const scale = busiest > maxPerSecond ? maxPerSecond / busiest : 1;
+  return rates.map((rate) => rate * perSecondPerMbps * scale);
+};
+
+// Emits and moves dots along lanes; no DOM. Emission credit carries over
+// between frames so slow links still emit now and then. Once `maxParticles`
+// are in flight new dots are skipped, and the lane order rotates each step so
+// the cap does not always starve the same links.
+export const createParticleSystem = (
+  { maxParticles, speedPxPerSec }: {
+    maxParticles: number;
+    speedPxPerSec: number;
+  },
+) => {
+  let particles: Particle[] = [];
+  const creditByLane = new Map<string, number>();
+  let rotation = 0;
+
+  const step = (dtSec: number, lanes: ParticleLane[]) => {
+    const byId = new Map(lanes.map((lane) => [lane.id, lane]));
+    // Lanes that stopped carrying traffic lose their dots at once.
+    particles = particles
+      .filter((p) => (byId.get(p.laneId)?.emitPerSec ?? 0) > 0)
+      .map((p) => ({
+        ...p,
+        progress: p.progress +
+          (dtSec * speedPxPerSec) / Math.max(1, byId.get(p.laneId)!.lengthPx),
+      }))
+      .filter((p) => p.progress < 1);
+    Array.from(creditByLane.keys())
+      .filter((id) => !byId.has(id))
+      .forEach((id) => creditByLane.delete(id));
+
+    const start = lanes.length ? rotation % lanes.length : 0;
+    rotation += 1;
+    for (let i = 0; i < lanes.length; i++) {
+      const lane = lanes[(start + i) % lanes.length];
+      if (lane.emitPerSec <= 0) {
+        creditByLane.delete(lane.id);
+        continue;
+      }
+      let credit = (creditByLane.get(lane.id) ?? 0) + dtSec * lane.emitPerSec;
+      while (credit >= 1 && particles.length < maxParticles) {
+        credit -= 1;
+        particles.push({ laneId: lane.id, progress: 0 });
+      }
+      creditByLane.set(lane.id, Math.min(credit, 1));
+    }
+  };
+
+  return {
+    step,
+    particles: () => particles,
+    clear: () => {
+      particles = [];
+      creditByLane.clear();
+      rotation = 0;
+    },
+  };
+};
@@ -0,0 +1,62 @@
+import { assertEquals } from "@std/assert";
+import { createParticleSystem, particleEmitRates } from "./particleSystem.ts";
+
+Deno.test("particles: emission follows the rate and dots travel the lane", () => {
+  const system = createParticleSystem({ maxParticles: 100, speedPxPerSec: 50 });
+  const lanes = [
+    { id: "fast", emitPerSec: 4, lengthPx: 100 },
+    { id: "slow", emitPerSec: 0.5, lengthPx: 100 },
+    { id: "idle", emitPerSec: 0, lengthPx: 100 },
+  ];
+  system.step(1, lanes);
+  assertEquals(
+    system.particles().map((p) => [p.laneId, p.progress]),
+    [["fast", 0], ["fast", 0], ["fast", 0], ["fast", 0]],
+  );
+
+  // Slow lanes emit once their credit adds up; dots leave after 2 s.
+  system.step(1, lanes);
+  assertEquals(system.particles().filter((p) => p.laneId === "slow").length, 1);
+  assertEquals(system.particles()[0].progress, 0.5);
+  system.step(1, lanes);
+  assertEquals(system.particles().every((p) => p.progress < 1), true);
+  assertEquals(system.particles().filter((p) => p.laneId === "fast").length, 8);
+});
+
+Deno.test("particles: the global cap is shared and stopped lanes clear", () => {
+  const system = createParticleSystem({ maxParticles: 5, speedPxPerSec: 1 });
+  const lanes = [
+    { id: "a", emitPerSec: 10, lengthPx: 1000 },
+    { id: "b", emitPerSec: 10, lengthPx: 1000 },
+  ];
+  system.step(1, lanes);
+  assertEquals(system.particles().length, 5);
+  assertEquals(system.particles().every((p) => p.laneId === "a"), true);
+
+  // The next step starts from the other lane, but the cap is already full.
+  system.step(1, lanes);
+  assertEquals(system.particles().length, 5);
+
+  system.step(1, [{ id: "a", emitPerSec: 0, lengthPx: 1000 }, lanes[1]]);
+  assertEquals(system.particles().length, 5);
+  assertEquals(system.particles().every((p) => p.laneId === "b"), true);
+});
+
+Deno.test("particles: multi-gigabit lanes keep their rate ratio", () => {
+  const emit = (ratesMbps: unknown[]) =>
+    particleEmitRates(ratesMbps, { perSecondPerMbps: 0.01, maxPerSecond: 12 });
+  const [slow, fast] = emit([2000, 6000]);
+  const system = createParticleSystem({ maxParticles: 1000, speedPxPerSec: 1 });
+  const lanes = [
+    { id: "2g", emitPerSec: slow, lengthPx: 1000 },
+    { id: "6g", emitPerSec: fast, lengthPx: 1000 },
+  ];
+  for (let i = 0; i < 10; i++) system.step(1, lanes);
+
+  const count = (id: string) =>
+    system.particles().filter((p) => p.laneId === id).length;
+  assertEquals(count("2g"), 40);
+  assertEquals(count("6g"), 120);
+  // Below the cap the rate per Mbps is left alone.
+  assertEquals(emit([100, 300, undefined]), [1, 3, 0]);
+});
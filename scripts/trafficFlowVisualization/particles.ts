@@ -0,0 +1,224 @@
+import type { TrafficUpdate } from "../domain/types.ts";
+import { GRAPH_COLORS, TRAFFIC_STYLE } from "../config.ts";
+import type {
+  LinkDasharrayArgs,
+  LinkStrokeArgs,
+  LinkWidthArgs,
+  TrafficViz,
+  TrafficVizAfterStyleArgs,
+  TrafficVizHelpers,
+  TrafficVizStartArgs,
+} from "./types.ts";
+import {
+  buildFanoutOffsetsByEndpoint,
+  buildLanes,
+  createLanePositioner,
+  type Lane,
+  laneTraffic,
+} from "./lanes.ts";
+import { createParticleSystem, particleEmitRates } from "./particleSystem.ts";
+
+const carriesTraffic = (t: TrafficUpdate | undefined) =>
+  !!t && t.status !== TRAFFIC_STYLE.downStatus &&
+  t.status !== TRAFFIC_STYLE.blackholedStatus;
+
+export function createParticlesTrafficVisualization(
+  { trafficColor, trafficWidthRate, flowSpeedMultiplier }: TrafficVizHelpers =
+    {},
+): TrafficViz {
+  // deno-lint-ignore no-explicit-any
+  let dots: any;
+  // deno-lint-ignore no-explicit-any
+  let layer: any;
+  let rafId = 0;
+  let running = false;
+  let getTraffic: ((connectionId: string) => TrafficUpdate | undefined) | null =
+    null;
+  let lanes: Lane[] = [];
+  let fanoutByEndpoint = new Map<string, number>();
+  let lastNow = 0;
+  // Mirrors the base links' opacity, set in afterLinkStyle.
+  let opacityByLink = new Map<string, number>();
+  const system = createParticleSystem({
+    maxParticles: TRAFFIC_STYLE.particles.maxParticles,
+    speedPxPerSec: TRAFFIC_STYLE.particles.speedPxPerSec,
+  });
+
+  const animate = (now: number) => {
+    if (!running) return;
+
+    if (!lastNow) lastNow = now;
+    // Long gaps (hidden tab) would otherwise burst every lane at once.
+    const dt = Math.min(0.25, Math.max(0, (now - lastNow) / 1000));
+    lastNow = now;
+    const speedMultiplier = Math.max(
+      0.05,
+      Number(flowSpeedMultiplier?.() ?? 1) || 1,
+    );
+
+    const lanePos = createLanePositioner(fanoutByEndpoint, getTraffic);
+    const laneById = new Map(lanes.map((lane) => [lane.id, lane]));
+    const emitRates = particleEmitRates(
+      lanes.map((lane) => {
+        const t = getTraffic?.(lane.link.id);
+        return carriesTraffic(t) ? laneTraffic(t, lane.dir)?.rateMbps : 0;
+      }),
+      {
+        perSecondPerMbps: TRAFFIC_STYLE.particles.perSecondPerMbps,
+        maxPerSecond: TRAFFIC_STYLE.particles.maxPerSecondPerLane,
+      },
+    );
+    system.step(
+      dt * speedMultiplier,
+      lanes.map((lane, index) => {
+        const p = lanePos(lane);
+        return {
+          id: lane.id,
+          emitPerSec: emitRates[index],
+          lengthPx: Math.hypot(p.x2 - p.x1, p.y2 - p.y1),
+        };
+      }),
+    );
+
+    const particles = system.particles();
+    dots.each(function (this: SVGCircleElement, slot: number) {
+      const particle = particles[slot];
+      const lane = particle && laneById.get(particle.laneId);
+      if (!particle || !lane) {
+        this.setAttribute("display", "none");
+        return;
+      }
+      const p = lanePos(lane);
+      const t = getTraffic?.(lane.link.id);
+      const dirTraffic = laneTraffic(t, lane.dir);
+      this.setAttribute("display", "inline");
+      this.setAttribute("cx", String(p.x1 + (p.x2 - p.x1) * particle.progress));
+      this.setAttribute("cy", String(p.y1 + (p.y2 - p.y1) * particle.progress));
+      this.setAttribute(
+        "fill",
+        trafficColor?.(t?.status, dirTraffic?.utilization) ||
+          GRAPH_COLORS.trafficOverlayFallback,
+      );
+      this.setAttribute(
+        "opacity",
+        String(opacityByLink.get(lane.link.id) ?? 0.9),
+      );
+    });
+
+    rafId = requestAnimationFrame(animate);
+  };
+
+  const stop = () => {
+    running = false;
+    if (rafId) cancelAnimationFrame(rafId);
+    rafId = 0;
+    lastNow = 0;
+    system.clear();
+    fanoutByEndpoint.clear();
+    opacityByLink = new Map();
+    lanes = [];
+    layer?.remove();
+    layer = null;
+    dots = null;
+  };
+
+  return {
+    id: "particles",
+
+    // Dots carry rate and utilization; the base line only shows status.
+    getLinkStroke({ traffic, highlighted, defaultStroke }: LinkStrokeArgs) {
+      if (traffic?.status === TRAFFIC_STYLE.downStatus) {
+        return TRAFFIC_STYLE.downColor;
+      }
+      if (traffic?.status === TRAFFIC_STYLE.blackholedStatus) {
+        return TRAFFIC_STYLE.blackholedColor;
+      }
+      if (highlighted) return GRAPH_COLORS.highlight;
+      return traffic ? GRAPH_COLORS.linkStroke : defaultStroke;
+    },
+    getLinkWidth({ traffic, highlighted, defaultWidth }: LinkWidthArgs) {
+      const base = traffic
+        ? Math.max(
+          1.1,
+          (trafficWidthRate?.(traffic.rateMbps) ?? defaultWidth) * 0.45,
+        )
+        : defaultWidth;
+      return highlighted
+        ? Math.max(base, TRAFFIC_STYLE.highlightMinWidth)
+        : base;
+    },
+    getLinkDasharray({ traffic }: LinkDasharrayArgs) {
+      if (traffic?.status === TRAFFIC_STYLE.downStatus) {
+        return TRAFFIC_STYLE.dash.down;
+      }
+      if (traffic?.status === TRAFFIC_STYLE.blackholedStatus) {
+        return TRAFFIC_STYLE.dash.blackholed;
+      }
+      return TRAFFIC_STYLE.dash.none;
+    },
+
+    start({ container, links }: TrafficVizStartArgs) {
+      // D3 selection is provided by the graph module; avoid pulling in full D3 typings.
+      // deno-lint-ignore no-explicit-any
+      const c = container as any;
+
+      fanoutByEndpoint = buildFanoutOffsetsByEndpoint(links);
+      lanes = buildLanes(links);
+
+      // A fixed pool of circles; each frame fills the first slots.
+      const slots = Array.from(
+        { length: TRAFFIC_STYLE.particles.maxParticles },
+        (_, i) => i,
+      );
+      layer = c.append("g").attr("pointer-events", "none");
+      dots = layer.selectAll("circle")
+        .data(slots)
+        .join("circle")
+        .attr("r", TRAFFIC_STYLE.particles.radius)
+        .attr("display", "none");
+
+      running = true;
+      lastNow = 0;
+      rafId = requestAnimationFrame(animate);
+
+      return stop;
+    },
+
+    setTrafficGetter(fn: (connectionId: string) => TrafficUpdate | undefined) {
+      getTraffic = fn;
+    },
+
+    afterLinkStyle(
+      {
+        highlightedLinks,
+        hasSelection,
+        filteredSet,
+        edgeOpacityMultiplier = 1,
+      }: TrafficVizAfterStyleArgs,
+    ) {
+      // Same rules as the flow-dashes overlay.
+      opacityByLink = new Map(lanes.map(({ link }) => {
+        if (hasSelection) {
+          if (highlightedLinks.size) {
+            return [
+              link.id,
+              (highlightedLinks.has(link.id) ? 1 : 0.14) *
+              edgeOpacityMultiplier,
+            ];
+          }
+          return [link.id, 0.28 * edgeOpacityMultiplier];
+        }
+        return [
+          link.id,
+          (filteredSet.has(link.source.id) || filteredSet.has(link.target.id))
+            ? 0.9 * edgeOpacityMultiplier
+            : 0.18 * edgeOpacityMultiplier,
+        ];
+      }));
+    },
+
+    destroy() {
+      stop();
+    },
+  };
+}
@@ -1,12 +1,14 @@
 import { createClassicTrafficVisualization } from "./classic.ts";
 import { createUtilWidthTrafficVisualization } from "./utilWidth.ts";
 import { createFlowDashesTrafficVisualization } from "./flowDashes.ts";
+import { createParticlesTrafficVisualization } from "./particles.ts";
 import type { TrafficViz, TrafficVizHelpers, TrafficVizKind } from "./types.ts";
 
 export const TRAFFIC_VIZ_OPTIONS = [
   { id: "classic", name: "Classic (width=rate, color=util)" },
   { id: "util-width", name: "Util width (width=util, color=status)" },
   { id: "flow-dashes", name: "Flow dashes (speed=rate)" },
+  { id: "particles", name: "Particles (count=rate, color=util)" },
 ];
 
 export function createTrafficFlowVisualization(
@@ -18,6 +20,8 @@ export function createTrafficFlowVisualization(
       return createUtilWidthTrafficVisualization(helpers);
     case "flow-dashes":
       return createFlowDashesTrafficVisualization(helpers);
+    case "particles":
+      return createParticlesTrafficVisualization(helpers);
     case "classic":
     default:
       return createClassicTrafficVisualization(helpers);
@@ -1,6 +1,10 @@
 import type { TrafficUpdate } from "../trafficConnector.ts";
 
-export type TrafficVizKind = "classic" | "util-width" | "flow-dashes";
+export type TrafficVizKind =
+  | "classic"
+  | "util-width"
+  | "flow-dashes"
+  | "particles";
 
 export type TrafficVizHelpers = {
   trafficColor?: (
@@ -6,6 +6,7 @@ import type {
   TrafficVizHelpers,
 } from "./types.ts";
 import { GRAPH_COLORS, TRAFFIC_STYLE } from "../config.ts";
+import { peakUtilization } from "../domain/traffic.ts";
 
 const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
 
@@ -27,13 +28,18 @@ export function createUtilWidthTrafficVisualization(
         if (traffic.status === TRAFFIC_STYLE.downStatus) {
           return TRAFFIC_STYLE.downColor;
         }
+        if (traffic.status === TRAFFIC_STYLE.blackholedStatus) {
+          return TRAFFIC_STYLE.blackholedColor;
+        }
         // Keep "up" neutral; width already encodes utilization for this mode.
         return GRAPH_COLORS.trafficNeutral;
       }
       return highlighted ? GRAPH_COLORS.highlight : defaultStroke;
     },
     getLinkWidth({ traffic, highlighted, defaultWidth }: LinkWidthArgs) {
-      const base = traffic ? widthFromUtil(traffic.utilization) : defaultWidth;
+      const base = traffic
+        ? widthFromUtil(peakUtilization(traffic))
+        : defaultWidth;
       return highlighted
         ? Math.max(base, TRAFFIC_STYLE.highlightMinWidth)
         : base;
@@ -42,6 +48,9 @@ export function createUtilWidthTrafficVisualization(
       if (traffic?.status === TRAFFIC_STYLE.downStatus) {
         return TRAFFIC_STYLE.dash.down;
       }
+      if (traffic?.status === TRAFFIC_STYLE.blackholedStatus) {
+        return TRAFFIC_STYLE.dash.blackholed;
+      }
       return TRAFFIC_STYLE.dash.none;
     },
     start() {
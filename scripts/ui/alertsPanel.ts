@@ -0,0 +1,90 @@
+import type { State } from "../app/state.ts";
+import type { Alert } from "../app/alerts.ts";
+
+const clearChildren = (el: Element) => {
+  while (el.firstChild) el.removeChild(el.firstChild);
+};
+
+const formatTime = (ms: number) => new Date(ms).toLocaleTimeString();
+
+export function createAlertsPanel(
+  {
+    alertsList,
+    alertsSummary,
+    onSelectConnection,
+  }: {
+    alertsList: HTMLElement;
+    alertsSummary: HTMLElement;
+    onSelectConnection: (connectionId: string) => void;
+  },
+) {
+  // Alerts only change on evaluation, not on every traffic tick.
+  let lastAlerts: Alert[] | null = null;
+  let lastConnections: State["connections"] | null = null;
+
+  const render = (state: State) => {
+    if (
+      state.alerts === lastAlerts && state.connections === lastConnections
+    ) {
+      return;
+    }
+    lastAlerts = state.alerts;
+    lastConnections = state.connections;
+
+    const namesById = new Map(state.devices.map((d) => [d.id, d.name]));
+    const linkLabel = (connectionId: string) => {
+      const c = state.connections.find((c) => c.id === connectionId);
+      if (!c) return connectionId;
+      const a = namesById.get(c.from.deviceId) ?? c.from.deviceId;
+      const b = namesById.get(c.to.deviceId) ?? c.to.deviceId;
+      return `${a} ↔ ${b}`;
+    };
+
+    const activeCount = state.alerts.filter((a) => a.resolvedAt == null)
+      .length;
+    alertsSummary.textContent = activeCount ? `${activeCount} active` : "";
+
+    clearChildren(alertsList);
+    if (!state.alerts.length) {
+      const empty = document.createElement("span");
+      empty.className = "status";
+      empty.textContent = "No alerts";
+      alertsList.appendChild(empty);
+      return;
+    }
+
+    state.alerts.forEach((alert) => {
+      const isResolved = alert.resolvedAt != null;
+      const row = document.createElement("button");
+      row.type = "button";
+      row.className = `alert-row severity-${alert.severity}`;
+      row.classList.toggle("is-resolved", isResolved);
+      row.title = `${alert.ruleId} on ${alert.connectionId}`;
+
+      const message = document.createElement("div");
+      message.className = "alert-message";
+      message.textContent = alert.message;
+
+      const link = document.createElement("div");
+      link.className = "alert-link";
+      link.textContent = linkLabel(alert.connectionId);
+
+      const time = document.createElement("div");
+      time.className = "alert-time";
+      time.textContent = isResolved
+        ? `${formatTime(alert.startedAt)} – ${formatTime(alert.resolvedAt!)}`
+        : `since ${formatTime(alert.startedAt)}`;
+
+      row.appendChild(message);
+      row.appendChild(link);
+      row.appendChild(time);
+      row.addEventListener(
+        "click",
+        () => onSelectConnection(alert.connectionId),
+      );
+      alertsList.appendChild(row);
+    });
+  };
+
+  return { render };
+}
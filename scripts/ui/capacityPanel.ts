@@ -0,0 +1,126 @@
+import type { Dispatch, State } from "../app/types.ts";
+import type { CapacityPlan } from "../app/capacityPlanning.ts";
+
+const clearChildren = (el: Element) => {
+  while (el.firstChild) el.removeChild(el.firstChild);
+};
+
+const formatCapacity = (mbps: number): string =>
+  mbps >= 1000 ? `${Math.round(mbps / 100) / 10}G` : `${mbps}M`;
+
+const formatPercent = (util: number) => `${Math.round(util * 100)}%`;
+
+// Oversubscription per core/agg device plus the links whose peak utilization
+// is close to saturation. Rows select the device (or both ends of a link).
+export function createCapacityPanel(
+  {
+    summary,
+    list,
+    planCapacity,
+    dispatch,
+  }: {
+    summary: HTMLElement;
+    list: HTMLElement;
+    planCapacity: () => CapacityPlan;
+    dispatch: Dispatch;
+  },
+) {
+  let lastTraffic: State["traffic"] | null = null;
+  let lastDevices: State["devices"] | null = null;
+  let lastConnections: State["connections"] | null = null;
+
+  const addRow = (
+    className: string,
+    head: string,
+    detail: string,
+    ids: string[],
+  ) => {
+    const row = document.createElement("button");
+    row.type = "button";
+    row.className = `capacity-row ${className}`.trim();
+
+    const title = document.createElement("div");
+    title.textContent = head;
+    const meta = document.createElement("div");
+    meta.className = "capacity-detail";
+    meta.textContent = detail;
+    row.appendChild(title);
+    row.appendChild(meta);
+
+    row.addEventListener(
+      "click",
+      () =>
+        ids.forEach((id) =>
+          dispatch({ type: "toggleSelect", id, forceOn: true })
+        ),
+    );
+    list.appendChild(row);
+  };
+
+  const draw = (state: State) => {
+    const plan = planCapacity();
+    const namesById = new Map(state.devices.map((d) => [d.id, d.name]));
+    const nameOf = (id: string) => namesById.get(id) ?? id;
+
+    clearChildren(list);
+    summary.textContent = plan.saturatedLinks.length
+      ? `${plan.saturatedLinks.length} near saturation`
+      : "";
+
+    if (!plan.devices.length) {
+      const empty = document.createElement("span");
+      empty.className = "status";
+      empty.textContent = "No core or aggregation devices";
+      list.appendChild(empty);
+    }
+
+    plan.devices.forEach((row) => {
+      const ratio = row.ratio == null
+        ? "no uplink"
+        : `${Math.round(row.ratio * 10) / 10}:1`;
+      const hot = row.peakUplinkUtilization != null &&
+        row.peakUplinkUtilization >= plan.saturationUtilization;
+      addRow(
+        hot ? "is-saturated" : "",
+        `${nameOf(row.deviceId)} · ${ratio}`,
+        [
+          `${formatCapacity(row.downstreamMbps)} down / ${
+            formatCapacity(row.upstreamMbps)
+          } up`,
+          row.peakUplinkUtilization == null
+            ? ""
+            : `uplink peak ${formatPercent(row.peakUplinkUtilization)}`,
+          row.unknownLinks ? `${row.unknownLinks} unrated` : "",
+        ].filter(Boolean).join(" • "),
+        [row.deviceId],
+      );
+    });
+
+    plan.saturatedLinks.forEach((link) => {
+      addRow(
+        "is-saturated",
+        `${nameOf(link.fromId)} ↔ ${nameOf(link.toId)}`,
+        [
+          `peak ${formatPercent(link.peakUtilization)}`,
+          link.capacityMbps == null ? "" : formatCapacity(link.capacityMbps),
+        ].filter(Boolean).join(" of "),
+        [link.fromId, link.toId],
+      );
+    });
+  };
+
+  const render = (state: State) => {
+    if (
+      state.traffic === lastTraffic && state.devices === lastDevices &&
+      state.connections === lastConnections
+    ) {
+      return;
+    }
+    lastTraffic = state.traffic;
+    lastDevices = state.devices;
+    lastConnections = state.connections;
+    draw(state);
+  };
+
+  return { render };
+}
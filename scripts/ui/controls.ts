@@ -1,5 +1,6 @@
 import type { State } from "../app/state.ts";
 import { CUSTOM_NETWORK_ID } from "../app/customTopology.ts";
+import { TRAFFIC_PLAYBACK } from "../config.ts";
 
 type TrafficVizOption = { id: string; name: string };
 type NetworkOption = { id: string; name?: string };
@@ -83,6 +84,19 @@ export function createControls(
     trafficSourceSelect,
     trafficVizSelect,
     layoutSelect,
+    trafficScrubInput,
+    trafficScrubValue,
+    trafficLiveBtn,
+    trafficPlaybackField,
+    trafficPlaybackPauseBtn,
+    trafficPlaybackStepBtn,
+    trafficPlaybackSeekInput,
+    trafficPlaybackValue,
+    trafficRecordBtn,
+    trafficReplayOpenBtn,
+    trafficReplayInput,
+    trafficReplayExitBtn,
+    resilienceOverlayToggle,
     builderWorkflowSelect,
     createEditBtn,
     builderOverlay: _builderOverlay,
@@ -108,6 +122,16 @@ export function createControls(
     onTrafficSourceChanged,
     onLayoutChanged,
     onTrafficVizChanged,
+    onTrafficScrub,
+    onTrafficLive,
+    onStartTrafficRecording,
+    onStopTrafficRecording,
+    onReplayTrafficRecording,
+    onExitTrafficReplay,
+    onTrafficPlaybackPaused,
+    onTrafficPlaybackStep,
+    onTrafficPlaybackSeek,
+    onResilienceOverlayChanged,
     onOpenBuilderMode,
     onExitBuilderMode,
     onBuilderTypeSearchChanged,
@@ -128,6 +152,19 @@ export function createControls(
     trafficSourceSelect: HTMLSelectElement;
     trafficVizSelect: HTMLSelectElement;
     layoutSelect: HTMLSelectElement;
+    trafficScrubInput: HTMLInputElement;
+    trafficScrubValue: HTMLElement;
+    trafficLiveBtn: HTMLButtonElement;
+    trafficPlaybackField: HTMLElement;
+    trafficPlaybackPauseBtn: HTMLButtonElement;
+    trafficPlaybackStepBtn: HTMLButtonElement;
+    trafficPlaybackSeekInput: HTMLInputElement;
+    trafficPlaybackValue: HTMLElement;
+    trafficRecordBtn: HTMLButtonElement;
+    trafficReplayOpenBtn: HTMLButtonElement;
+    trafficReplayInput: HTMLInputElement;
+    trafficReplayExitBtn: HTMLButtonElement;
+    resilienceOverlayToggle: HTMLInputElement;
     builderWorkflowSelect: HTMLSelectElement;
     createEditBtn: HTMLButtonElement;
     builderOverlay: HTMLElement;
@@ -153,6 +190,16 @@ export function createControls(
     onTrafficSourceChanged: (kind: string) => void;
     onLayoutChanged: (kind: string) => void;
     onTrafficVizChanged: (kind: string) => void;
+    onTrafficScrub: (atMs: number) => void;
+    onTrafficLive: () => void;
+    onStartTrafficRecording: () => void;
+    onStopTrafficRecording: () => void;
+    onReplayTrafficRecording: (jsonText: string) => void;
+    onExitTrafficReplay: () => void;
+    onTrafficPlaybackPaused: (paused: boolean) => void;
+    onTrafficPlaybackStep: () => void;
+    onTrafficPlaybackSeek: (positionSec: number) => void;
+    onResilienceOverlayChanged: (enabled: boolean) => void;
     onOpenBuilderMode: (
       workflow: BuilderWorkflow,
       sourceNetworkId: string,
@@ -176,6 +223,10 @@ export function createControls(
   let canRedo = false;
   let isCustomMode = false;
   let lastViewedNetworkId = "";
+  let trafficHistoryEndMs: number | null = null;
+  let isTrafficLive = true;
+  let isTrafficRecording = false;
+  let isTrafficPlaybackPaused = false;
   let builderDeviceTypeOptions: BuilderDeviceOption[] = [];
   let builderShortlistKinds: BuilderShortlistKindOption[] = [];
   let builderDeviceTypeOptionsSignature = "";
@@ -564,6 +615,58 @@ export function createControls(
       onTrafficVizChanged(trafficVizSelect.value);
     });
 
+    trafficScrubInput.addEventListener("input", () => {
+      const atMs = Number(trafficScrubInput.value);
+      if (Number.isFinite(atMs)) onTrafficScrub(atMs);
+    });
+
+    trafficLiveBtn.addEventListener("click", () => {
+      if (!isTrafficLive) {
+        onTrafficLive();
+        return;
+      }
+      // Pausing freezes the view at the newest recorded sample.
+      if (trafficHistoryEndMs != null) onTrafficScrub(trafficHistoryEndMs);
+    });
+
+    trafficRecordBtn.addEventListener("click", () => {
+      if (isTrafficRecording) onStopTrafficRecording();
+      else onStartTrafficRecording();
+    });
+
+    trafficReplayOpenBtn.addEventListener("click", () => {
+      trafficReplayInput.click();
+    });
+
+    trafficReplayInput.addEventListener("change", async () => {
+      const file = trafficReplayInput.files?.[0];
+      if (!file) return;
+      try {
+        onReplayTrafficRecording(await file.text());
+      } finally {
+        trafficReplayInput.value = "";
+      }
+    });
+
+    trafficReplayExitBtn.addEventListener("click", () => onExitTrafficReplay());
+
+    trafficPlaybackPauseBtn.addEventListener("click", () => {
+      onTrafficPlaybackPaused(!isTrafficPlaybackPaused);
+    });
+
+    trafficPlaybackStepBtn.addEventListener("click", () => {
+      onTrafficPlaybackStep();
+    });
+
+    trafficPlaybackSeekInput.addEventListener("change", () => {
+      const positionSec = Number(trafficPlaybackSeekInput.value);
+      if (Number.isFinite(positionSec)) onTrafficPlaybackSeek(positionSec);
+    });
+
+    resilienceOverlayToggle.addEventListener("change", () => {
+      onResilienceOverlayChanged(resilienceOverlayToggle.checked);
+    });
+
     createEditBtn.addEventListener("click", () => {
       const sourceNetworkId = networkSelect.value || lastViewedNetworkId;
       if (!sourceNetworkId) return;
@@ -650,6 +753,70 @@ export function createControls(
     clearSelectionBtn.addEventListener("click", () => onClearSelection());
   };
 
+  const renderTrafficScrubber = (state: State) => {
+    const range = state.trafficHistoryRange;
+    isTrafficLive = state.trafficScrubMs == null;
+    trafficHistoryEndMs = range?.endMs ?? null;
+
+    trafficScrubInput.disabled = !range;
+    trafficLiveBtn.disabled = !range;
+    trafficLiveBtn.textContent = isTrafficLive ? "Pause" : "Live";
+    trafficLiveBtn.classList.toggle("is-active", !isTrafficLive);
+    if (!range) {
+      trafficScrubValue.textContent = "—";
+      return;
+    }
+
+    const atMs = state.trafficScrubMs ?? range.endMs;
+    trafficScrubInput.min = String(range.startMs);
+    trafficScrubInput.max = String(range.endMs);
+    trafficScrubInput.value = String(atMs);
+    trafficScrubValue.textContent = isTrafficLive
+      ? "Live"
+      : new Date(atMs).toLocaleTimeString();
+  };
+
+  const formatPlaybackTime = (sec: number) => {
+    const whole = Math.floor(sec);
+    return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, "0")}`;
+  };
+
+  const renderTrafficRecording = (state: State) => {
+    const replaying = state.trafficPlayback?.replay ?? false;
+    isTrafficRecording = state.trafficRecording;
+
+    trafficRecordBtn.textContent = isTrafficRecording
+      ? "Stop & save"
+      : "Record";
+    trafficRecordBtn.classList.toggle("is-active", isTrafficRecording);
+    trafficReplayOpenBtn.disabled = isTrafficRecording;
+    trafficReplayExitBtn.hidden = !replaying;
+  };
+
+  const renderTrafficPlayback = (state: State) => {
+    const playback = state.trafficPlayback;
+    isTrafficPlaybackPaused = playback?.paused ?? false;
+    trafficPlaybackField.classList.toggle("is-hidden", !playback);
+    if (!playback) return;
+
+    const { positionSec, durationSec } = playback;
+    // Open-ended sources can always be sought a little further ahead.
+    const maxSec = durationSec == null
+      ? positionSec + TRAFFIC_PLAYBACK.seekAheadSec
+      : Math.max(durationSec, positionSec);
+    trafficPlaybackPauseBtn.textContent = playback.paused ? "Play" : "Pause";
+    trafficPlaybackSeekInput.max = String(maxSec);
+    // Leave the thumb alone while the user drags it.
+    if (document.activeElement !== trafficPlaybackSeekInput) {
+      trafficPlaybackSeekInput.value = String(positionSec);
+    }
+    trafficPlaybackValue.textContent = durationSec == null
+      ? formatPlaybackTime(positionSec)
+      : `${formatPlaybackTime(positionSec)} / ${
+        formatPlaybackTime(durationSec)
+      }`;
+  };
+
   const render = (state: State) => {
     wire();
     isCustomMode = state.networkId === CUSTOM_NETWORK_ID;
@@ -693,6 +860,10 @@ export function createControls(
     if (layoutSelect.value !== state.layoutKind) {
       layoutSelect.value = state.layoutKind;
     }
+    resilienceOverlayToggle.checked = state.resilienceOverlay;
+    renderTrafficScrubber(state);
+    renderTrafficPlayback(state);
+    renderTrafficRecording(state);
 
     const hasDeviceOptions = builderDeviceTypeOptions.length > 0;
     const hasTypeFilterOptions = addDeviceTypeSelect.options.length > 0;
@@ -6,6 +6,7 @@ import { JSDOM } from "npm:jsdom";
 import { createControls } from "./controls.ts";
 import { CUSTOM_NETWORK_ID } from "../app/customTopology.ts";
 import type { State } from "../app/types.ts";
+import { emptyTrafficDiagnostics } from "../app/trafficDiagnostics.ts";
 
 const mkState = (networkId: string): State => ({
   networkId,
@@ -19,10 +20,22 @@ const mkState = (networkId: string): State => ({
   devices: [],
   connections: [],
   traffic: [],
+  deviceStatus: [],
+  trafficHistoryRange: null,
+  trafficScrubMs: null,
+  alerts: [],
+  events: [],
   deviceTypes: {},
   trafficSourceKind: "default",
   trafficVizKind: "classic",
   layoutKind: "force",
+  blastRadiusRoot: "",
+  resilienceOverlay: false,
+  failedDeviceIds: new Set<string>(),
+  failedConnectionIds: new Set<string>(),
+  trafficRecording: false,
+  trafficPlayback: null,
+  trafficDiagnostics: emptyTrafficDiagnostics(),
 });
 
 const withDom = (fn: (doc: Document) => void) => {
@@ -59,6 +72,19 @@ const mountControls = (doc: Document) => {
     trafficSourceSelect: mk("select", "source"),
     trafficVizSelect: mk("select", "viz"),
     layoutSelect: mk("select", "layout"),
+    trafficScrubInput: mk("input", "trafficScrub"),
+    trafficScrubValue: mk("output", "trafficScrubValue"),
+    trafficLiveBtn: mk("button", "trafficLive"),
+    trafficPlaybackField: mk("div", "trafficPlaybackField"),
+    trafficPlaybackPauseBtn: mk("button", "trafficPlaybackPause"),
+    trafficPlaybackStepBtn: mk("button", "trafficPlaybackStep"),
+    trafficPlaybackSeekInput: mk("input", "trafficPlaybackSeek"),
+    trafficPlaybackValue: mk("output", "trafficPlaybackValue"),
+    trafficRecordBtn: mk("button", "trafficRecord"),
+    trafficReplayOpenBtn: mk("button", "trafficReplayOpen"),
+    trafficReplayInput: mk("input", "trafficReplayInput"),
+    trafficReplayExitBtn: mk("button", "trafficReplayExit"),
+    resilienceOverlayToggle: mk("input", "resilienceOverlay"),
     builderWorkflowSelect: mk("select", "builderWorkflow"),
     createEditBtn: mk("button", "createEdit"),
     builderOverlay: mk("div", "builderOverlay"),
@@ -84,6 +110,16 @@ const mountControls = (doc: Document) => {
     onTrafficSourceChanged: () => {},
     onLayoutChanged: () => {},
     onTrafficVizChanged: () => {},
+    onTrafficScrub: () => {},
+    onTrafficLive: () => {},
+    onStartTrafficRecording: () => {},
+    onStopTrafficRecording: () => {},
+    onReplayTrafficRecording: () => {},
+    onExitTrafficReplay: () => {},
+    onTrafficPlaybackPaused: () => {},
+    onTrafficPlaybackStep: () => {},
+    onTrafficPlaybackSeek: () => {},
+    onResilienceOverlayChanged: () => {},
     onOpenBuilderMode: () => {},
     onExitBuilderMode: () => {},
     onBuilderTypeSearchChanged: () => {},
@@ -133,6 +169,24 @@ const mountControls = (doc: Document) => {
     addTypeSearch: doc.getElementById("addTypeSearch") as HTMLInputElement,
     builderOverlay: doc.getElementById("builderOverlay") as HTMLElement,
     createEdit: doc.getElementById("createEdit") as HTMLButtonElement,
+    trafficScrub: doc.getElementById("trafficScrub") as HTMLInputElement,
+    trafficLive: doc.getElementById("trafficLive") as HTMLButtonElement,
+    trafficRecord: doc.getElementById("trafficRecord") as HTMLButtonElement,
+    trafficReplayExit: doc.getElementById(
+      "trafficReplayExit",
+    ) as HTMLButtonElement,
+    trafficPlaybackField: doc.getElementById(
+      "trafficPlaybackField",
+    ) as HTMLElement,
+    trafficPlaybackPause: doc.getElementById(
+      "trafficPlaybackPause",
+    ) as HTMLButtonElement,
+    trafficPlaybackSeek: doc.getElementById(
+      "trafficPlaybackSeek",
+    ) as HTMLInputElement,
+    trafficPlaybackValue: doc.getElementById(
+      "trafficPlaybackValue",
+    ) as HTMLElement,
   };
 };
 
@@ -179,3 +233,79 @@ Deno.test("controls: custom mode shows modified badge when edits exist", () => {
     assertEquals(mounted.modeBadge.textContent ?? "", "Modified");
   });
 });
+
+Deno.test("controls: traffic scrubber follows history range and live mode", () => {
+  withDom((doc) => {
+    const mounted = mountControls(doc);
+    mounted.controls.render(mkState("small-office"));
+    assertEquals(mounted.trafficScrub.disabled, true);
+    assertEquals(mounted.trafficLive.disabled, true);
+
+    const range = { startMs: 1000, endMs: 5000 };
+    mounted.controls.render({
+      ...mkState("small-office"),
+      trafficHistoryRange: range,
+    });
+    assertEquals(mounted.trafficScrub.disabled, false);
+    assertEquals(mounted.trafficScrub.value, "5000");
+    assertEquals(mounted.trafficLive.textContent, "Pause");
+
+    mounted.controls.render({
+      ...mkState("small-office"),
+      trafficHistoryRange: range,
+      trafficScrubMs: 2000,
+    });
+    assertEquals(mounted.trafficScrub.value, "2000");
+    assertEquals(mounted.trafficLive.textContent, "Live");
+  });
+});
+
+Deno.test("controls: recording and playback controls follow state", () => {
+  withDom((doc) => {
+    const mounted = mountControls(doc);
+    mounted.controls.render(mkState("small-office"));
+    assertEquals(mounted.trafficRecord.textContent, "Record");
+    assertEquals(
+      mounted.trafficPlaybackField.classList.contains("is-hidden"),
+      true,
+    );
+
+    mounted.controls.render({
+      ...mkState("small-office"),
+      trafficRecording: true,
+    });
+    assertEquals(mounted.trafficRecord.textContent, "Stop & save");
+
+    mounted.controls.render({
+      ...mkState("small-office"),
+      trafficPlayback: {
+        positionSec: 62.4,
+        durationSec: 125,
+        paused: true,
+        replay: true,
+      },
+    });
+    assertEquals(
+      mounted.trafficPlaybackField.classList.contains("is-hidden"),
+      false,
+    );
+    assertEquals(mounted.trafficPlaybackPause.textContent, "Play");
+    assertEquals(mounted.trafficPlaybackValue.textContent, "1:02 / 2:05");
+    assertEquals(mounted.trafficReplayExit.hidden, false);
+
+    // Open-ended sources seek up to a minute ahead.
+    mounted.controls.render({
+      ...mkState("small-office"),
+      trafficPlayback: {
+        positionSec: 30,
+        durationSec: null,
+        paused: false,
+        replay: false,
+      },
+    });
+    assertEquals(mounted.trafficPlaybackPause.textContent, "Pause");
+    assertEquals(mounted.trafficPlaybackSeek.max, "90");
+    assertEquals(mounted.trafficPlaybackValue.textContent, "0:30");
+    assertEquals(mounted.trafficReplayExit.hidden, true);
+  });
+});
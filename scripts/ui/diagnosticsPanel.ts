@@ -0,0 +1,135 @@
+import type { Dispatch, State } from "../app/types.ts";
+import {
+  TRAFFIC_PAYLOAD_ISSUE_KINDS,
+  type TrafficDiagnosticEntry,
+  type TrafficDiagnostics,
+  type TrafficPayloadIssueKind,
+} from "../app/trafficDiagnostics.ts";
+
+const clearChildren = (el: Element) => {
+  while (el.firstChild) el.removeChild(el.firstChild);
+};
+
+const formatTime = (ms: number) => new Date(ms).toLocaleTimeString();
+
+const KIND_LABELS: Record<TrafficPayloadIssueKind, string> = {
+  invalid: "Invalid entry",
+  unknownConnection: "Unknown link",
+  utilizationRange: "Utilization out of range",
+  negativeRate: "Negative rate",
+  unknownStatus: "Unknown status",
+};
+
+export function createDiagnosticsPanel(
+  {
+    diagnosticsList,
+    diagnosticsSummary,
+    diagnosticsCounts,
+    dispatch,
+  }: {
+    diagnosticsList: HTMLElement;
+    diagnosticsSummary: HTMLElement;
+    diagnosticsCounts: HTMLElement;
+    dispatch: Dispatch;
+  },
+) {
+  let lastDiagnostics: TrafficDiagnostics | null = null;
+  let lastDevices: State["devices"] | null = null;
+  let lastConnections: State["connections"] | null = null;
+
+  const render = (state: State) => {
+    const diagnostics = state.trafficDiagnostics;
+    if (
+      diagnostics === lastDiagnostics && state.devices === lastDevices &&
+      state.connections === lastConnections
+    ) {
+      return;
+    }
+    lastDiagnostics = diagnostics;
+    lastDevices = state.devices;
+    lastConnections = state.connections;
+
+    const namesById = new Map(state.devices.map((d) => [d.id, d.name]));
+    const connectionOf = (entry: TrafficDiagnosticEntry) =>
+      entry.connectionId
+        ? state.connections.find((c) => c.id === entry.connectionId)
+        : undefined;
+    const subject = (entry: TrafficDiagnosticEntry) => {
+      const c = connectionOf(entry);
+      if (c) {
+        const a = namesById.get(c.from.deviceId) ?? c.from.deviceId;
+        const b = namesById.get(c.to.deviceId) ?? c.to.deviceId;
+        return `${a} ↔ ${b}`;
+      }
+      return entry.deviceId ? namesById.get(entry.deviceId) ?? "" : "";
+    };
+    const select = (entry: TrafficDiagnosticEntry) => {
+      const c = connectionOf(entry);
+      const ids = c
+        ? [c.from.deviceId, c.to.deviceId]
+        : entry.deviceId && namesById.has(entry.deviceId)
+        ? [entry.deviceId]
+        : [];
+      ids.forEach((id) =>
+        dispatch({ type: "toggleSelect", id, forceOn: true })
+      );
+    };
+
+    const issueCount = TRAFFIC_PAYLOAD_ISSUE_KINDS.reduce(
+      (sum, kind) => sum + diagnostics.counts[kind],
+      0,
+    );
+    diagnosticsSummary.textContent = issueCount
+      ? `${issueCount} ${
+        issueCount === 1 ? "issue" : "issues"
+      }, ${diagnostics.dropped} dropped`
+      : "";
+
+    clearChildren(diagnosticsCounts);
+    TRAFFIC_PAYLOAD_ISSUE_KINDS.filter((kind) => diagnostics.counts[kind])
+      .forEach((kind) => {
+        const count = document.createElement("span");
+        count.className = `diagnostics-count kind-${kind}`;
+        count.textContent = `${KIND_LABELS[kind]}: ${diagnostics.counts[kind]}`;
+        diagnosticsCounts.appendChild(count);
+      });
+
+    clearChildren(diagnosticsList);
+    if (!diagnostics.recent.length) {
+      const empty = document.createElement("span");
+      empty.className = "status";
+      empty.textContent = "No payload problems";
+      diagnosticsList.appendChild(empty);
+      return;
+    }
+
+    diagnostics.recent.forEach((entry) => {
+      const row = document.createElement("button");
+      row.type = "button";
+      row.className = `event-row diagnostics-row kind-${entry.kind}`;
+      const label = subject(entry);
+      row.disabled = !label;
+
+      const head = document.createElement("div");
+      head.className = "event-head";
+      head.textContent = `${formatTime(entry.at)} · ${KIND_LABELS[entry.kind]}`;
+
+      const message = document.createElement("div");
+      message.className = "event-message";
+      message.textContent = entry.message;
+
+      row.appendChild(head);
+      row.appendChild(message);
+      if (label) {
+        const target = document.createElement("div");
+        target.className = "event-target";
+        target.textContent = label;
+        row.appendChild(target);
+        row.addEventListener("click", () => select(entry));
+      }
+      diagnosticsList.appendChild(row);
+    });
+  };
+
+  return { render };
+}
@@ -0,0 +1,134 @@
+import type { Dispatch, State } from "../app/types.ts";
+import {
+  APP_EVENT_KINDS,
+  type AppEvent,
+  type AppEventKind,
+} from "../app/events.ts";
+
+const clearChildren = (el: Element) => {
+  while (el.firstChild) el.removeChild(el.firstChild);
+};
+
+const formatTime = (ms: number) => new Date(ms).toLocaleTimeString();
+
+const KIND_LABELS: Record<AppEventKind, string> = {
+  link: "Link",
+  device: "Device",
+  utilization: "Utilization",
+  connector: "Connector",
+  builder: "Editor",
+};
+
+export function createEventLogPanel(
+  {
+    eventLogList,
+    eventLogFilter,
+    dispatch,
+  }: {
+    eventLogList: HTMLElement;
+    eventLogFilter: HTMLSelectElement;
+    dispatch: Dispatch;
+  },
+) {
+  let lastEvents: AppEvent[] | null = null;
+  let lastDevices: State["devices"] | null = null;
+  let lastConnections: State["connections"] | null = null;
+  let lastState: State | null = null;
+  let kindFilter: AppEventKind | "" = "";
+
+  clearChildren(eventLogFilter);
+  [["", "All events"], ...APP_EVENT_KINDS.map((k) => [k, KIND_LABELS[k]])]
+    .forEach(([value, label]) => {
+      const opt = document.createElement("option");
+      opt.value = value;
+      opt.textContent = label;
+      eventLogFilter.appendChild(opt);
+    });
+
+  const select = (event: AppEvent) => {
+    const state = lastState;
+    if (!state) return;
+    if (event.deviceId) {
+      dispatch({ type: "toggleSelect", id: event.deviceId, forceOn: true });
+      return;
+    }
+    const c = state.connections.find((c) => c.id === event.connectionId);
+    if (!c) return;
+    dispatch({ type: "toggleSelect", id: c.from.deviceId, forceOn: true });
+    dispatch({ type: "toggleSelect", id: c.to.deviceId, forceOn: true });
+  };
+
+  const draw = (state: State) => {
+    const namesById = new Map(state.devices.map((d) => [d.id, d.name]));
+    const subject = (event: AppEvent) => {
+      if (event.connectionId) {
+        const c = state.connections.find((c) => c.id === event.connectionId);
+        if (!c) return event.connectionId;
+        const a = namesById.get(c.from.deviceId) ?? c.from.deviceId;
+        const b = namesById.get(c.to.deviceId) ?? c.to.deviceId;
+        return `${a} ↔ ${b}`;
+      }
+      return event.deviceId ? namesById.get(event.deviceId) ?? "" : "";
+    };
+
+    clearChildren(eventLogList);
+    const events = kindFilter
+      ? state.events.filter((e) => e.kind === kindFilter)
+      : state.events;
+    if (!events.length) {
+      const empty = document.createElement("span");
+      empty.className = "status";
+      empty.textContent = "No events";
+      eventLogList.appendChild(empty);
+      return;
+    }
+
+    events.forEach((event) => {
+      const row = document.createElement("button");
+      row.type = "button";
+      row.className = `event-row kind-${event.kind}`;
+      const label = subject(event);
+      row.disabled = !label;
+
+      const head = document.createElement("div");
+      head.className = "event-head";
+      head.textContent = `${formatTime(event.at)} · ${KIND_LABELS[event.kind]}`;
+
+      const message = document.createElement("div");
+      message.className = "event-message";
+      message.textContent = event.message;
+
+      row.appendChild(head);
+      row.appendChild(message);
+      if (label) {
+        const target = document.createElement("div");
+        target.className = "event-target";
+        target.textContent = label;
+        row.appendChild(target);
+        row.addEventListener("click", () => select(event));
+      }
+      eventLogList.appendChild(row);
+    });
+  };
+
+  eventLogFilter.addEventListener("change", () => {
+    kindFilter = eventLogFilter.value as AppEventKind | "";
+    if (lastState) draw(lastState);
+  });
+
+  const render = (state: State) => {
+    lastState = state;
+    if (
+      state.events === lastEvents && state.devices === lastDevices &&
+      state.connections === lastConnections
+    ) {
+      return;
+    }
+    lastEvents = state.events;
+    lastDevices = state.devices;
+    lastConnections = state.connections;
+    draw(state);
+  };
+
+  return { render };
+}
@@ -0,0 +1,184 @@
+import type { State } from "../app/types.ts";
+import {
+  type ExploredPath,
+  type PathExploration,
+  type PathExplorerMode,
+  withPeakUtilization,
+} from "../app/pathExplorer.ts";
+
+const clearChildren = (el: Element) => {
+  while (el.firstChild) el.removeChild(el.firstChild);
+};
+
+const MODE_LABELS: Record<PathExplorerMode, string> = {
+  shortest: "Shortest paths",
+  disjoint: "Link-disjoint paths",
+};
+
+const formatCapacity = (mbps: number): string =>
+  mbps >= 1000 ? `${mbps / 1000}G` : `${mbps}M`;
+
+const describePath = (path: ExploredPath): string =>
+  [
+    `${path.hops} hop${path.hops === 1 ? "" : "s"}`,
+    path.bottleneckMbps == null
+      ? ""
+      : `${formatCapacity(path.bottleneckMbps)} bottleneck`,
+    path.peakUtilization == null
+      ? ""
+      : `${Math.round(path.peakUtilization * 100)}% peak`,
+  ].filter(Boolean).join(" • ");
+
+// Lists alternative paths between the two selected devices and lets the user
+// step through them; the current one is highlighted on the graph.
+export function createPathExplorerPanel(
+  {
+    panel,
+    modeSelect,
+    prevBtn,
+    nextBtn,
+    summary,
+    list,
+    explorePaths,
+    onFocusPath,
+  }: {
+    panel: HTMLElement;
+    modeSelect: HTMLSelectElement;
+    prevBtn: HTMLButtonElement;
+    nextBtn: HTMLButtonElement;
+    summary: HTMLElement;
+    list: HTMLElement;
+    explorePaths: (fromId: string, toId: string) => PathExploration;
+    onFocusPath: (path: ExploredPath | null) => void;
+  },
+) {
+  let mode: PathExplorerMode = "shortest";
+  let index = 0;
+  let pairKey = "";
+  let focusedKey = "";
+  let lastState: State | null = null;
+  // Paths are searched again only when the pair or the usable links change;
+  // traffic only refreshes the peak numbers.
+  let exploration: PathExploration | null = null;
+  let lastConnections: State["connections"] | null = null;
+  let lastFailedDevices: State["failedDeviceIds"] | null = null;
+  let lastFailedLinks: State["failedConnectionIds"] | null = null;
+  let lastTraffic: State["traffic"] | null = null;
+  let lastDevices: State["devices"] | null = null;
+  let rows: HTMLButtonElement[] = [];
+
+  clearChildren(modeSelect);
+  (Object.keys(MODE_LABELS) as PathExplorerMode[]).forEach((value) => {
+    const opt = document.createElement("option");
+    opt.value = value;
+    opt.textContent = MODE_LABELS[value];
+    modeSelect.appendChild(opt);
+  });
+
+  const focus = (path: ExploredPath | null) => {
+    const key = path ? path.links.join("|") : "";
+    if (key === focusedKey) return;
+    focusedKey = key;
+    onFocusPath(path);
+  };
+
+  const currentPaths = () => exploration?.[mode] ?? [];
+
+  // Moves the highlight without touching the rows.
+  const showIndex = () => {
+    const paths = currentPaths();
+    index = Math.min(Math.max(0, index), Math.max(0, paths.length - 1));
+    prevBtn.disabled = index <= 0;
+    nextBtn.disabled = index >= paths.length - 1;
+    summary.textContent = !paths.length
+      ? "No path"
+      : `Path ${index + 1} of ${paths.length}`;
+    rows.forEach((row, i) => row.classList.toggle("is-active", i === index));
+    focus(paths[index] ?? null);
+  };
+
+  const buildRows = (state: State) => {
+    const namesById = new Map(state.devices.map((d) => [d.id, d.name]));
+    clearChildren(list);
+    rows = currentPaths().map((path, i) => {
+      const row = document.createElement("button");
+      row.type = "button";
+      row.className = "path-row";
+      row.textContent = `${i + 1}. ${describePath(path)}`;
+      row.title = path.nodes.map((id) => namesById.get(id) ?? id).join(" → ");
+      row.addEventListener("click", () => {
+        index = i;
+        showIndex();
+      });
+      list.appendChild(row);
+      return row;
+    });
+    showIndex();
+  };
+
+  const draw = (state: State) => {
+    if (state.selected.size !== 2) {
+      panel.hidden = true;
+      pairKey = "";
+      exploration = null;
+      rows = [];
+      focus(null);
+      return;
+    }
+    const [fromId, toId] = Array.from(state.selected);
+    const key = `${fromId}|${toId}`;
+    const pairChanged = key !== pairKey;
+    const linksChanged = state.connections !== lastConnections ||
+      state.failedDeviceIds !== lastFailedDevices ||
+      state.failedConnectionIds !== lastFailedLinks;
+    const devicesChanged = state.devices !== lastDevices;
+    const trafficChanged = state.traffic !== lastTraffic;
+    pairKey = key;
+    lastConnections = state.connections;
+    lastFailedDevices = state.failedDeviceIds;
+    lastFailedLinks = state.failedConnectionIds;
+    lastDevices = state.devices;
+    lastTraffic = state.traffic;
+
+    if (pairChanged) index = 0;
+    if (pairChanged || linksChanged || !exploration) {
+      exploration = explorePaths(fromId, toId);
+    } else if (trafficChanged) {
+      exploration = withPeakUtilization(exploration, state.traffic);
+    } else if (!devicesChanged) {
+      return;
+    }
+
+    panel.hidden = false;
+    if (pairChanged || linksChanged || devicesChanged) {
+      buildRows(state);
+      return;
+    }
+    // Traffic only: relabel the rows in place.
+    currentPaths().forEach((path, i) => {
+      if (rows[i]) rows[i].textContent = `${i + 1}. ${describePath(path)}`;
+    });
+    showIndex();
+  };
+
+  modeSelect.addEventListener("change", () => {
+    mode = modeSelect.value as PathExplorerMode;
+    index = 0;
+    if (lastState && exploration) buildRows(lastState);
+  });
+  prevBtn.addEventListener("click", () => {
+    index -= 1;
+    showIndex();
+  });
+  nextBtn.addEventListener("click", () => {
+    index += 1;
+    showIndex();
+  });
+
+  const render = (state: State) => {
+    lastState = state;
+    draw(state);
+  };
+
+  return { render };
+}
@@ -1,6 +1,6 @@
 import { typeColor } from "../lib/colors.ts";
 import type { Dispatch, State } from "../app/state.ts";
-import { getSelectedDevices } from "../app/state.ts";
+import { getSelectedDevices, selectDeviceHealth } from "../app/state.ts";
 import { CUSTOM_NETWORK_ID } from "../app/customTopology.ts";
 import {
   DEVICE_KIND_ACCESS_POINT,
@@ -10,6 +10,16 @@ import {
   DEVICE_KIND_UNKNOWN,
   inferDeviceKindFromType,
 } from "../domain/deviceKind.ts";
+import { peakRateMbps, peakUtilization } from "../domain/traffic.ts";
+import type { DeviceHealth } from "../domain/deviceHealth.ts";
+import type { TrafficHistorySample } from "../app/trafficHistory.ts";
+import {
+  BLAST_RADIUS_ROOT_TIERS,
+  createBlastRadiusSelector,
+} from "../app/blastRadius.ts";
+import { createResilienceSelector } from "../app/resilience.ts";
+import { createWhatIfSelector, hasFailures } from "../app/whatIf.ts";
+import { createSparkline, type SparklinePoint } from "./sparkline.ts";
 import {
   GROUP_BACKGROUND_COLOR_OPTIONS,
   GROUP_LAYOUT_OPTIONS,
@@ -56,6 +66,13 @@ const DEVICE_KIND_LABEL = new Map<number, string>([
   [DEVICE_KIND_UNKNOWN, "Other"],
 ]);
 
+const HEALTH_LABEL: Record<DeviceHealth, string> = {
+  ok: "Healthy",
+  degraded: "Degraded",
+  isolated: "Isolated",
+  down: "Down",
+};
+
 const PORT_LABEL_BY_INTERFACE_TYPE = new Map<string, string>([
   ["eth-100m", "100M"],
   ["eth-1g", "1G"],
@@ -145,6 +162,23 @@ const summarizePortProfile = (
   return top.join(", ");
 };
 
+const formatRate = (mbps: number): string =>
+  mbps >= 1000
+    ? `${(mbps / 1000).toFixed(1)} Gbps`
+    : `${mbps.toFixed(mbps < 10 ? 1 : 0)} Mbps`;
+
+const toPoints = (
+  samples: TrafficHistorySample[],
+  pick: (s: TrafficHistorySample) => number | undefined,
+): SparklinePoint[] =>
+  samples.map((s) => ({ at: s.at, value: pick(s) ?? Number.NaN }));
+
+const maxOf = (points: SparklinePoint[], floor: number) =>
+  points.reduce(
+    (max, p) => Number.isFinite(p.value) ? Math.max(max, p.value) : max,
+    floor,
+  );
+
 export function createSelectedPanel(
   {
     selectedDevicesEl,
@@ -154,6 +188,10 @@ export function createSelectedPanel(
     onChangeDeviceType,
     onUpdateDeviceProperties,
     onDeleteDevice,
+    getConnectionHistory,
+    blastRadiusRootSelect,
+    onToggleFailure,
+    onClearFailures,
   }: {
     selectedDevicesEl: HTMLElement;
     selectedOverlay: HTMLElement | null;
@@ -165,9 +203,27 @@ export function createSelectedPanel(
       propertiesJsonText: string,
     ) => void;
     onDeleteDevice: (deviceId: string) => void;
+    getConnectionHistory: (connectionId: string) => TrafficHistorySample[];
+    blastRadiusRootSelect: HTMLSelectElement;
+    onToggleFailure: (kind: "device" | "connection", id: string) => void;
+    onClearFailures: () => void;
   },
 ) {
+  clearChildren(blastRadiusRootSelect);
+  [["", "Off"], ...BLAST_RADIUS_ROOT_TIERS.map((t) => [t, `Reach ${t}`])]
+    .forEach(([value, label]) => {
+      const opt = document.createElement("option");
+      opt.value = value;
+      opt.textContent = label;
+      blastRadiusRootSelect.appendChild(opt);
+    });
+  blastRadiusRootSelect.addEventListener("change", () => {
+    dispatch({ type: "setBlastRadiusRoot", root: blastRadiusRootSelect.value });
+  });
   let lastThumbWired = 0;
+  const selectBlastRadius = createBlastRadiusSelector();
+  const selectResilience = createResilienceSelector();
+  const selectWhatIf = createWhatIfSelector();
 
   const wireThumbFallbacks = () => {
     // Ensure we don't wire too aggressively if repeated renders happen.
@@ -197,15 +253,230 @@ export function createSelectedPanel(
     );
   };
 
+  // Rate and utilization sparklines for every link touching the device, over
+  // the recorded traffic history. Values shown are at the scrubbed time.
+  const renderLinkTraffic = (
+    deviceId: string,
+    state: State,
+  ): HTMLElement | null => {
+    const range = state.trafficHistoryRange;
+    if (!range) return null;
+    const links = state.connections.filter((c) =>
+      c.from.deviceId === deviceId || c.to.deviceId === deviceId
+    );
+    if (!links.length) return null;
+
+    const namesById = new Map(state.devices.map((d) => [d.id, d.name]));
+    const atMs = state.trafficScrubMs ?? range.endMs;
+
+    const section = document.createElement("div");
+    section.className = "selected-traffic";
+
+    links.forEach((c) => {
+      const peerId = c.from.deviceId === deviceId
+        ? c.to.deviceId
+        : c.from.deviceId;
+      const peerName = namesById.get(peerId) ?? peerId;
+      const samples = getConnectionHistory(c.id);
+      const rate = toPoints(samples, (s) => peakRateMbps(s.traffic));
+      const util = toPoints(samples, (s) => peakUtilization(s.traffic));
+      const current = samples.filter((s) => s.at <= atMs).at(-1)?.traffic;
+
+      const row = document.createElement("div");
+      row.className = "selected-traffic-row";
+      row.title = c.id;
+
+      const peer = document.createElement("div");
+      peer.className = "selected-traffic-peer";
+      peer.textContent = peerName;
+
+      const value = document.createElement("div");
+      value.className = "selected-traffic-value";
+      if (!current) {
+        value.textContent = "—";
+      } else if (
+        typeof current.status === "string" && current.status !== "up"
+      ) {
+        value.textContent = current.status;
+      } else {
+        value.textContent = `${formatRate(peakRateMbps(current) ?? 0)} • ${
+          Math.round((peakUtilization(current) ?? 0) * 100)
+        }%`;
+      }
+
+      const sparks = document.createElement("div");
+      sparks.className = "selected-traffic-sparks";
+      sparks.appendChild(createSparkline({
+        points: rate,
+        startMs: range.startMs,
+        endMs: range.endMs,
+        maxValue: maxOf(rate, 1),
+        markerMs: state.trafficScrubMs,
+        label: `Rate to ${peerName}`,
+      }));
+      sparks.appendChild(createSparkline({
+        points: util,
+        startMs: range.startMs,
+        endMs: range.endMs,
+        maxValue: maxOf(util, 1),
+        markerMs: state.trafficScrubMs,
+        label: `Utilization to ${peerName}`,
+      }));
+
+      row.appendChild(peer);
+      row.appendChild(value);
+      row.appendChild(sparks);
+      section.appendChild(row);
+    });
+
+    return section;
+  };
+
+  // Devices cut off from the chosen root tier if the selected device (or the
+  // link between the two selected devices) failed.
+  const renderBlastRadius = (state: State): HTMLElement | null => {
+    const result = selectBlastRadius(state);
+    if (!result) return null;
+
+    const namesById = new Map(state.devices.map((d) => [d.id, d.name]));
+    const section = document.createElement("div");
+    section.className = "blast-radius";
+
+    const heading = document.createElement("div");
+    heading.className = "blast-radius-heading";
+    const what = result.failedDeviceIds.length
+      ? namesById.get(result.failedDeviceIds[0]) ?? result.failedDeviceIds[0]
+      : `the link${result.failedConnectionIds.length > 1 ? "s" : ""}`;
+    heading.textContent = !result.rootIds.length
+      ? `No ${result.rootTier} devices in this network.`
+      : result.disconnectedIds.length
+      ? `If ${what} fails, ${result.disconnectedIds.length} device(s) lose ${result.rootTier}:`
+      : `If ${what} fails, every device still reaches ${result.rootTier}.`;
+    section.appendChild(heading);
+
+    result.disconnectedIds.forEach((id) => {
+      const row = document.createElement("span");
+      row.className = "blast-radius-row";
+      row.textContent = namesById.get(id) ?? id;
+      row.title = id;
+      section.appendChild(row);
+    });
+    return section;
+  };
+
+  // Resilience overlay summary for one device: whether it is a single point of
+  // failure and how many link-disjoint paths it has to the target tier.
+  const renderRedundancy = (
+    deviceId: string,
+    state: State,
+  ): HTMLElement | null => {
+    if (!state.resilienceOverlay) return null;
+    const report = selectResilience(state);
+    const paths = report.redundancyByDevice.get(deviceId);
+    const isCut = report.articulationPoints.has(deviceId);
+    if (!isCut && paths == null) return null;
+
+    const pill = document.createElement("div");
+    pill.className = "redundancy-pill";
+    pill.classList.toggle("is-weak", isCut || (paths ?? 0) <= 1);
+    pill.textContent = [
+      isCut ? "Single point of failure" : "",
+      paths == null
+        ? ""
+        : `${paths} link-disjoint path${
+          paths === 1 ? "" : "s"
+        } to ${report.targetTier}`,
+    ].filter(Boolean).join(" • ");
+    return pill;
+  };
+
+  // What-if failures: toggles for the selected devices and the links between
+  // them, plus a summary of everything currently marked failed.
+  const renderWhatIf = (state: State): HTMLElement | null => {
+    const selectedIds = Array.from(state.selected);
+    const links = state.connections.filter((c) =>
+      state.selected.has(c.from.deviceId) && state.selected.has(c.to.deviceId)
+    );
+    if (!selectedIds.length && !hasFailures(state)) return null;
+
+    const namesById = new Map(state.devices.map((d) => [d.id, d.name]));
+    const nameOf = (id: string) => namesById.get(id) ?? id;
+    const section = document.createElement("div");
+    section.className = "what-if";
+
+    const heading = document.createElement("div");
+    heading.className = "what-if-heading";
+    const { result } = selectWhatIf(state);
+    if (!result) {
+      heading.textContent = "What-if: nothing failed.";
+    } else {
+      const parts = [
+        state.failedDeviceIds.size
+          ? `${state.failedDeviceIds.size} device(s)`
+          : "",
+        state.failedConnectionIds.size
+          ? `${state.failedConnectionIds.size} link(s)`
+          : "",
+      ].filter(Boolean).join(" and ");
+      const cutOff = result.rootTier
+        ? `; ${result.unreachableIds.length} device(s) lose ${result.rootTier}`
+        : "";
+      heading.textContent = `What-if: ${parts} failed${cutOff}.`;
+    }
+    section.appendChild(heading);
+
+    const addToggle = (
+      kind: "device" | "connection",
+      id: string,
+      label: string,
+      failed: boolean,
+    ) => {
+      const btn = document.createElement("button");
+      btn.type = "button";
+      btn.className = "what-if-toggle";
+      btn.classList.toggle("is-failed", failed);
+      btn.textContent = `${failed ? "Restore" : "Fail"} ${label}`;
+      btn.addEventListener("click", () => onToggleFailure(kind, id));
+      section.appendChild(btn);
+    };
+    selectedIds.forEach((id) =>
+      addToggle("device", id, nameOf(id), state.failedDeviceIds.has(id))
+    );
+    links.forEach((c) =>
+      addToggle(
+        "connection",
+        c.id,
+        `${nameOf(c.from.deviceId)} ↔ ${nameOf(c.to.deviceId)}`,
+        state.failedConnectionIds.has(c.id),
+      )
+    );
+
+    if (result) {
+      const restoreAll = document.createElement("button");
+      restoreAll.type = "button";
+      restoreAll.className = "what-if-toggle";
+      restoreAll.textContent = "Restore all";
+      restoreAll.addEventListener("click", () => onClearFailures());
+      section.appendChild(restoreAll);
+    }
+    return section;
+  };
+
   const render = (state: State) => {
+    if (blastRadiusRootSelect.value !== state.blastRadiusRoot) {
+      blastRadiusRootSelect.value = state.blastRadiusRoot;
+    }
     clearChildren(selectedDevicesEl);
     const selectedList = getSelectedDevices(state);
+    const healthById = selectDeviceHealth(state);
 
     if (!selectedList.length) {
       const empty = document.createElement("span");
       empty.className = "status";
       empty.textContent = "No devices selected";
       selectedDevicesEl.appendChild(empty);
+      const whatIf = renderWhatIf(state);
+      if (whatIf) selectedDevicesEl.appendChild(whatIf);
       return;
     }
 
@@ -348,6 +619,30 @@ export function createSelectedPanel(
       content.appendChild(metaDetail);
       content.appendChild(typePill);
 
+      const health = healthById.get(d.id);
+      if (health) {
+        const healthPill = document.createElement("div");
+        healthPill.className = `health-pill health-${health.health}`;
+        const reported = health.reportedStatus
+          ? `reports ${health.reportedStatus}`
+          : "";
+        const links = health.linksDown
+          ? `${health.linksDown}/${health.linksTotal} links down`
+          : "";
+        healthPill.textContent = [
+          HEALTH_LABEL[health.health],
+          reported,
+          links,
+        ].filter(Boolean).join(" • ");
+        content.appendChild(healthPill);
+      }
+
+      const redundancy = renderRedundancy(d.id, state);
+      if (redundancy) content.appendChild(redundancy);
+
+      const linkTraffic = renderLinkTraffic(d.id, state);
+      if (linkTraffic) content.appendChild(linkTraffic);
+
       if (isCustomMode) {
         const isContainer = d.isContainer === true;
         const editableProperties = (() => {
@@ -704,6 +999,11 @@ export function createSelectedPanel(
       selectedDevicesEl.appendChild(card);
     });
 
+    const blastRadius = renderBlastRadius(state);
+    if (blastRadius) selectedDevicesEl.appendChild(blastRadius);
+    const whatIf = renderWhatIf(state);
+    if (whatIf) selectedDevicesEl.appendChild(whatIf);
+
     wireThumbFallbacks();
   };
 
@@ -0,0 +1,91 @@
+const SVG_NS = "http://www.w3.org/2000/svg";
+
+export type SparklinePoint = { at: number; value: number };
+
+type SparklineScale = {
+  width: number;
+  height: number;
+  startMs: number;
+  endMs: number;
+  maxValue: number;
+};
+
+const round = (v: number) => Math.round(v * 10) / 10;
+
+// Polyline path for `points` over the [startMs, endMs] window. Values are
+// held until the next sample, so a link that goes quiet stays flat rather
+// than sloping toward the next point.
+export const sparklinePath = (
+  points: SparklinePoint[],
+  { width, height, startMs, endMs, maxValue }: SparklineScale,
+): string => {
+  const span = Math.max(1, endMs - startMs);
+  const max = maxValue > 0 ? maxValue : 1;
+  const x = (at: number) =>
+    round(Math.max(0, Math.min(1, (at - startMs) / span)) * width);
+  const y = (value: number) =>
+    round(height - Math.max(0, Math.min(1, value / max)) * height);
+
+  const visible = points.filter((p) => Number.isFinite(p.value));
+  if (!visible.length) return "";
+
+  const parts: string[] = [];
+  visible.forEach((p, idx) => {
+    const px = x(p.at);
+    const py = y(p.value);
+    if (idx === 0) parts.push(`M${px},${py}`);
+    else parts.push(`H${px}`, `V${py}`);
+  });
+  parts.push(`H${x(endMs)}`);
+  return parts.join("");
+};
+
+export const createSparkline = (
+  {
+    points,
+    startMs,
+    endMs,
+    maxValue,
+    markerMs = null,
+    label,
+    width = 96,
+    height = 18,
+  }: {
+    points: SparklinePoint[];
+    startMs: number;
+    endMs: number;
+    maxValue: number;
+    markerMs?: number | null;
+    label: string;
+    width?: number;
+    height?: number;
+  },
+): SVGSVGElement => {
+  const svg = document.createElementNS(SVG_NS, "svg");
+  svg.setAttribute("class", "sparkline");
+  svg.setAttribute("width", String(width));
+  svg.setAttribute("height", String(height));
+  svg.setAttribute("viewBox", `0 0 ${width} ${height}`);
+  svg.setAttribute("role", "img");
+  svg.setAttribute("aria-label", label);
+
+  const path = document.createElementNS(SVG_NS, "path");
+  path.setAttribute(
+    "d",
+    sparklinePath(points, { width, height, startMs, endMs, maxValue }),
+  );
+  svg.appendChild(path);
+
+  if (markerMs != null && endMs > startMs) {
+    const mx = round(((markerMs - startMs) / (endMs - startMs)) * width);
+    const marker = document.createElementNS(SVG_NS, "line");
+    marker.setAttribute("class", "sparkline-marker");
+    marker.setAttribute("x1", String(mx));
+    marker.setAttribute("x2", String(mx));
+    marker.setAttribute("y1", "0");
+    marker.setAttribute("y2", String(height));
+    svg.appendChild(marker);
+  }
+
+  return svg;
+};
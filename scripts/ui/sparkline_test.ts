@@ -0,0 +1,18 @@
+import { assertEquals } from "@std/assert";
+import { sparklinePath } from "./sparkline.ts";
+
+Deno.test("sparkline: holds each value until the next sample", () => {
+  const d = sparklinePath(
+    [{ at: 0, value: 0 }, { at: 50, value: 10 }, { at: 75, value: Number.NaN }],
+    { width: 100, height: 20, startMs: 0, endMs: 100, maxValue: 10 },
+  );
+  assertEquals(d, "M0,20H50V0H100");
+});
+
+Deno.test("sparkline: clamps samples outside the window", () => {
+  const d = sparklinePath(
+    [{ at: -500, value: 20 }, { at: 40, value: 5 }],
+    { width: 10, height: 10, startMs: 0, endMs: 100, maxValue: 10 },
+  );
+  assertEquals(d, "M0,0H4V5H10");
+});
@@ -0,0 +1,318 @@
+import { join } from "@std/path";
+import {
+  parseConnectionsFixture,
+  parseDevicesFixture,
+} from "../scripts/domain/fixtures.ts";
+import { parseDeviceTypeIndex } from "../scripts/domain/deviceTypes.ts";
+import type { DeviceType, TrafficUpdate } from "../scripts/domain/types.ts";
+import { createFlowTrafficConnector } from "../scripts/traffic/connectors/flow.ts";
+import { resolveTrafficMatrixPath } from "../scripts/traffic/matrix.ts";
+import { createSimulationClock } from "../scripts/traffic/clock.ts";
+import {
+  type CapacityPlan,
+  mergePeakUtilization,
+  planCapacity,
+} from "../scripts/app/capacityPlanning.ts";
+
+type NetworkIndex = {
+  networks?: Array<{ id: string; name?: string }>;
+};
+
+type Rec = Record<string, unknown>;
+
+const readJson = async <T>(path: string): Promise<T> =>
+  JSON.parse(await Deno.readTextFile(path)) as T;
+
+const readJsonIfExists = async <T>(path: string): Promise<T | null> => {
+  try {
+    return await readJson<T>(path);
+  } catch (err) {
+    if (err instanceof Deno.errors.NotFound) return null;
+    throw err;
+  }
+};
+
+const getArgValues = (args: string[], name: string): string[] => {
+  const idx = args.indexOf(name);
+  if (idx < 0) return [];
+  const value = args[idx + 1] ?? "";
+  return value
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+};
+
+const hasFlag = (args: string[], name: string) => args.includes(name);
+
+const usage = () => {
+  console.log(
+    `Usage: deno run --allow-read tools/capacity_report.ts [options]
+
+Options:
+  --networks <a,b,c>    Only report specific network IDs
+  --format <md|csv>     Output format (default: md)
+  --help                Show help
+
+Reports, per core/agg device, downstream vs uplink capacity (from
+data/connectionTypes.json, or port speeds when a link has no type) and the
+links whose simulated peak utilization approaches saturation.
+`,
+  );
+};
+
+// Peak utilization of a flow-simulated network: the flow connector runs on a
+// paused clock stepped past its last scheduled event, and every payload it
+// sends counts towards the peaks.
+const simulatePeaks = (
+  config: Rec,
+  devices: unknown[],
+  connections: unknown[],
+  connectionTypes: unknown,
+): Map<string, number> => {
+  const peaks = new Map<string, number>();
+  const clock = createSimulationClock({ paused: true });
+  const connector = createFlowTrafficConnector({
+    config,
+    connections,
+    connectionTypes,
+    devices,
+    clock,
+  });
+  const stop = connector.start((payload) => {
+    const batches = Array.isArray(payload) ? [payload] : [
+      (payload as Rec)?.initial,
+      (payload as Rec)?.updates,
+    ];
+    batches.forEach((batch) => {
+      if (Array.isArray(batch)) {
+        mergePeakUtilization(peaks, batch as TrafficUpdate[]);
+      }
+    });
+  });
+  // One more tick so events at the last scheduled time are applied.
+  const tickSec = typeof config.tickSeconds === "number" &&
+      config.tickSeconds > 0
+    ? config.tickSeconds
+    : 1;
+  clock.seek((connector.playback.durationSec ?? 0) + tickSec);
+  stop();
+  clock.dispose();
+  return peaks;
+};
+
+const loadPeaks = async (
+  basePath: string,
+  devices: unknown[],
+  connections: unknown[],
+  connectionTypes: unknown,
+): Promise<Map<string, number> | null> => {
+  const connector = await readJsonIfExists<Rec>(
+    join(basePath, "traffic.connector.json"),
+  );
+  if (connector?.kind === "flow" && typeof connector.configPath === "string") {
+    const config = await resolveTrafficMatrixPath(
+      await readJson(join(basePath, connector.configPath)),
+      { basePath, loadJson: readJson, loadText: Deno.readTextFile },
+    ) as Rec;
+    return simulatePeaks(config, devices, connections, connectionTypes);
+  }
+  const snapshot = await readJsonIfExists<Rec>(join(basePath, "traffic.json"));
+  if (!snapshot) return null;
+  const peaks = new Map<string, number>();
+  [snapshot.initial, snapshot.updates].forEach((batch) => {
+    if (Array.isArray(batch)) {
+      mergePeakUtilization(peaks, batch as TrafficUpdate[]);
+    }
+  });
+  return peaks;
+};
+
+const formatRatio = (ratio: number | null) =>
+  ratio == null ? "" : `${Math.round(ratio * 10) / 10}:1`;
+
+const formatPercent = (util: number | null) =>
+  util == null ? "" : `${Math.round(util * 100)}%`;
+
+const csvCell = (v: unknown) => {
+  const s = v == null ? "" : String(v);
+  return /[",\n]/.test(s) ? `"${s.replaceAll('"', '""')}"` : s;
+};
+
+type NetworkPlan = {
+  id: string;
+  name: string;
+  plan: CapacityPlan;
+  nameOf: (id: string) => string;
+  measured: boolean;
+};
+
+const toCsv = (plans: NetworkPlan[]): string => {
+  const rows: unknown[][] = [[
+    "network",
+    "kind",
+    "subject",
+    "tier",
+    "downstream_mbps",
+    "upstream_mbps",
+    "oversubscription",
+    "capacity_mbps",
+    "peak_utilization",
+  ]];
+  for (const { id, plan, nameOf } of plans) {
+    plan.devices.forEach((d) =>
+      rows.push([
+        id,
+        "device",
+        nameOf(d.deviceId),
+        d.tier,
+        d.downstreamMbps,
+        d.upstreamMbps,
+        d.ratio == null ? "" : Math.round(d.ratio * 100) / 100,
+        "",
+        d.peakUplinkUtilization ?? "",
+      ])
+    );
+    plan.saturatedLinks.forEach((l) =>
+      rows.push([
+        id,
+        "link",
+        `${nameOf(l.fromId)} <-> ${nameOf(l.toId)}`,
+        "",
+        "",
+        "",
+        "",
+        l.capacityMbps ?? "",
+        l.peakUtilization,
+      ])
+    );
+  }
+  return rows.map((r) => r.map(csvCell).join(",")).join("\n");
+};
+
+const toMarkdown = (plans: NetworkPlan[]): string => {
+  const sections = ["# Capacity report"];
+  for (const { id, name, plan, nameOf, measured } of plans) {
+    const lines = [
+      `## ${name} (\`${id}\`)`,
+      "",
+      "| Device | Tier | Downstream | Uplink | Ratio | Uplink peak |",
+      "| --- | --- | ---: | ---: | ---: | ---: |",
+      ...plan.devices.map((d) =>
+        `| ${
+          [
+            nameOf(d.deviceId),
+            d.tier,
+            `${d.downstreamMbps} Mbps`,
+            `${d.upstreamMbps} Mbps`,
+            formatRatio(d.ratio),
+            formatPercent(d.peakUplinkUtilization),
+          ].join(" | ")
+        } |`
+      ),
+      "",
+    ];
+    if (!plan.devices.length) lines.splice(2, 2, "No core or agg devices.");
+    if (!measured) {
+      lines.push("No traffic data; saturation not measured.");
+    } else if (!plan.saturatedLinks.length) {
+      lines.push(
+        `No link peaks at or above ${
+          formatPercent(plan.saturationUtilization)
+        }.`,
+      );
+    } else {
+      lines.push(
+        `Links peaking at or above ${
+          formatPercent(plan.saturationUtilization)
+        }:`,
+        ...plan.saturatedLinks.map((l) =>
+          `- ${nameOf(l.fromId)} ↔ ${nameOf(l.toId)}: ${
+            formatPercent(l.peakUtilization)
+          }${l.capacityMbps == null ? "" : ` of ${l.capacityMbps} Mbps`}`
+        ),
+      );
+    }
+    sections.push(lines.join("\n"));
+  }
+  return sections.join("\n\n");
+};
+
+const main = async () => {
+  const args = Deno.args;
+  if (hasFlag(args, "--help") || hasFlag(args, "-h")) {
+    usage();
+    Deno.exit(0);
+  }
+  const format = getArgValues(args, "--format")[0] ?? "md";
+  if (format !== "md" && format !== "csv") {
+    throw new Error(`Unknown format "${format}" (expected md or csv)`);
+  }
+
+  const root = Deno.cwd();
+  const index = await readJson<NetworkIndex>(
+    join(root, "data", "networks", "index.json"),
+  );
+  const allNetworks = index.networks || [];
+  const wanted = getArgValues(args, "--networks");
+  const selectedNetworks = wanted.length
+    ? allNetworks.filter((n) => wanted.includes(n.id))
+    : allNetworks;
+
+  if (!selectedNetworks.length) {
+    throw new Error(
+      `No matching networks found. Available: ${
+        allNetworks.map((n) => n.id).join(", ")
+      }`,
+    );
+  }
+
+  const connectionTypes = await readJson(
+    join(root, "data", "connectionTypes.json"),
+  );
+  // Generated catalog; only needed for links without a connection type.
+  const deviceTypeIndexPath = join(root, "data", "netbox-device-types.json");
+  const deviceTypeIndex = await readJsonIfExists(deviceTypeIndexPath);
+  const deviceTypes: Record<string, DeviceType> = deviceTypeIndex
+    ? parseDeviceTypeIndex(deviceTypeIndex, deviceTypeIndexPath)
+    : {};
+
+  const plans: NetworkPlan[] = [];
+  for (const net of selectedNetworks) {
+    const basePath = join(root, "data", "networks", net.id);
+    const devicesPath = join(basePath, "devices.json");
+    const connectionsPath = join(basePath, "connections.json");
+    const devices = parseDevicesFixture(
+      await readJson(devicesPath),
+      devicesPath,
+    );
+    const connections = parseConnectionsFixture(
+      await readJson(connectionsPath),
+      connectionsPath,
+    );
+
+    const peaks = await loadPeaks(
+      basePath,
+      devices,
+      connections,
+      connectionTypes,
+    );
+    const names = new Map(devices.map((d) => [d.id, d.name || d.id]));
+    plans.push({
+      id: net.id,
+      name: net.name || net.id,
+      plan: planCapacity({
+        devices,
+        connections,
+        connectionTypes,
+        deviceTypes,
+        peakUtilization: peaks ?? new Map(),
+      }),
+      nameOf: (id) => names.get(id) ?? id,
+      measured: peaks != null,
+    });
+  }
+
+  console.log(format === "csv" ? toCsv(plans) : toMarkdown(plans));
+};
+
+await main();
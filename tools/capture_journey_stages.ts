@@ -5,6 +5,7 @@ import { createControls } from "../scripts/ui/controls.ts";
 import { buildBuilderPickerModel } from "../scripts/app/builderPickerOptions.ts";
 import type { DeviceType, NetworkDevice } from "../scripts/domain/types.ts";
 import type { State } from "../scripts/app/types.ts";
+import { emptyTrafficDiagnostics } from "../scripts/app/trafficDiagnostics.ts";
 
 type Stage = {
   id: string;
@@ -212,10 +213,22 @@ const createState = (stage: Stage): State => {
     devices,
     connections: [],
     traffic: [],
+    deviceStatus: [],
+    trafficHistoryRange: null,
+    trafficScrubMs: null,
+    alerts: [],
+    events: [],
     deviceTypes: sampleDeviceTypes,
     trafficSourceKind: "default",
     trafficVizKind: "classic",
     layoutKind: "force",
+    blastRadiusRoot: "",
+    resilienceOverlay: false,
+    failedDeviceIds: new Set<string>(),
+    failedConnectionIds: new Set<string>(),
+    trafficRecording: false,
+    trafficPlayback: null,
+    trafficDiagnostics: emptyTrafficDiagnostics(),
   };
 };
 
@@ -292,6 +305,46 @@ const renderStageHtml = async (stage: Stage): Promise<string> => {
       ),
       trafficVizSelect: mustGetById<HTMLSelectElement>(doc, "trafficVizSelect"),
       layoutSelect: mustGetById<HTMLSelectElement>(doc, "layoutSelect"),
+      trafficScrubInput: mustGetById<HTMLInputElement>(doc, "trafficScrub"),
+      trafficScrubValue: mustGetById<HTMLElement>(doc, "trafficScrubValue"),
+      trafficLiveBtn: mustGetById<HTMLButtonElement>(doc, "trafficLive"),
+      trafficPlaybackField: mustGetById<HTMLElement>(
+        doc,
+        "trafficPlaybackField",
+      ),
+      trafficPlaybackPauseBtn: mustGetById<HTMLButtonElement>(
+        doc,
+        "trafficPlaybackPause",
+      ),
+      trafficPlaybackStepBtn: mustGetById<HTMLButtonElement>(
+        doc,
+        "trafficPlaybackStep",
+      ),
+      trafficPlaybackSeekInput: mustGetById<HTMLInputElement>(
+        doc,
+        "trafficPlaybackSeek",
+      ),
+      trafficPlaybackValue: mustGetById<HTMLElement>(
+        doc,
+        "trafficPlaybackValue",
+      ),
+      trafficRecordBtn: mustGetById<HTMLButtonElement>(doc, "trafficRecord"),
+      trafficReplayOpenBtn: mustGetById<HTMLButtonElement>(
+        doc,
+        "trafficReplayOpen",
+      ),
+      trafficReplayInput: mustGetById<HTMLInputElement>(
+        doc,
+        "trafficReplayInput",
+      ),
+      trafficReplayExitBtn: mustGetById<HTMLButtonElement>(
+        doc,
+        "trafficReplayExit",
+      ),
+      resilienceOverlayToggle: mustGetById<HTMLInputElement>(
+        doc,
+        "resilienceOverlay",
+      ),
       builderWorkflowSelect: mustGetById<HTMLSelectElement>(
         doc,
         "builderWorkflow",
@@ -335,6 +388,16 @@ const renderStageHtml = async (stage: Stage): Promise<string> => {
       onTrafficSourceChanged: () => {},
       onLayoutChanged: () => {},
       onTrafficVizChanged: () => {},
+      onTrafficScrub: () => {},
+      onTrafficLive: () => {},
+      onStartTrafficRecording: () => {},
+      onStopTrafficRecording: () => {},
+      onReplayTrafficRecording: () => {},
+      onExitTrafficReplay: () => {},
+      onTrafficPlaybackPaused: () => {},
+      onTrafficPlaybackStep: () => {},
+      onTrafficPlaybackSeek: () => {},
+      onResilienceOverlayChanged: () => {},
       onOpenBuilderMode: () => {},
       onExitBuilderMode: () => {},
       onBuilderTypeSearchChanged: () => {},
@@ -0,0 +1,120 @@
+import { join } from "@std/path";
+import {
+  parseConnectionsFixture,
+  parseDevicesFixture,
+} from "../scripts/domain/fixtures.ts";
+import { analyzeResilience } from "../scripts/app/resilience.ts";
+
+type NetworkIndex = {
+  networks?: Array<{ id: string; name?: string }>;
+};
+
+const readJson = async <T>(path: string): Promise<T> =>
+  JSON.parse(await Deno.readTextFile(path)) as T;
+
+const getArgValues = (args: string[], name: string): string[] => {
+  const idx = args.indexOf(name);
+  if (idx < 0) return [];
+  const value = args[idx + 1] ?? "";
+  return value
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+};
+
+const hasFlag = (args: string[], name: string) => args.includes(name);
+
+const usage = () => {
+  console.log(
+    `Usage: deno run --allow-read tools/resilience_report.ts [options]
+
+Options:
+  --networks <a,b,c>    Only report specific network IDs
+  --help                Show help
+
+Prints a Markdown report per network: single points of failure, bridge
+links, and devices with at most one link-disjoint path to the edge tier.
+`,
+  );
+};
+
+const list = (items: string[]) =>
+  items.length ? items.map((s) => `  - ${s}`).join("\n") : "  - none";
+
+const main = async () => {
+  const args = Deno.args;
+  if (hasFlag(args, "--help") || hasFlag(args, "-h")) {
+    usage();
+    Deno.exit(0);
+  }
+
+  const root = Deno.cwd();
+  const index = await readJson<NetworkIndex>(
+    join(root, "data", "networks", "index.json"),
+  );
+  const allNetworks = index.networks || [];
+  const wanted = getArgValues(args, "--networks");
+  const selectedNetworks = wanted.length
+    ? allNetworks.filter((n) => wanted.includes(n.id))
+    : allNetworks;
+
+  if (!selectedNetworks.length) {
+    throw new Error(
+      `No matching networks found. Available: ${
+        allNetworks.map((n) => n.id).join(", ")
+      }`,
+    );
+  }
+
+  const sections: string[] = ["# Resilience report"];
+  for (const net of selectedNetworks) {
+    const basePath = join(root, "data", "networks", net.id);
+    const devicesPath = join(basePath, "devices.json");
+    const connectionsPath = join(basePath, "connections.json");
+    const devices = parseDevicesFixture(
+      await readJson(devicesPath),
+      devicesPath,
+    );
+    const connections = parseConnectionsFixture(
+      await readJson(connectionsPath),
+      connectionsPath,
+    );
+
+    const report = analyzeResilience(devices, connections);
+    const nameOf = new Map(devices.map((d) => [d.id, d.name || d.id]));
+
+    const cuts = devices
+      .filter((d) => report.articulationPoints.has(d.id))
+      .map((d) => nameOf.get(d.id)!);
+    const bridges = connections
+      .filter((c) => report.bridges.has(c.id))
+      .map((c) =>
+        `${nameOf.get(c.from.deviceId) ?? c.from.deviceId} ↔ ${
+          nameOf.get(c.to.deviceId) ?? c.to.deviceId
+        }`
+      );
+    const weak = Array.from(report.redundancyByDevice)
+      .filter(([, paths]) => paths <= 1)
+      .map(([id, paths]) => `${nameOf.get(id) ?? id} (${paths})`);
+
+    sections.push(
+      [
+        `## ${net.name || net.id} (\`${net.id}\`)`,
+        "",
+        `${devices.length} devices, ${connections.length} links.`,
+        "",
+        `- Single points of failure:\n${list(cuts)}`,
+        `- Bridge links:\n${list(bridges)}`,
+        report.targetTier
+          ? `- At most one link-disjoint path to ${report.targetTier}:\n${
+            list(weak)
+          }`
+          : "- No edge or internet devices; redundancy not measured.",
+      ].join("\n"),
+    );
+  }
+
+  console.log(sections.join("\n\n"));
+};
+
+await main();
@@ -0,0 +1,144 @@
+import { join } from "@std/path";
+import { createTrafficConnector } from "../scripts/traffic/registry.ts";
+import type { TrafficUpdate } from "../scripts/domain/types.ts";
+
+// Local stand-in for a push collector. It runs one of the simulated connectors
+// (flow/generated) for a fixture network and broadcasts every batch to all
+// connected WebSocket clients, so the `websocket` connector can be exercised
+// without real infrastructure.
+
+type ServerOptions = {
+  networkId: string;
+  source: "flow" | "generated";
+  port: number;
+  dropEverySec: number | null;
+};
+
+const DEFAULT_PORT = 8787;
+
+const getArgValue = (args: string[], name: string) => {
+  const idx = args.indexOf(name);
+  if (idx < 0) return null;
+  return args[idx + 1] ?? null;
+};
+
+const hasFlag = (args: string[], name: string) => args.includes(name);
+
+const usage = () => {
+  console.log(
+    `Usage: deno run --allow-read --allow-net tools/traffic_ws_server.ts [options]
+
+Options:
+  --network <id>        Fixture network to simulate (default: small-office)
+  --source <kind>       Simulated source: flow | generated (default: flow)
+  --port <n>            Listen port (default: ${DEFAULT_PORT})
+  --drop-every <sec>    Close all client sockets periodically to exercise reconnects
+  --help                Show help
+
+Point the app at it with data/networks/<id>/traffic.connector.json:
+  { "kind": "websocket", "url": "ws://localhost:${DEFAULT_PORT}/" }
+`,
+  );
+};
+
+const parseOptions = (args: string[]): ServerOptions => {
+  if (hasFlag(args, "--help") || hasFlag(args, "-h")) {
+    usage();
+    Deno.exit(0);
+  }
+
+  const networkId = getArgValue(args, "--network") || "small-office";
+  const sourceRaw = getArgValue(args, "--source") || "flow";
+  if (sourceRaw !== "flow" && sourceRaw !== "generated") {
+    throw new Error(`Invalid --source: ${sourceRaw}`);
+  }
+  const port = Number(getArgValue(args, "--port") || DEFAULT_PORT);
+  if (!Number.isInteger(port) || port <= 0) {
+    throw new Error(`Invalid --port: ${port}`);
+  }
+  const dropRaw = getArgValue(args, "--drop-every");
+  const dropEverySec = dropRaw == null ? null : Number(dropRaw);
+  if (
+    dropEverySec != null &&
+    (!Number.isFinite(dropEverySec) || dropEverySec <= 0)
+  ) {
+    throw new Error(`Invalid --drop-every: ${dropRaw}`);
+  }
+
+  return { networkId, source: sourceRaw, port, dropEverySec };
+};
+
+const readJson = async (path: string): Promise<unknown> =>
+  JSON.parse(await Deno.readTextFile(join(Deno.cwd(), path)));
+
+const main = async () => {
+  const options = parseOptions(Deno.args);
+  const basePath = `data/networks/${options.networkId}`;
+
+  const clients = new Set<WebSocket>();
+  const latest = new Map<string, TrafficUpdate>();
+
+  const broadcast = (payload: unknown) => {
+    const text = JSON.stringify(payload);
+    for (const ws of clients) {
+      if (ws.readyState === WebSocket.OPEN) ws.send(text);
+    }
+  };
+
+  const connector = await createTrafficConnector(
+    { kind: options.source },
+    {
+      basePath,
+      trafficPath: `${basePath}/traffic.json`,
+      loadJson: readJson,
+    },
+  );
+
+  connector.start((payload) => {
+    const rec = payload as { initial?: unknown };
+    const list = (Array.isArray(payload)
+      ? payload
+      : (Array.isArray(rec?.initial) ? rec.initial : [])) as TrafficUpdate[];
+    list.forEach((t) => {
+      if (!t?.connectionId) {
+        return;
+      }
+      latest.set(t.connectionId, { ...latest.get(t.connectionId), ...t });
+    });
+    if (Array.isArray(payload)) {
+      broadcast(payload);
+    }
+  });
+
+  if (options.dropEverySec) {
+    setInterval(() => {
+      if (!clients.size) return;
+      console.log(`Dropping ${clients.size} client(s)`);
+      for (const ws of clients) ws.close(1012, "simulated restart");
+    }, options.dropEverySec * 1000);
+  }
+
+  Deno.serve({ port: options.port }, (req) => {
+    if (req.headers.get("upgrade")?.toLowerCase() !== "websocket") {
+      return new Response("WebSocket endpoint", { status: 426 });
+    }
+
+    const { socket, response } = Deno.upgradeWebSocket(req);
+    socket.onopen = () => {
+      clients.add(socket);
+      // New subscribers get a full snapshot before incremental batches.
+      socket.send(
+        JSON.stringify({ initial: Array.from(latest.values()), updates: [] }),
+      );
+    };
+    socket.onclose = () => clients.delete(socket);
+    socket.onerror = () => clients.delete(socket);
+    return response;
+  });
+
+  console.log(
+    `Streaming ${options.source} traffic for ${options.networkId} on ws://localhost:${options.port}/`,
+  );
+};
+
+await main();
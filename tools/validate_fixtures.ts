@@ -1,6 +1,7 @@
 import { join } from "@std/path";
 import { parseDeviceTypeIndex } from "../scripts/domain/deviceTypes.ts";
 import { FixtureValidationError } from "../scripts/domain/errors.ts";
+import { ALERT_RULE_KINDS, ALERT_SEVERITIES } from "../scripts/app/alerts.ts";
 import {
   parseConnectionsFixture,
   parseDevicesFixture,
@@ -9,6 +10,11 @@ import {
   normalizeLegacyInterfaceIds,
   validateTopology,
 } from "../scripts/domain/topology.ts";
+import {
+  expandTrafficMatrix,
+  resolveTrafficMatrixPath,
+} from "../scripts/traffic/matrix.ts";
+import { parseTrafficProfiles } from "../scripts/traffic/profiles.ts";
 
 const root = Deno.cwd();
 const networksIndexPath = join(root, "data", "networks", "index.json");
@@ -44,6 +50,8 @@ type Connection = {
   to: ConnectionEnd;
   connectionType?: string;
   connection_type?: string;
+  cost?: unknown;
+  metric?: unknown;
 };
 
 type TrafficUpdate = { connectionId: string };
@@ -61,8 +69,11 @@ type TrafficGenerator = {
 
 type FlowConfig = {
   tickSeconds?: number;
+  ecmp?: unknown;
+  matrix?: unknown;
   flows?: Array<
     {
+      ecmp?: unknown;
       id?: string;
       fromDeviceId?: string;
       toDeviceId?: string;
@@ -71,10 +82,19 @@ type FlowConfig = {
     }
   >;
   events?: Array<
-    { t?: number; flowId?: string; rateMbps?: number; status?: string }
+    {
+      t?: number;
+      flowId?: string;
+      connectionId?: string;
+      deviceId?: string;
+      rateMbps?: number;
+      status?: string;
+    }
   >;
 };
 
+const ECMP_MODES = new Set(["off", "even", "hash"]);
+
 const asArray = <T>(v: unknown): T[] => (Array.isArray(v) ? (v as T[]) : []);
 
 const asRecord = (v: unknown): Record<string, unknown> | null =>
@@ -143,6 +163,7 @@ for (const net of networks) {
   const trafficGeneratorPath = join(basePath, "traffic.generator.json");
   const trafficConnectorPath = join(basePath, "traffic.connector.json");
   const trafficFlowPath = join(basePath, "traffic.flow.json");
+  const alertsPath = join(basePath, "alerts.json");
 
   const devicesRaw = await readJson(devicesPath);
   const connectionsRaw = await readJson(connectionsPath);
@@ -265,6 +286,18 @@ for (const net of networks) {
         );
       }
     }
+
+    for (const field of ["cost", "metric"] as const) {
+      const value = c?.[field];
+      if (
+        value !== undefined &&
+        !(typeof value === "number" && Number.isFinite(value) && value > 0)
+      ) {
+        errors.push(
+          `${networkId}: connection "${id}" ${field} must be a positive number`,
+        );
+      }
+    }
   }
 
   const connector = await readJsonOptional(trafficConnectorPath);
@@ -273,17 +306,51 @@ for (const net of networks) {
     const kind = typeof connectorObj.kind === "string"
       ? connectorObj.kind.trim()
       : "";
-    if (kind === "flow") {
+    // A composite source needs the flow config when one member is a flow.
+    const usesFlow = kind === "flow" ||
+      (kind === "composite" &&
+        asArray<unknown>(connectorObj.connectors).some((m) =>
+          asRecord(m)?.kind === "flow"
+        ));
+    if (usesFlow) {
       const flowJson = await readJsonOptional(trafficFlowPath);
       if (!flowJson) {
         errors.push(
-          `${networkId}: traffic.connector.json kind "flow" but traffic.flow.json is missing`,
+          `${networkId}: traffic.connector.json uses "flow" but traffic.flow.json is missing`,
         );
       } else {
         const flow = flowJson as FlowConfig;
         const flows = asArray<NonNullable<FlowConfig["flows"]>[number]>(
           flow.flows,
         );
+        // Matrix flows are only checked as a whole: sites must resolve to
+        // devices and every demand must parse.
+        const matrixFlowIds: string[] = [];
+        if (flow.matrix != null) {
+          try {
+            const resolved = await resolveTrafficMatrixPath(flow, {
+              basePath,
+              loadJson: readJson,
+              loadText: Deno.readTextFile,
+            }) as FlowConfig;
+            expandTrafficMatrix({
+              config: resolved.matrix,
+              devices,
+              connections,
+            }).forEach((f) => matrixFlowIds.push(String(f.id)));
+          } catch (err) {
+            errors.push(
+              `${networkId}: traffic.flow.json ${
+                err instanceof Error ? err.message : String(err)
+              }`,
+            );
+          }
+        }
+        if (flow.ecmp !== undefined && !ECMP_MODES.has(String(flow.ecmp))) {
+          errors.push(
+            `${networkId}: traffic.flow.json ecmp must be one of off|even|hash`,
+          );
+        }
         for (const f of flows) {
           const fromId = String(f?.fromDeviceId || "").trim();
           const toId = String(f?.toDeviceId || "").trim();
@@ -313,14 +380,22 @@ for (const net of networks) {
               }" toDeviceId not found: "${toId}"`,
             );
           }
+          if (f?.ecmp !== undefined && !ECMP_MODES.has(String(f.ecmp))) {
+            errors.push(
+              `${networkId}: traffic.flow.json flow "${
+                id || "(missing id)"
+              }" ecmp must be one of off|even|hash`,
+            );
+          }
         }
 
         const events = asArray<NonNullable<FlowConfig["events"]>[number]>(
           flow.events,
         );
-        const flowIds = new Set(
-          flows.map((f) => String(f?.id || "").trim()).filter(Boolean),
-        );
+        const flowIds = new Set([
+          ...flows.map((f) => String(f?.id || "").trim()).filter(Boolean),
+          ...matrixFlowIds,
+        ]);
         for (const ev of events) {
           const flowId = String(ev?.flowId || "").trim();
           if (flowId && flowIds.size && !flowIds.has(flowId)) {
@@ -328,11 +403,81 @@ for (const net of networks) {
               `${networkId}: traffic.flow.json event references unknown flowId "${flowId}"`,
             );
           }
+          const connectionId = String(ev?.connectionId || "").trim();
+          if (connectionId && !connectionIds.has(connectionId)) {
+            errors.push(
+              `${networkId}: traffic.flow.json event references unknown connectionId "${connectionId}"`,
+            );
+          }
+          const eventDeviceId = String(ev?.deviceId || "").trim();
+          if (eventDeviceId && !deviceIds.has(eventDeviceId)) {
+            errors.push(
+              `${networkId}: traffic.flow.json event references unknown deviceId "${eventDeviceId}"`,
+            );
+          }
+          if (
+            (connectionId || eventDeviceId) && ev?.status !== "down" &&
+            ev?.status !== "up"
+          ) {
+            errors.push(
+              `${networkId}: traffic.flow.json failure event needs status "down" or "up"`,
+            );
+          }
         }
       }
     }
   }
 
+  const alertsJson = await readJsonOptional(alertsPath);
+  if (alertsJson) {
+    const rules = Array.isArray(alertsJson)
+      ? alertsJson
+      : asRecord(alertsJson)?.rules;
+    if (!Array.isArray(rules)) {
+      errors.push(`${networkId}: alerts.json needs a "rules" array`);
+    } else {
+      const isNonNegative = (v: unknown) =>
+        v === undefined ||
+        (typeof v === "number" && Number.isFinite(v) && v >= 0);
+      rules.forEach((raw, idx) => {
+        const rule = asRecord(raw);
+        const ctx = `${networkId}: alerts.json rule ${
+          typeof rule?.id === "string" ? `"${rule.id}"` : `#${idx + 1}`
+        }`;
+        const kind = String(rule?.kind ?? "");
+        if (!(ALERT_RULE_KINDS as readonly string[]).includes(kind)) {
+          errors.push(`${ctx} has unknown kind "${kind}"`);
+          return;
+        }
+        if (
+          rule?.severity !== undefined &&
+          !(ALERT_SEVERITIES as readonly string[]).includes(
+            String(rule.severity),
+          )
+        ) {
+          errors.push(`${ctx} has unknown severity "${rule.severity}"`);
+        }
+        if (
+          kind === "utilization" &&
+          !(typeof rule?.abovePercent === "number" &&
+            rule.abovePercent >= 0 && rule.abovePercent <= 100)
+        ) {
+          errors.push(`${ctx} needs abovePercent between 0 and 100`);
+        }
+        for (const field of ["forSeconds", "withinSeconds", "changes"]) {
+          if (!isNonNegative(rule?.[field])) {
+            errors.push(`${ctx} ${field} must be a non-negative number`);
+          }
+        }
+        for (const id of asArray<unknown>(rule?.connectionIds)) {
+          if (!connectionIds.has(String(id))) {
+            errors.push(`${ctx} references missing connectionId "${id}"`);
+          }
+        }
+      });
+    }
+  }
+
   const trafficJson = await readJsonOptional(trafficPath);
   if (trafficJson) {
     if (Array.isArray(trafficJson)) {
@@ -382,6 +527,16 @@ for (const net of networks) {
           `${networkId}: traffic.generator.json links includes missing connectionId "${linkId}"`,
         );
       }
+      const profile = asRecord(gen.links?.[linkId])?.profile;
+      if (
+        profile != null &&
+        parseTrafficProfiles(profile).length !==
+          (Array.isArray(profile) ? profile.length : 1)
+      ) {
+        errors.push(
+          `${networkId}: traffic.generator.json link "${linkId}" profile kind must be one of diurnal|businessHours|burst`,
+        );
+      }
     }
   }
 }